@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FileText, Link2, Loader2 } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { DocumentBacklinks, DocumentLink } from '../utils/linkGraph';
+
+export interface BacklinksStripProps {
+  backlinks: DocumentBacklinks[];
+  /** Whether repository documents are still being read */
+  loading: boolean;
+  /** Whether repository documents have been read, or are being read */
+  loaded: boolean;
+  /** Called when the strip is expanded before documents have been read */
+  onLoad: () => void;
+  /** Called when a link is clicked */
+  onSelect: (link: DocumentLink) => void;
+  theme: Theme;
+}
+
+/**
+ * BacklinksStrip - Collapsible "Linked from" strip below the document listing
+ * the other documents that link to it. Clicking a link opens the document
+ * containing it at that section. The repository is only read once the strip
+ * is first expanded.
+ */
+export const BacklinksStrip: React.FC<BacklinksStripProps> = ({
+  backlinks,
+  loading,
+  loaded,
+  onLoad,
+  onSelect,
+  theme,
+}) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  const summary = !loaded
+    ? 'Linked from'
+    : backlinks.length === 0
+      ? loading
+        ? 'Linked from...'
+        : 'Linked from no other documents'
+      : `Linked from ${backlinks.length} document${backlinks.length === 1 ? '' : 's'}`;
+  const canExpand = !loaded || backlinks.length > 0;
+
+  const toggle = () => {
+    if (!loaded) onLoad();
+    setIsExpanded((expanded) => !expanded);
+  };
+
+  return (
+    <div
+      role="region"
+      aria-label="Linked from"
+      style={{
+        flexShrink: 0,
+        borderTop: `1px solid ${theme.colors.border}`,
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+        fontSize: '12px',
+      }}
+    >
+      <button
+        onClick={toggle}
+        aria-expanded={isExpanded}
+        title={loaded ? undefined : 'Find the documents linking here'}
+        disabled={!canExpand}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          width: '100%',
+          padding: '4px 8px',
+          background: 'none',
+          border: 'none',
+          cursor: canExpand ? 'pointer' : 'default',
+          color: theme.colors.textSecondary,
+          fontSize: '12px',
+          fontFamily: theme.fonts.body,
+          textAlign: 'left',
+        }}
+      >
+        {isExpanded && backlinks.length > 0 ? (
+          <ChevronDown size={14} />
+        ) : (
+          <ChevronRight size={14} />
+        )}
+        <Link2 size={14} />
+        <span>{summary}</span>
+        {loading && (
+          <span
+            title="Reading repository documents"
+            style={{ display: 'flex', alignItems: 'center', color: theme.colors.textMuted }}
+          >
+            <Loader2 size={12} />
+          </span>
+        )}
+      </button>
+
+      {isExpanded && backlinks.length > 0 && (
+        <ul
+          style={{
+            listStyle: 'none',
+            margin: 0,
+            padding: '0 0 4px',
+            maxHeight: '160px',
+            overflowY: 'auto',
+          }}
+        >
+          {backlinks.flatMap(({ source, title, links }) =>
+            links.map((link) => (
+              <li key={`${source}-${link.line}-${link.text ?? ''}`}>
+                <button
+                  onClick={() => onSelect(link)}
+                  title={`${source}:${link.line}`}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    width: '100%',
+                    padding: '3px 8px 3px 28px',
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    color: theme.colors.text,
+                    fontSize: '12px',
+                    fontFamily: theme.fonts.body,
+                    textAlign: 'left',
+                  }}
+                >
+                  <FileText size={12} style={{ flexShrink: 0 }} />
+                  <span
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {title || source}
+                    {link.text && (
+                      <span style={{ color: theme.colors.textMuted }}> — {link.text}</span>
+                    )}
+                  </span>
+                  <span style={{ flexShrink: 0, color: theme.colors.textMuted }}>
+                    Ln {link.line}
+                  </span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,352 @@
+import React, { useEffect, useMemo, useRef, useState, useId } from 'react';
+import { ArrowUp, ArrowDown, Columns2, GitCompare, Rows2, X } from 'lucide-react';
+import { DocumentView } from 'themed-markdown';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { RepositoryInfo } from '@principal-ade/markdown-utils';
+import {
+  diffMarkdownBlocks,
+  buildChangesMarkdown,
+  CHANGE_MARKER_CLASS,
+  INLINE_CHANGE_CLASSES,
+} from '../utils/markdownDiff';
+import { useMermaidDiagrams } from '../hooks/useMermaidDiagrams';
+import { prepareMath } from '../utils/markdownMath';
+import { stripFrontmatter } from '../utils/frontmatter';
+
+/**
+ * How the changes view lays out the two versions
+ * - unified: one document, with removed text struck out next to added text
+ * - side-by-side: the previous version on the left and the current one on the right
+ */
+export type ChangesLayout = 'unified' | 'side-by-side';
+
+export interface ChangesViewProps {
+  /** Content before the change */
+  previousContent: string;
+  /** Current content */
+  content: string;
+  /** Revision the previous content was read at (e.g. HEAD), or null for an external change */
+  revision?: string | null;
+  layout: ChangesLayout;
+  onLayoutChange: (layout: ChangesLayout) => void;
+  theme: Theme;
+  fontSizeScale: number;
+  repositoryInfo?: RepositoryInfo;
+  width?: number;
+  /** Forwarded to DocumentView */
+  onLinkClick?: (href: string, event?: MouseEvent) => void;
+  /** Leave the changes view */
+  onClose: () => void;
+}
+
+/**
+ * Themed styles for the change markers emitted by buildChangesMarkdown
+ */
+const getChangeStyles = (scope: string, theme: Theme) => {
+  const colors = {
+    added: theme.colors.success,
+    removed: theme.colors.error,
+    modified: theme.colors.warning,
+  };
+
+  return Object.entries(colors)
+    .map(([type, color]) => {
+      const marker = `.${CHANGE_MARKER_CLASS}-${type}`;
+      const tint = `color-mix(in srgb, ${color} 14%, transparent)`;
+      const struck = type === 'removed' ? 'text-decoration: line-through; opacity: 0.7;' : '';
+      return `
+        .${scope} div${marker} {
+          background-color: ${tint};
+          border-left: 3px solid ${color};
+          padding: 0 12px;
+          margin: 8px 0;
+          border-radius: 2px;
+          ${struck}
+        }
+        .${scope} li:has(> ${marker}, > p > ${marker}, > div > label > ${marker}, > div > label > p > ${marker}) {
+          background-color: ${tint};
+          box-shadow: -3px 0 0 ${color};
+          ${struck}
+        }
+        .${scope} tr:has(> td:first-child > ${marker}, > th:first-child > ${marker}) {
+          background-color: ${tint};
+          box-shadow: inset 3px 0 0 ${color};
+          ${struck}
+        }
+      `;
+    })
+    .join('\n').concat(`
+      .${scope} .${INLINE_CHANGE_CLASSES.added} {
+        background-color: color-mix(in srgb, ${colors.added} 30%, transparent);
+        border-radius: 2px;
+      }
+      .${scope} .${INLINE_CHANGE_CLASSES.removed} {
+        background-color: color-mix(in srgb, ${colors.removed} 30%, transparent);
+        border-radius: 2px;
+        text-decoration: line-through;
+      }
+    `);
+};
+
+/**
+ * ChangesView - Renders a diff between two versions of a document, highlighting
+ * added, removed and modified blocks in theme colors and the words inserted and
+ * deleted inside modified blocks, in one document or side by side
+ */
+export const ChangesView: React.FC<ChangesViewProps> = ({
+  previousContent,
+  content,
+  revision = null,
+  layout,
+  onLayoutChange,
+  theme,
+  fontSizeScale,
+  repositoryInfo,
+  width,
+  onLinkClick,
+  onClose,
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  // Wrap each side's DocumentView, whose outer element is its scroll container
+  const previousPaneRef = useRef<HTMLDivElement>(null);
+  const currentPaneRef = useRef<HTMLDivElement>(null);
+  const [currentChange, setCurrentChange] = useState<number>(-1);
+  const scope = `markdown-panel-changes-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+
+  const changes = useMemo(
+    // Frontmatter isn't rendered as markdown; hosts see its changes in ContentChangeInfo
+    () => diffMarkdownBlocks(stripFrontmatter(previousContent), stripFrontmatter(content)),
+    [previousContent, content]
+  );
+  const isSideBySide = layout === 'side-by-side';
+  // The unified document, or the current side of a side-by-side diff
+  const { markdown, changeCount: markedCount } = useMemo(
+    () => buildChangesMarkdown(changes, isSideBySide ? 'current' : 'unified'),
+    [changes, isSideBySide]
+  );
+  const previousMarkdown = useMemo(
+    () => (isSideBySide ? buildChangesMarkdown(changes, 'previous').markdown : ''),
+    [changes, isSideBySide]
+  );
+  const diagramContent = useMermaidDiagrams(markdown, theme);
+  const renderedMarkdown = useMemo(() => prepareMath(diagramContent), [diagramContent]);
+  const previousDiagramContent = useMermaidDiagrams(previousMarkdown, theme);
+  const renderedPreviousMarkdown = useMemo(
+    () => prepareMath(previousDiagramContent),
+    [previousDiagramContent]
+  );
+  const counts = useMemo(
+    () => ({
+      added: changes.filter((c) => c.type === 'added').length,
+      removed: changes.filter((c) => c.type === 'removed').length,
+      modified: changes.filter((c) => c.type === 'modified').length,
+    }),
+    [changes]
+  );
+  // Side by side, changes are visited in the current side plus removals in the previous side
+  const changeCount = isSideBySide ? counts.added + counts.removed + counts.modified : markedCount;
+
+  useEffect(() => {
+    setCurrentChange(-1);
+  }, [layout]);
+
+  // Keep the two sides at the same relative scroll position
+  useEffect(() => {
+    const previousPane = previousPaneRef.current?.firstElementChild;
+    const currentPane = currentPaneRef.current?.firstElementChild;
+    if (!isSideBySide || !previousPane || !currentPane) return;
+
+    // The pane scrolled to follow the other, whose scroll event is then ignored
+    let following: Element | null = null;
+    const follow = (from: Element, to: Element) => () => {
+      if (following === from) {
+        following = null;
+        return;
+      }
+      const range = from.scrollHeight - from.clientHeight;
+      const top = (range > 0 ? from.scrollTop / range : 0) * (to.scrollHeight - to.clientHeight);
+      if (Math.abs(to.scrollTop - top) >= 1) {
+        following = to;
+        to.scrollTop = top;
+      }
+    };
+    const onPreviousScroll = follow(previousPane, currentPane);
+    const onCurrentScroll = follow(currentPane, previousPane);
+    previousPane.addEventListener('scroll', onPreviousScroll);
+    currentPane.addEventListener('scroll', onCurrentScroll);
+    return () => {
+      previousPane.removeEventListener('scroll', onPreviousScroll);
+      currentPane.removeEventListener('scroll', onCurrentScroll);
+    };
+  }, [isSideBySide, renderedMarkdown, renderedPreviousMarkdown]);
+
+  /**
+   * Scroll to the next or previous change relative to the middle of the view
+   */
+  const jumpToChange = (direction: 1 | -1) => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    const selector = isSideBySide
+      ? `[data-side="current"] .${CHANGE_MARKER_CLASS}, [data-side="previous"] .${CHANGE_MARKER_CLASS}-removed`
+      : `.${CHANGE_MARKER_CLASS}`;
+    // Inline markers sit inside their list item or table row; scroll to the whole row
+    const targets = Array.from(root.querySelectorAll<HTMLElement>(selector)).map(
+      (marker) => marker.closest<HTMLElement>('li, tr') ?? marker
+    );
+    if (targets.length === 0) return;
+    if (isSideBySide) {
+      // Interleave the two sides in reading order
+      targets.sort((a, b) => a.getBoundingClientRect().top - b.getBoundingClientRect().top);
+    }
+
+    const rootRect = root.getBoundingClientRect();
+    const middle = rootRect.top + rootRect.height / 2;
+    let index: number;
+    if (direction === 1) {
+      index = targets.findIndex((target) => target.getBoundingClientRect().top > middle + 1);
+      if (index === -1) index = 0;
+    } else {
+      index = -1;
+      targets.forEach((target, i) => {
+        if (target.getBoundingClientRect().top < middle - 1) index = i;
+      });
+      if (index === -1) index = targets.length - 1;
+    }
+
+    targets[index].scrollIntoView({ block: 'center', behavior: 'smooth' });
+    setCurrentChange(index);
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'none',
+    border: `1px solid ${theme.colors.border}`,
+    padding: '4px 6px',
+    cursor: changeCount > 0 ? 'pointer' : 'default',
+    display: 'flex',
+    alignItems: 'center',
+    color: theme.colors.textSecondary,
+    borderRadius: '4px',
+    transition: 'all 0.2s',
+    opacity: changeCount > 0 ? 1 : 0.4,
+  };
+
+  const countStyle = (color: string): React.CSSProperties => ({
+    color,
+    fontWeight: theme.fontWeights.semibold,
+  });
+
+  return (
+    <div
+      ref={rootRef}
+      className={scope}
+      style={{ display: 'flex', flexDirection: 'column', height: '100%' }}
+    >
+      <style>{getChangeStyles(scope, theme)}</style>
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '8px 12px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+          backgroundColor: theme.colors.backgroundSecondary,
+          fontFamily: theme.fonts.body,
+          fontSize: '12px',
+          color: theme.colors.textSecondary,
+          flexShrink: 0,
+        }}
+      >
+        <GitCompare size={14} />
+        <span style={{ color: theme.colors.text }}>
+          {revision ? `Changes since ${revision}` : 'Changes'}
+        </span>
+        <span style={countStyle(theme.colors.success)} title="Added blocks">
+          +{counts.added}
+        </span>
+        <span style={countStyle(theme.colors.error)} title="Removed blocks">
+          −{counts.removed}
+        </span>
+        <span style={countStyle(theme.colors.warning)} title="Modified blocks">
+          ~{counts.modified}
+        </span>
+
+        <button onClick={() => jumpToChange(-1)} title="Previous Change" style={buttonStyle}>
+          <ArrowUp size={14} />
+        </button>
+        <button onClick={() => jumpToChange(1)} title="Next Change" style={buttonStyle}>
+          <ArrowDown size={14} />
+        </button>
+        <span style={{ userSelect: 'none' }}>
+          {changeCount === 0
+            ? 'No changes'
+            : currentChange >= 0
+              ? `${currentChange + 1} of ${changeCount}`
+              : `${changeCount} change${changeCount === 1 ? '' : 's'}`}
+        </span>
+
+        <button
+          onClick={() => onLayoutChange(isSideBySide ? 'unified' : 'side-by-side')}
+          title={isSideBySide ? 'Unified View' : 'Side-by-Side View'}
+          style={{ ...buttonStyle, cursor: 'pointer', opacity: 1, marginLeft: 'auto' }}
+        >
+          {isSideBySide ? <Rows2 size={14} /> : <Columns2 size={14} />}
+        </button>
+        <button
+          onClick={onClose}
+          title="Close Changes"
+          style={{ ...buttonStyle, cursor: 'pointer', opacity: 1 }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {isSideBySide ? (
+        <div style={{ flex: 1, minHeight: 0, display: 'flex' }}>
+          <div
+            ref={previousPaneRef}
+            data-side="previous"
+            style={{ flex: 1, minWidth: 0, borderRight: `1px solid ${theme.colors.border}` }}
+          >
+            <DocumentView
+              content={renderedPreviousMarkdown}
+              theme={theme}
+              fontSizeScale={fontSizeScale}
+              onLinkClick={onLinkClick}
+              slideIdPrefix="markdown-panel-changes-previous"
+              maxWidth="100%"
+              repositoryInfo={repositoryInfo}
+              width={width && Math.floor(width / 2)}
+            />
+          </div>
+          <div ref={currentPaneRef} data-side="current" style={{ flex: 1, minWidth: 0 }}>
+            <DocumentView
+              content={renderedMarkdown}
+              theme={theme}
+              fontSizeScale={fontSizeScale}
+              onLinkClick={onLinkClick}
+              slideIdPrefix="markdown-panel-changes"
+              maxWidth="100%"
+              repositoryInfo={repositoryInfo}
+              width={width && Math.floor(width / 2)}
+            />
+          </div>
+        </div>
+      ) : (
+        <div style={{ flex: 1, minHeight: 0 }}>
+          <DocumentView
+            content={renderedMarkdown}
+            theme={theme}
+            fontSizeScale={fontSizeScale}
+            onLinkClick={onLinkClick}
+            slideIdPrefix="markdown-panel-changes"
+            maxWidth="100%"
+            repositoryInfo={repositoryInfo}
+            width={width}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Theme } from '@principal-ade/industry-theme';
+
+export interface CommentComposerProps {
+  /** The text being commented on */
+  quote: string;
+  /** Box of the selection, in viewport coordinates */
+  rect: DOMRect;
+  onSubmit: (body: string) => void;
+  onCancel: () => void;
+  theme: Theme;
+}
+
+const COMPOSER_WIDTH = 300;
+const COMPOSER_GAP = 8;
+
+/**
+ * CommentComposer - Popover below a selection for writing a comment on it.
+ * Ctrl/Cmd+Enter adds the comment and Escape cancels.
+ */
+export const CommentComposer: React.FC<CommentComposerProps> = ({
+  quote,
+  rect,
+  onSubmit,
+  onCancel,
+  theme,
+}) => {
+  const [body, setBody] = useState<string>('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const submit = () => {
+    if (body.trim()) onSubmit(body.trim());
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      submit();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onCancel();
+    }
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '12px',
+    fontFamily: theme.fonts.body,
+    borderRadius: '4px',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Add comment"
+      style={{
+        position: 'fixed',
+        top: Math.min(rect.bottom + COMPOSER_GAP, window.innerHeight - 200),
+        left: Math.max(
+          COMPOSER_GAP,
+          Math.min(rect.left, window.innerWidth - COMPOSER_WIDTH - COMPOSER_GAP)
+        ),
+        width: COMPOSER_WIDTH,
+        padding: '8px',
+        backgroundColor: theme.colors.backgroundLight,
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: '6px',
+        boxShadow: theme.shadows[2],
+        fontFamily: theme.fonts.body,
+        zIndex: 20,
+      }}
+    >
+      <div
+        title={quote}
+        style={{
+          marginBottom: '6px',
+          paddingLeft: '6px',
+          borderLeft: `2px solid ${theme.colors.info}`,
+          fontSize: '12px',
+          fontStyle: 'italic',
+          color: theme.colors.textSecondary,
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {quote}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Add a comment"
+        aria-label="Comment"
+        rows={3}
+        style={{
+          width: '100%',
+          boxSizing: 'border-box',
+          padding: '6px',
+          fontSize: '13px',
+          fontFamily: theme.fonts.body,
+          color: theme.colors.text,
+          backgroundColor: theme.colors.background,
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: '4px',
+          outline: 'none',
+          resize: 'vertical',
+        }}
+      />
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '6px', marginTop: '6px' }}>
+        <button
+          onClick={onCancel}
+          style={{
+            ...buttonStyle,
+            background: 'none',
+            border: `1px solid ${theme.colors.border}`,
+            color: theme.colors.textSecondary,
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={submit}
+          disabled={!body.trim()}
+          title="Comment (Ctrl+Enter)"
+          style={{
+            ...buttonStyle,
+            backgroundColor: theme.colors.primary,
+            border: `1px solid ${theme.colors.primary}`,
+            color: theme.colors.textOnPrimary,
+            opacity: body.trim() ? 1 : 0.5,
+            cursor: body.trim() ? 'pointer' : 'default',
+          }}
+        >
+          Comment
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { MessageSquare } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+
+export interface CommentMarkerProps {
+  /** Whether the comment is shown as selected */
+  isActive: boolean;
+  theme: Theme;
+}
+
+/**
+ * CommentMarker - Marker drawn by the document view at the end of a comment's
+ * quote. The document view handles clicks on it.
+ */
+export const CommentMarker: React.FC<CommentMarkerProps> = ({ isActive, theme }) => (
+  <span
+    role="button"
+    title="Show comment"
+    aria-label="Comment"
+    style={{
+      display: 'inline-flex',
+      alignItems: 'center',
+      marginLeft: '2px',
+      padding: '2px 4px',
+      background: isActive ? theme.colors.info : theme.colors.backgroundLight,
+      border: `1px solid ${theme.colors.info}`,
+      borderRadius: '4px',
+      cursor: 'pointer',
+      color: isActive ? theme.colors.background : theme.colors.info,
+      lineHeight: 1,
+      verticalAlign: 'middle',
+    }}
+  >
+    <MessageSquare size={11} />
+  </span>
+);
@@ -0,0 +1,205 @@
+import React, { useEffect, useRef } from 'react';
+import { AlertTriangle, Trash2, X } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { MarkdownAnnotation } from '../types';
+
+export interface CommentsSidebarProps {
+  /** Comments on the current document, in the order to list them */
+  annotations: MarkdownAnnotation[];
+  /** Comment shown as selected */
+  activeId: string | null;
+  /** Called when a comment is clicked */
+  onSelect: (annotation: MarkdownAnnotation) => void;
+  /** Called when a comment's delete button is clicked; comments are read-only without it */
+  onDelete?: (annotation: MarkdownAnnotation) => void;
+  /** Called when the close button is clicked */
+  onClose: () => void;
+  theme: Theme;
+}
+
+/**
+ * CommentsSidebar - Lists the comments on the current document with their
+ * quotes, flagging comments whose quoted text can no longer be found
+ */
+export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
+  annotations,
+  activeId,
+  onSelect,
+  onDelete,
+  onClose,
+  theme,
+}) => {
+  const activeItemRef = useRef<HTMLDivElement>(null);
+
+  // Bring the selected comment into view (e.g. when its margin marker is clicked)
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeId]);
+
+  return (
+    <aside
+      aria-label="Comments"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: '260px',
+        flexShrink: 0,
+        height: '100%',
+        borderLeft: `1px solid ${theme.colors.border}`,
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 12px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+        }}
+      >
+        <span
+          style={{
+            fontSize: '12px',
+            fontWeight: theme.fontWeights.semibold,
+            color: theme.colors.textSecondary,
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+          }}
+        >
+          Comments
+        </span>
+        <button
+          onClick={onClose}
+          title="Hide Comments"
+          style={{
+            background: 'none',
+            border: 'none',
+            padding: '2px',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            color: theme.colors.textSecondary,
+          }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '6px 0' }}>
+        {annotations.length === 0 ? (
+          <p
+            style={{
+              margin: 0,
+              padding: '8px 12px',
+              fontSize: '12px',
+              color: theme.colors.textMuted,
+            }}
+          >
+            No comments yet. Select text in the document to comment on it.
+          </p>
+        ) : (
+          annotations.map((annotation) => {
+            const isActive = annotation.id === activeId;
+            return (
+              <div
+                key={annotation.id}
+                ref={isActive ? activeItemRef : undefined}
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelect(annotation)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault();
+                    onSelect(annotation);
+                  }
+                }}
+                style={{
+                  padding: '6px 12px',
+                  background: isActive ? theme.colors.backgroundHover : 'none',
+                  borderLeft: `2px solid ${isActive ? theme.colors.info : 'transparent'}`,
+                  cursor: 'pointer',
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  <span
+                    title={annotation.anchor.exact}
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      fontSize: '12px',
+                      fontStyle: 'italic',
+                      color: theme.colors.textSecondary,
+                      textDecoration: annotation.orphaned ? 'line-through' : undefined,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {annotation.anchor.exact}
+                  </span>
+                  {onDelete && (
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        onDelete(annotation);
+                      }}
+                      title="Delete Comment"
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        padding: '2px',
+                        cursor: 'pointer',
+                        display: 'flex',
+                        alignItems: 'center',
+                        color: theme.colors.textSecondary,
+                      }}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+                {annotation.orphaned && (
+                  <div
+                    title="The quoted text was changed or removed"
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '4px',
+                      marginTop: '2px',
+                      fontSize: '11px',
+                      color: theme.colors.warning,
+                    }}
+                  >
+                    <AlertTriangle size={11} />
+                    Orphaned
+                  </div>
+                )}
+                <p
+                  style={{
+                    margin: '4px 0 0',
+                    fontSize: '13px',
+                    lineHeight: 1.4,
+                    color: theme.colors.text,
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-word',
+                  }}
+                >
+                  {annotation.body}
+                </p>
+                {annotation.createdAt > 0 && (
+                  <div
+                    style={{ marginTop: '2px', fontSize: '11px', color: theme.colors.textMuted }}
+                  >
+                    {new Date(annotation.createdAt).toLocaleString()}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { MarkdownDiagnostic } from '../utils/markdownDiagnostics';
+import { countDiagnostics } from '../utils/markdownDiagnostics';
+
+export interface DiagnosticsStripProps {
+  diagnostics: MarkdownDiagnostic[];
+  /** Whether links to other files are still being checked */
+  checking: boolean;
+  /** Called when a problem is clicked */
+  onSelect: (diagnostic: MarkdownDiagnostic) => void;
+  theme: Theme;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * DiagnosticsStrip - Collapsible strip below the document listing the
+ * problems found in it. Clicking a problem jumps to it.
+ */
+export const DiagnosticsStrip: React.FC<DiagnosticsStripProps> = ({
+  diagnostics,
+  checking,
+  onSelect,
+  theme,
+}) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const counts = countDiagnostics(diagnostics);
+
+  const summary = [
+    counts.error > 0 && plural(counts.error, 'error'),
+    counts.warning > 0 && plural(counts.warning, 'warning'),
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div
+      role="region"
+      aria-label="Document problems"
+      style={{
+        flexShrink: 0,
+        borderTop: `1px solid ${theme.colors.border}`,
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+        fontSize: '12px',
+      }}
+    >
+      <button
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        aria-expanded={isExpanded}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          width: '100%',
+          padding: '4px 8px',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          color: theme.colors.textSecondary,
+          fontSize: '12px',
+          fontFamily: theme.fonts.body,
+          textAlign: 'left',
+        }}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        {counts.error > 0 ? (
+          <AlertCircle size={14} color={theme.colors.error} />
+        ) : (
+          <AlertTriangle size={14} color={theme.colors.warning} />
+        )}
+        <span>{summary}</span>
+        {checking && (
+          <span
+            title="Checking links to other files"
+            style={{ display: 'flex', alignItems: 'center', color: theme.colors.textMuted }}
+          >
+            <Loader2 size={12} />
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <ul
+          style={{
+            listStyle: 'none',
+            margin: 0,
+            padding: '0 0 4px',
+            maxHeight: '160px',
+            overflowY: 'auto',
+          }}
+        >
+          {diagnostics.map((diagnostic, index) => (
+            <li key={`${diagnostic.rule}-${diagnostic.line}-${diagnostic.column}-${index}`}>
+              <button
+                onClick={() => onSelect(diagnostic)}
+                title={`${diagnostic.message} (${diagnostic.rule})`}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  width: '100%',
+                  padding: '3px 8px 3px 28px',
+                  background: 'none',
+                  border: 'none',
+                  cursor: 'pointer',
+                  color: theme.colors.text,
+                  fontSize: '12px',
+                  fontFamily: theme.fonts.body,
+                  textAlign: 'left',
+                }}
+              >
+                {diagnostic.severity === 'error' ? (
+                  <AlertCircle size={12} color={theme.colors.error} style={{ flexShrink: 0 }} />
+                ) : (
+                  <AlertTriangle size={12} color={theme.colors.warning} style={{ flexShrink: 0 }} />
+                )}
+                <span
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {diagnostic.message}
+                </span>
+                <span style={{ flexShrink: 0, color: theme.colors.textMuted }}>
+                  Ln {diagnostic.line}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { ChevronDown, ChevronRight, FileText, Folder } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { DocsTreeNode } from '../utils/docsTree';
+
+export interface DocsTreeProps {
+  nodes: DocsTreeNode[];
+  /** Paths of directories that are collapsed */
+  collapsedPaths: Set<string>;
+  /** Path of the document currently open */
+  activePath: string | null;
+  onToggleDirectory: (path: string) => void;
+  onOpen: (path: string) => void;
+  theme: Theme;
+  /** Nesting depth of `nodes` */
+  depth?: number;
+}
+
+/**
+ * DocsTree - Collapsible tree of documents, showing each document's title
+ * with its file name and modification date
+ */
+export const DocsTree: React.FC<DocsTreeProps> = ({
+  nodes,
+  collapsedPaths,
+  activePath,
+  onToggleDirectory,
+  onOpen,
+  theme,
+  depth = 0,
+}) => {
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    width: '100%',
+    padding: `4px 12px 4px ${12 + depth * 14}px`,
+    border: 'none',
+    cursor: 'pointer',
+    textAlign: 'left',
+    fontSize: '13px',
+    fontFamily: theme.fonts.body,
+  };
+  const ellipsis: React.CSSProperties = {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  };
+
+  return (
+    <>
+      {nodes.map((node) => {
+        if (node.type === 'directory') {
+          const isCollapsed = collapsedPaths.has(node.path);
+          return (
+            <React.Fragment key={node.path}>
+              <button
+                onClick={() => onToggleDirectory(node.path)}
+                aria-expanded={!isCollapsed}
+                title={node.path}
+                style={{
+                  ...rowStyle,
+                  background: 'none',
+                  color: theme.colors.textSecondary,
+                }}
+              >
+                {isCollapsed ? (
+                  <ChevronRight size={14} style={{ flexShrink: 0 }} />
+                ) : (
+                  <ChevronDown size={14} style={{ flexShrink: 0 }} />
+                )}
+                <Folder size={14} style={{ flexShrink: 0 }} />
+                <span style={ellipsis}>{node.name}</span>
+              </button>
+              {!isCollapsed && node.children && (
+                <DocsTree
+                  nodes={node.children}
+                  collapsedPaths={collapsedPaths}
+                  activePath={activePath}
+                  onToggleDirectory={onToggleDirectory}
+                  onOpen={onOpen}
+                  theme={theme}
+                  depth={depth + 1}
+                />
+              )}
+            </React.Fragment>
+          );
+        }
+
+        const isActive = node.path === activePath;
+        return (
+          <button
+            key={node.path}
+            onClick={() => onOpen(node.path)}
+            aria-current={isActive ? 'page' : undefined}
+            title={node.path}
+            style={{
+              ...rowStyle,
+              // Line up with directory names, past the chevron
+              paddingLeft: `${32 + depth * 14}px`,
+              background: isActive ? theme.colors.backgroundHover : 'none',
+              borderLeft: `2px solid ${isActive ? theme.colors.primary : 'transparent'}`,
+              color: isActive ? theme.colors.primary : theme.colors.text,
+            }}
+          >
+            <FileText size={14} style={{ flexShrink: 0 }} />
+            <span style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+              <span style={ellipsis}>{node.title || node.name}</span>
+              {node.title && (
+                <span style={{ ...ellipsis, fontSize: '11px', color: theme.colors.textMuted }}>
+                  {node.name}
+                </span>
+              )}
+            </span>
+            {node.lastModified > 0 && (
+              <span style={{ flexShrink: 0, fontSize: '11px', color: theme.colors.textMuted }}>
+                {new Date(node.lastModified).toLocaleDateString()}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </>
+  );
+};
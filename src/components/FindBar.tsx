@@ -0,0 +1,180 @@
+import React, { useEffect, useRef } from 'react';
+import { ArrowUp, ArrowDown, CaseSensitive, WholeWord, Regex, X } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { FindOptions } from '../utils/findInDocument';
+
+export interface FindBarProps {
+  query: string;
+  options: FindOptions;
+  matchCount: number;
+  /** Index of the current match, or -1 when there are none */
+  currentIndex: number;
+  /** Error message to show instead of the match count */
+  error: string | null;
+  onQueryChange: (query: string) => void;
+  onOptionsChange: (options: FindOptions) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+  theme: Theme;
+}
+
+/**
+ * FindBar - Themed find-in-document input with match navigation and
+ * case-sensitive, whole-word and regex toggles
+ */
+export const FindBar: React.FC<FindBarProps> = ({
+  query,
+  options,
+  matchCount,
+  currentIndex,
+  error,
+  onQueryChange,
+  onOptionsChange,
+  onNext,
+  onPrevious,
+  onClose,
+  theme,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Focus and select the query whenever the bar is shown
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  const toggleStyle = (active: boolean): React.CSSProperties => ({
+    background: active ? theme.colors.backgroundHover : 'none',
+    border: `1px solid ${active ? theme.colors.primary : 'transparent'}`,
+    padding: '2px 4px',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    color: active ? theme.colors.primary : theme.colors.textSecondary,
+    borderRadius: '4px',
+  });
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    padding: '2px 4px',
+    cursor: matchCount > 0 ? 'pointer' : 'default',
+    display: 'flex',
+    alignItems: 'center',
+    color: theme.colors.textSecondary,
+    opacity: matchCount > 0 ? 1 : 0.4,
+  };
+
+  let status = 'No results';
+  if (error) {
+    status = 'Invalid pattern';
+  } else if (!query) {
+    status = '';
+  } else if (matchCount > 0) {
+    status = `${currentIndex + 1} of ${matchCount}`;
+  }
+
+  return (
+    <div
+      role="search"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        padding: '4px 6px',
+        backgroundColor: theme.colors.backgroundLight,
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: '6px',
+        boxShadow: theme.shadows[2],
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <input
+        ref={inputRef}
+        value={query}
+        onChange={(event) => onQueryChange(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find"
+        aria-label="Find in document"
+        title={error || undefined}
+        style={{
+          width: '180px',
+          padding: '4px 6px',
+          fontSize: '13px',
+          fontFamily: theme.fonts.body,
+          color: theme.colors.text,
+          backgroundColor: theme.colors.background,
+          border: `1px solid ${error ? theme.colors.error : theme.colors.border}`,
+          borderRadius: '4px',
+          outline: 'none',
+        }}
+      />
+
+      <button
+        onClick={() => onOptionsChange({ ...options, caseSensitive: !options.caseSensitive })}
+        title="Match Case"
+        aria-pressed={!!options.caseSensitive}
+        style={toggleStyle(!!options.caseSensitive)}
+      >
+        <CaseSensitive size={14} />
+      </button>
+      <button
+        onClick={() => onOptionsChange({ ...options, wholeWord: !options.wholeWord })}
+        title="Match Whole Word"
+        aria-pressed={!!options.wholeWord}
+        style={toggleStyle(!!options.wholeWord)}
+      >
+        <WholeWord size={14} />
+      </button>
+      <button
+        onClick={() => onOptionsChange({ ...options, regex: !options.regex })}
+        title="Use Regular Expression"
+        aria-pressed={!!options.regex}
+        style={toggleStyle(!!options.regex)}
+      >
+        <Regex size={14} />
+      </button>
+
+      <span
+        style={{
+          minWidth: '72px',
+          fontSize: '12px',
+          textAlign: 'center',
+          color: error ? theme.colors.error : theme.colors.textSecondary,
+          userSelect: 'none',
+        }}
+      >
+        {status}
+      </span>
+
+      <button onClick={onPrevious} title="Previous Match (Shift+Enter)" style={buttonStyle}>
+        <ArrowUp size={14} />
+      </button>
+      <button onClick={onNext} title="Next Match (Enter)" style={buttonStyle}>
+        <ArrowDown size={14} />
+      </button>
+      <button
+        onClick={onClose}
+        title="Close (Escape)"
+        style={{ ...buttonStyle, cursor: 'pointer', opacity: 1 }}
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
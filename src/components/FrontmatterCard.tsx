@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import { getFrontmatterTitle } from '../utils/frontmatter';
+import type { MarkdownFrontmatter } from '../utils/frontmatter';
+
+export interface FrontmatterCardProps {
+  frontmatter: MarkdownFrontmatter;
+  theme: Theme;
+}
+
+const STATUS_KEYS = new Set(['status', 'state', 'stage']);
+const POSITIVE_STATUSES = /^(done|complete(d)?|approved|accepted|published|stable|active|final)$/i;
+const PENDING_STATUSES =
+  /^(draft|wip|in[-_ ]?progress|review|in[-_ ]?review|proposed|pending|rfc)$/i;
+const NEGATIVE_STATUSES = /^(deprecated|rejected|archived|obsolete|superseded|abandoned|blocked)$/i;
+
+/**
+ * Theme color for a status value
+ */
+const getStatusColor = (status: string, theme: Theme): string => {
+  if (POSITIVE_STATUSES.test(status)) return theme.colors.success;
+  if (PENDING_STATUSES.test(status)) return theme.colors.warning;
+  if (NEGATIVE_STATUSES.test(status)) return theme.colors.error;
+  return theme.colors.primary;
+};
+
+/**
+ * Format a scalar frontmatter value for display
+ */
+const formatScalar = (value: unknown): string => {
+  if (value instanceof Date) {
+    // Dates without a time of day are parsed as midnight UTC
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : value.toLocaleString();
+  }
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * FrontmatterCard - Themed summary of a document's frontmatter shown above the
+ * rendered document. Lists become chips and status fields become colored badges.
+ */
+export const FrontmatterCard: React.FC<FrontmatterCardProps> = ({ frontmatter, theme }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(true);
+  const title = getFrontmatterTitle(frontmatter);
+  // The field the title came from is shown as the heading, not repeated in the list
+  const titleKey = typeof frontmatter.data?.title === 'string' ? 'title' : 'name';
+  const entries = Object.entries(frontmatter.data ?? {}).filter(
+    ([key]) => !title || key !== titleKey
+  );
+
+  const chipStyle = (color: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '1px 8px',
+    borderRadius: '10px',
+    border: `1px solid ${color}`,
+    color,
+    fontSize: '11px',
+    lineHeight: '18px',
+    whiteSpace: 'nowrap',
+  });
+
+  const renderValue = (key: string, value: unknown) => {
+    if (Array.isArray(value)) {
+      return (
+        <span style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+          {value.map((item, index) => (
+            <span key={index} style={chipStyle(theme.colors.textSecondary)}>
+              {formatScalar(item)}
+            </span>
+          ))}
+        </span>
+      );
+    }
+    if (STATUS_KEYS.has(key.toLowerCase()) && typeof value === 'string') {
+      return <span style={chipStyle(getStatusColor(value, theme))}>{value}</span>;
+    }
+    const isObject = typeof value === 'object' && value !== null && !(value instanceof Date);
+    return (
+      <span
+        style={{
+          fontFamily: isObject ? theme.fonts.monospace : undefined,
+          wordBreak: 'break-word',
+        }}
+      >
+        {formatScalar(value)}
+      </span>
+    );
+  };
+
+  return (
+    <section
+      aria-label="Document metadata"
+      style={{
+        flexShrink: 0,
+        maxHeight: '40%',
+        overflowY: 'auto',
+        margin: '12px 16px 0',
+        padding: '8px 12px',
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: '6px',
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+        fontSize: '12px',
+        color: theme.colors.text,
+      }}
+    >
+      <button
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        aria-expanded={isExpanded}
+        title={isExpanded ? 'Collapse Metadata' : 'Expand Metadata'}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          width: '100%',
+          padding: 0,
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          color: theme.colors.text,
+          fontFamily: theme.fonts.body,
+          textAlign: 'left',
+        }}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <span
+          style={{
+            fontSize: title ? '14px' : '12px',
+            fontWeight: theme.fontWeights.semibold,
+            color: title ? theme.colors.text : theme.colors.textSecondary,
+          }}
+        >
+          {title ?? 'Metadata'}
+        </span>
+        <span
+          style={{
+            fontSize: '10px',
+            color: theme.colors.textMuted,
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+          }}
+        >
+          {frontmatter.format}
+        </span>
+      </button>
+
+      {isExpanded && frontmatter.error && (
+        <div style={{ marginTop: '8px' }}>
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              color: theme.colors.error,
+            }}
+          >
+            <AlertTriangle size={14} />
+            <span>Couldn't parse frontmatter: {frontmatter.error}</span>
+          </div>
+          <pre
+            style={{
+              margin: '8px 0 0',
+              fontFamily: theme.fonts.monospace,
+              fontSize: '12px',
+              color: theme.colors.textSecondary,
+              whiteSpace: 'pre-wrap',
+            }}
+          >
+            {frontmatter.raw}
+          </pre>
+        </div>
+      )}
+
+      {isExpanded && entries.length > 0 && (
+        <dl
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'max-content 1fr',
+            gap: '6px 16px',
+            alignItems: 'baseline',
+            margin: '8px 0 0',
+          }}
+        >
+          {entries.map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt style={{ color: theme.colors.textSecondary }}>{key}</dt>
+              <dd style={{ margin: 0 }}>{renderValue(key, value)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </section>
+  );
+};
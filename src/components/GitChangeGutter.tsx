@@ -0,0 +1,59 @@
+import React from 'react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { SectionGutterBar } from '../hooks/useSectionGutter';
+
+export interface GitChangeGutterProps {
+  bars: SectionGutterBar[];
+  /** Called when a bar is clicked */
+  onSelect: (sectionId: string | null) => void;
+  theme: Theme;
+}
+
+const KIND_LABELS: Record<SectionGutterBar['kind'], string> = {
+  added: 'Added',
+  modified: 'Modified',
+  deleted: 'Lines removed',
+};
+
+/**
+ * GitChangeGutter - Bars in the document's left margin beside each section
+ * changed since HEAD, colored by the kind of change. Rendered inside the
+ * document's scroll container, so bars scroll with the text.
+ */
+export const GitChangeGutter: React.FC<GitChangeGutterProps> = ({ bars, onSelect, theme }) => {
+  const colors: Record<SectionGutterBar['kind'], string> = {
+    added: theme.colors.success,
+    modified: theme.colors.info,
+    deleted: theme.colors.error,
+  };
+
+  return (
+    <div style={{ position: 'absolute', top: 0, left: 0, width: 0, height: 0, zIndex: 2 }}>
+      {bars.map((bar) => (
+        <button
+          key={bar.sectionId ?? ''}
+          onClick={() => onSelect(bar.sectionId)}
+          title={`${KIND_LABELS[bar.kind]} since HEAD`}
+          aria-label={`${KIND_LABELS[bar.kind]} since HEAD`}
+          style={{
+            position: 'absolute',
+            top: bar.top,
+            left: '2px',
+            width: '3px',
+            height: bar.height,
+            padding: 0,
+            border: 'none',
+            borderRadius: '2px',
+            cursor: 'pointer',
+            opacity: 0.8,
+            // Sections with removed lines only are hatched, as nothing in them was added
+            background:
+              bar.kind === 'deleted'
+                ? `repeating-linear-gradient(to bottom, ${colors.deleted} 0 4px, transparent 4px 8px)`
+                : colors[bar.kind],
+          }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { FileDiff } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { GitChangeSelectionStatus } from '../types';
+
+export interface GitStatusBadgeProps {
+  /** Statuses of the open file (a partially staged file is staged and unstaged) */
+  statuses: GitChangeSelectionStatus[];
+  /** Called when "view diff" is clicked; the button is hidden without it */
+  onViewDiff?: () => void;
+  theme: Theme;
+}
+
+const STATUS_LABELS: Record<GitChangeSelectionStatus, string> = {
+  staged: 'Staged',
+  unstaged: 'Modified',
+  untracked: 'Untracked',
+};
+
+const STATUS_TITLES: Record<GitChangeSelectionStatus, string> = {
+  staged: 'Changes to this file are staged',
+  unstaged: 'This file has changes that are not staged',
+  untracked: 'This file is not tracked by git',
+};
+
+/**
+ * GitStatusBadge - The open file's git status in the panel toolbar, with a
+ * button to view its diff
+ */
+export const GitStatusBadge: React.FC<GitStatusBadgeProps> = ({ statuses, onViewDiff, theme }) => {
+  const colors: Record<GitChangeSelectionStatus, string> = {
+    staged: theme.colors.success,
+    unstaged: theme.colors.warning,
+    untracked: theme.colors.info,
+  };
+
+  return (
+    <>
+      {statuses.map((status) => (
+        <span
+          key={status}
+          title={STATUS_TITLES[status]}
+          style={{
+            padding: '2px 6px',
+            border: `1px solid ${colors[status]}`,
+            borderRadius: '10px',
+            color: colors[status],
+            fontSize: '11px',
+            fontFamily: theme.fonts.body,
+            lineHeight: 1.4,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {STATUS_LABELS[status]}
+        </span>
+      ))}
+      {onViewDiff && (
+        <button
+          onClick={onViewDiff}
+          title="View Diff"
+          style={{
+            background: 'none',
+            border: `1px solid ${theme.colors.border}`,
+            padding: '4px 6px',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            color: theme.colors.textSecondary,
+            borderRadius: '4px',
+            transition: 'all 0.2s',
+          }}
+        >
+          <FileDiff size={14} />
+        </button>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { DocumentHighlight } from '../utils/documentHighlights';
+
+export interface HighlightCalloutProps {
+  highlight: DocumentHighlight;
+  /** Box of the hovered highlighted line, in viewport coordinates */
+  rect: DOMRect;
+  /** Color of the highlight's source */
+  color: string;
+  theme: Theme;
+}
+
+const CALLOUT_WIDTH = 320;
+const CALLOUT_GAP = 8;
+
+/**
+ * HighlightCallout - Shows who added a hovered highlight and its note, above
+ * the highlighted line (or below it near the top of the screen)
+ */
+export const HighlightCallout: React.FC<HighlightCalloutProps> = ({
+  highlight,
+  rect,
+  color,
+  theme,
+}) => {
+  const placeBelow = rect.top < 120;
+  const left = Math.max(
+    CALLOUT_GAP,
+    Math.min(rect.left, window.innerWidth - CALLOUT_WIDTH - CALLOUT_GAP)
+  );
+
+  return (
+    <div
+      role="tooltip"
+      style={{
+        position: 'fixed',
+        left,
+        top: placeBelow ? rect.bottom + CALLOUT_GAP : rect.top - CALLOUT_GAP,
+        transform: placeBelow ? undefined : 'translateY(-100%)',
+        maxWidth: CALLOUT_WIDTH,
+        padding: '8px 10px',
+        backgroundColor: theme.colors.backgroundLight,
+        border: `1px solid ${theme.colors.border}`,
+        borderLeft: `3px solid ${color}`,
+        borderRadius: '6px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2)',
+        fontFamily: theme.fonts.body,
+        fontSize: '13px',
+        color: theme.colors.text,
+        // The callout mustn't take the pointer from the text it describes
+        pointerEvents: 'none',
+        zIndex: 20,
+      }}
+    >
+      <div
+        style={{
+          fontSize: '11px',
+          fontWeight: 600,
+          textTransform: 'uppercase',
+          letterSpacing: '0.5px',
+          color,
+        }}
+      >
+        {highlight.source}
+      </div>
+      {highlight.note && (
+        <div style={{ marginTop: '4px', lineHeight: 1.4, whiteSpace: 'pre-wrap' }}>
+          {highlight.note}
+        </div>
+      )}
+    </div>
+  );
+};
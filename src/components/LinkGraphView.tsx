@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { GraphLayout } from '../utils/graphLayout';
+
+/**
+ * A document in the graph, or the missing target of dangling links
+ */
+export interface LinkGraphNode {
+  id: string;
+  label: string;
+  /** No other document links to it */
+  orphan: boolean;
+  /** Linked to, but not in the repository */
+  missing: boolean;
+}
+
+export interface LinkGraphEdge {
+  source: string;
+  target: string;
+  /** The target doesn't exist */
+  dangling: boolean;
+}
+
+export interface LinkGraphViewProps {
+  nodes: LinkGraphNode[];
+  edges: LinkGraphEdge[];
+  layout: GraphLayout;
+  /** Path of the document currently open */
+  activePath: string | null;
+  onOpen: (path: string) => void;
+  theme: Theme;
+}
+
+const NODE_RADIUS = 7;
+const MAX_LABEL_LENGTH = 28;
+
+const truncate = (text: string) =>
+  text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+
+/**
+ * LinkGraphView - SVG drawing of documents as nodes and links as arrows.
+ * Orphans are ringed with the warning color; dangling links and their
+ * missing targets are drawn dashed in the error color. Hovering a node
+ * emphasizes its links.
+ */
+export const LinkGraphView: React.FC<LinkGraphViewProps> = ({
+  nodes,
+  edges,
+  layout,
+  activePath,
+  onOpen,
+  theme,
+}) => {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const markerId = 'docs-graph-arrow';
+
+  return (
+    <svg
+      width={layout.width}
+      height={layout.height}
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      style={{ display: 'block', fontFamily: theme.fonts.body }}
+    >
+      <defs>
+        {(['default', 'active', 'dangling'] as const).map((kind) => (
+          <marker
+            key={kind}
+            id={`${markerId}-${kind}`}
+            viewBox="0 0 10 10"
+            refX="10"
+            refY="5"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto-start-reverse"
+          >
+            <path
+              d="M 0 0 L 10 5 L 0 10 z"
+              fill={
+                kind === 'dangling'
+                  ? theme.colors.error
+                  : kind === 'active'
+                    ? theme.colors.primary
+                    : theme.colors.border
+              }
+            />
+          </marker>
+        ))}
+      </defs>
+
+      {edges.map((edge) => {
+        const from = layout.positions.get(edge.source);
+        const to = layout.positions.get(edge.target);
+        if (!from || !to) return null;
+        const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+        // Stop short of the target so the arrowhead isn't hidden under it
+        const endX = to.x - ((to.x - from.x) / length) * (NODE_RADIUS + 2);
+        const endY = to.y - ((to.y - from.y) / length) * (NODE_RADIUS + 2);
+        const isActive = hoveredId === edge.source || hoveredId === edge.target;
+        const kind = edge.dangling ? 'dangling' : isActive ? 'active' : 'default';
+        return (
+          <line
+            key={`${edge.source}->${edge.target}`}
+            x1={from.x}
+            y1={from.y}
+            x2={endX}
+            y2={endY}
+            stroke={
+              edge.dangling
+                ? theme.colors.error
+                : isActive
+                  ? theme.colors.primary
+                  : theme.colors.border
+            }
+            strokeWidth={isActive ? 2 : 1}
+            strokeDasharray={edge.dangling ? '4 3' : undefined}
+            markerEnd={`url(#${markerId}-${kind})`}
+          />
+        );
+      })}
+
+      {nodes.map((node) => {
+        const position = layout.positions.get(node.id);
+        if (!position) return null;
+        const isActive = node.id === activePath;
+        const isHovered = node.id === hoveredId;
+        const stroke = node.missing
+          ? theme.colors.error
+          : node.orphan
+            ? theme.colors.warning
+            : isActive
+              ? theme.colors.primary
+              : theme.colors.textSecondary;
+        const description = node.missing
+          ? `${node.id} (missing - linked to but not found)`
+          : node.orphan
+            ? `${node.id} (orphan - no other document links here)`
+            : node.id;
+
+        return (
+          <g
+            key={node.id}
+            transform={`translate(${position.x}, ${position.y})`}
+            onMouseEnter={() => setHoveredId(node.id)}
+            onMouseLeave={() => setHoveredId(null)}
+            onClick={node.missing ? undefined : () => onOpen(node.id)}
+            style={{ cursor: node.missing ? 'default' : 'pointer' }}
+          >
+            <title>{description}</title>
+            <circle
+              r={isActive ? NODE_RADIUS + 2 : NODE_RADIUS}
+              fill={
+                node.missing
+                  ? theme.colors.background
+                  : isActive
+                    ? theme.colors.primary
+                    : theme.colors.backgroundSecondary
+              }
+              stroke={stroke}
+              strokeWidth={node.orphan || node.missing || isHovered ? 2 : 1.5}
+              strokeDasharray={node.missing ? '3 2' : undefined}
+            />
+            <text
+              y={NODE_RADIUS + 14}
+              textAnchor="middle"
+              fontSize="11"
+              fill={node.missing ? theme.colors.error : theme.colors.text}
+              fontWeight={isActive || isHovered ? 600 : 400}
+              style={{ pointerEvents: 'none', userSelect: 'none' }}
+            >
+              {truncate(node.label)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { Pin, PinOff, X } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { MarkdownTab } from '../hooks/useMarkdownTabs';
+
+export interface MarkdownTabBarProps {
+  tabs: MarkdownTab[];
+  activeId: string | null;
+  /** IDs of tabs with unsaved edits */
+  dirtyIds: Set<string>;
+  /** IDs of tabs whose file changed on disk since they were last shown */
+  changedIds: Set<string>;
+  onActivate: (id: string) => void;
+  onClose: (id: string) => void;
+  onTogglePin: (id: string) => void;
+  /** Called when a tab is dragged (or moved with Alt+Arrow) to a new index */
+  onMove: (id: string, toIndex: number) => void;
+  theme: Theme;
+}
+
+/**
+ * File name shown on a tab
+ */
+const getTabLabel = (path: string): string => path.split('/').pop() || path;
+
+/**
+ * MarkdownTabBar - Tab strip for MarkdownTabsPanel with pinning, drag to
+ * reorder, and unsaved/changed indicators.
+ *
+ * Arrow keys switch tabs, Alt+Arrow moves the focused tab and middle-click closes one.
+ */
+export const MarkdownTabBar: React.FC<MarkdownTabBarProps> = ({
+  tabs,
+  activeId,
+  dirtyIds,
+  changedIds,
+  onActivate,
+  onClose,
+  onTogglePin,
+  onMove,
+  theme,
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const tab = tabs[index];
+    const step = event.key === 'ArrowLeft' ? -1 : event.key === 'ArrowRight' ? 1 : 0;
+    if (step !== 0) {
+      event.preventDefault();
+      if (event.altKey) {
+        onMove(tab.id, index + step);
+        return;
+      }
+      const next = tabs[(index + step + tabs.length) % tabs.length];
+      onActivate(next.id);
+      const strip = event.currentTarget.parentElement;
+      strip?.querySelector<HTMLElement>(`[data-tab-id="${CSS.escape(next.id)}"]`)?.focus();
+    } else if (event.key === 'Delete' && !tab.pinned) {
+      event.preventDefault();
+      onClose(tab.id);
+    }
+  };
+
+  const iconButtonStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: '2px',
+    background: 'none',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    color: theme.colors.textSecondary,
+  };
+
+  return (
+    <div
+      role="tablist"
+      aria-label="Open documents"
+      style={{
+        display: 'flex',
+        flexShrink: 0,
+        overflowX: 'auto',
+        borderBottom: `1px solid ${theme.colors.border}`,
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+        fontSize: '12px',
+      }}
+      onDragLeave={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+          setDropIndex(null);
+        }
+      }}
+    >
+      {tabs.map((tab, index) => {
+        const isActive = tab.id === activeId;
+        const isDirty = dirtyIds.has(tab.id);
+        const isChanged = changedIds.has(tab.id);
+        const status = isDirty ? 'unsaved changes' : isChanged ? 'changed on disk' : null;
+
+        return (
+          <div
+            key={tab.id}
+            role="tab"
+            data-tab-id={tab.id}
+            aria-selected={isActive}
+            tabIndex={isActive ? 0 : -1}
+            title={status ? `${tab.path} (${status})` : tab.path}
+            draggable
+            onClick={() => onActivate(tab.id)}
+            onAuxClick={(event) => {
+              if (event.button === 1 && !tab.pinned) {
+                event.preventDefault();
+                onClose(tab.id);
+              }
+            }}
+            onKeyDown={(event) => handleKeyDown(event, index)}
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move';
+              event.dataTransfer.setData('text/plain', tab.path);
+              setDraggedId(tab.id);
+            }}
+            onDragOver={(event) => {
+              if (!draggedId) return;
+              event.preventDefault();
+              const rect = event.currentTarget.getBoundingClientRect();
+              setDropIndex(event.clientX < rect.left + rect.width / 2 ? index : index + 1);
+            }}
+            onDrop={(event) => {
+              event.preventDefault();
+              if (draggedId && dropIndex !== null) {
+                const from = tabs.findIndex((t) => t.id === draggedId);
+                // Indices after the dragged tab shift down once it is taken out
+                onMove(draggedId, dropIndex > from ? dropIndex - 1 : dropIndex);
+              }
+              setDraggedId(null);
+              setDropIndex(null);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropIndex(null);
+            }}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              flexShrink: 0,
+              maxWidth: '220px',
+              padding: '6px 8px 6px 12px',
+              borderRight: `1px solid ${theme.colors.border}`,
+              borderTop: `2px solid ${isActive ? theme.colors.primary : 'transparent'}`,
+              boxShadow:
+                dropIndex === index
+                  ? `inset 2px 0 0 ${theme.colors.primary}`
+                  : dropIndex === index + 1 && index === tabs.length - 1
+                    ? `inset -2px 0 0 ${theme.colors.primary}`
+                    : undefined,
+              backgroundColor: isActive ? theme.colors.background : 'transparent',
+              color: isActive ? theme.colors.text : theme.colors.textSecondary,
+              opacity: draggedId === tab.id ? 0.5 : 1,
+              cursor: 'pointer',
+              userSelect: 'none',
+            }}
+          >
+            {tab.pinned && <Pin size={12} style={{ flexShrink: 0 }} />}
+            <span
+              style={{
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+                fontStyle: isChanged ? 'italic' : undefined,
+              }}
+            >
+              {getTabLabel(tab.path)}
+            </span>
+            {(isDirty || isChanged) && (
+              <span
+                aria-label={status ?? undefined}
+                style={{
+                  width: '8px',
+                  height: '8px',
+                  flexShrink: 0,
+                  borderRadius: '50%',
+                  backgroundColor: isDirty ? theme.colors.warning : theme.colors.primary,
+                }}
+              />
+            )}
+            <button
+              onClick={(event) => {
+                event.stopPropagation();
+                onTogglePin(tab.id);
+              }}
+              title={tab.pinned ? 'Unpin Tab' : 'Pin Tab'}
+              aria-label={tab.pinned ? 'Unpin tab' : 'Pin tab'}
+              tabIndex={-1}
+              style={iconButtonStyle}
+            >
+              {tab.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+            </button>
+            {!tab.pinned && (
+              <button
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onClose(tab.id);
+                }}
+                title="Close Tab"
+                aria-label="Close tab"
+                tabIndex={-1}
+                style={iconButtonStyle}
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { MarkdownHeading } from '../utils/markdownHeadings';
+
+export interface OutlineSidebarProps {
+  /** Headings of the current document */
+  headings: MarkdownHeading[];
+  /** Slug of the section currently in view */
+  activeSlug: string | null;
+  /** Called when a heading is clicked */
+  onSelect: (heading: MarkdownHeading) => void;
+  /** Called when the close button is clicked */
+  onClose: () => void;
+  theme: Theme;
+}
+
+/**
+ * OutlineSidebar - Table of contents for the current document that highlights
+ * the section in view
+ */
+export const OutlineSidebar: React.FC<OutlineSidebarProps> = ({
+  headings,
+  activeSlug,
+  onSelect,
+  onClose,
+  theme,
+}) => {
+  const activeItemRef = useRef<HTMLButtonElement>(null);
+  const minLevel = headings.reduce((min, heading) => Math.min(min, heading.level), 6);
+
+  // Keep the active entry visible as the document scrolls
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeSlug]);
+
+  return (
+    <nav
+      aria-label="Document outline"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: '240px',
+        flexShrink: 0,
+        height: '100%',
+        borderRight: `1px solid ${theme.colors.border}`,
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 12px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+        }}
+      >
+        <span
+          style={{
+            fontSize: '12px',
+            fontWeight: theme.fontWeights.semibold,
+            color: theme.colors.textSecondary,
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+          }}
+        >
+          Outline
+        </span>
+        <button
+          onClick={onClose}
+          title="Hide Outline"
+          style={{
+            background: 'none',
+            border: 'none',
+            padding: '2px',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            color: theme.colors.textSecondary,
+          }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '6px 0' }}>
+        {headings.length === 0 ? (
+          <p
+            style={{
+              margin: 0,
+              padding: '8px 12px',
+              fontSize: '12px',
+              color: theme.colors.textMuted,
+            }}
+          >
+            No headings in this document
+          </p>
+        ) : (
+          headings.map((heading) => {
+            const isActive = heading.slug === activeSlug;
+            return (
+              <button
+                key={`${heading.line}-${heading.slug}`}
+                ref={isActive ? activeItemRef : undefined}
+                onClick={() => onSelect(heading)}
+                title={heading.text}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  padding: `4px 12px 4px ${12 + (heading.level - minLevel) * 12}px`,
+                  background: isActive ? theme.colors.backgroundHover : 'none',
+                  border: 'none',
+                  borderLeft: `2px solid ${isActive ? theme.colors.primary : 'transparent'}`,
+                  cursor: 'pointer',
+                  textAlign: 'left',
+                  fontSize: '13px',
+                  fontFamily: theme.fonts.body,
+                  fontWeight:
+                    heading.level === minLevel
+                      ? theme.fontWeights.semibold
+                      : theme.fontWeights.body,
+                  color: isActive ? theme.colors.primary : theme.colors.text,
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                }}
+              >
+                {heading.text || '(untitled)'}
+              </button>
+            );
+          })
+        )}
+      </div>
+    </nav>
+  );
+};
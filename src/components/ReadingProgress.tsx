@@ -0,0 +1,78 @@
+import React from 'react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { DocumentStats } from '../utils/markdownStats';
+
+export interface ReadingProgressProps {
+  /** How far through the document the reader has scrolled (0-1) */
+  progress: number;
+  stats: DocumentStats;
+  theme: Theme;
+}
+
+const plural = (count: number, word: string) =>
+  `${count.toLocaleString()} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * ReadingProgress - Thin bar along the top of the document showing how far
+ * the reader has scrolled, with a small readout of the document's size in
+ * the bottom corner. Overlays the document without taking pointer events.
+ */
+export const ReadingProgress: React.FC<ReadingProgressProps> = ({ progress, stats, theme }) => {
+  const readout = [
+    plural(stats.wordCount, 'word'),
+    `${Math.max(stats.readingTimeMinutes, 1)} min read`,
+    plural(stats.sectionCount, 'section'),
+    stats.codeBlockCount > 0 && plural(stats.codeBlockCount, 'code block'),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <>
+      <div
+        role="progressbar"
+        aria-label="Reading progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress * 100)}
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          right: 0,
+          height: '3px',
+          pointerEvents: 'none',
+          zIndex: 5,
+        }}
+      >
+        <div
+          style={{
+            width: `${progress * 100}%`,
+            height: '100%',
+            backgroundColor: theme.colors.primary,
+            transition: 'width 0.1s',
+          }}
+        />
+      </div>
+      <div
+        style={{
+          position: 'absolute',
+          bottom: '8px',
+          left: '8px',
+          padding: '2px 8px',
+          backgroundColor: theme.colors.backgroundSecondary,
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: '4px',
+          color: theme.colors.textMuted,
+          fontSize: '11px',
+          fontFamily: theme.fonts.body,
+          opacity: 0.9,
+          pointerEvents: 'none',
+          zIndex: 5,
+        }}
+      >
+        {readout}
+      </div>
+    </>
+  );
+};
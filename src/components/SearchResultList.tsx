@@ -0,0 +1,139 @@
+import React from 'react';
+import { ChevronRight, FileText } from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { DocsSearchResult, SearchSnippet } from '../utils/searchIndex';
+
+export interface SearchResultListProps {
+  results: DocsSearchResult[];
+  /** Index of the result selected with the keyboard */
+  selectedIndex: number;
+  onOpen: (result: DocsSearchResult) => void;
+  theme: Theme;
+}
+
+/**
+ * Snippet text with its matched words marked
+ */
+const SnippetText: React.FC<{ snippet: SearchSnippet; theme: Theme }> = ({ snippet, theme }) => {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  snippet.highlights.forEach(([start, end]) => {
+    parts.push(snippet.text.slice(offset, start));
+    parts.push(
+      <mark
+        key={start}
+        style={{
+          backgroundColor: theme.colors.highlightBg || 'rgba(255, 193, 7, 0.25)',
+          color: 'inherit',
+          borderRadius: '2px',
+        }}
+      >
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  });
+  parts.push(snippet.text.slice(offset));
+  return <>{parts}</>;
+};
+
+/**
+ * SearchResultList - Ranked search results, each showing its document,
+ * the headings leading to the matching section, and a snippet of it
+ */
+export const SearchResultList: React.FC<SearchResultListProps> = ({
+  results,
+  selectedIndex,
+  onOpen,
+  theme,
+}) => {
+  const ellipsis: React.CSSProperties = {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  };
+
+  return (
+    <ul role="listbox" aria-label="Search results" style={{ margin: 0, padding: 0 }}>
+      {results.map((result, index) => {
+        const isSelected = index === selectedIndex;
+        return (
+          <li
+            key={`${result.path}:${result.line}`}
+            role="option"
+            aria-selected={isSelected}
+            style={{ listStyle: 'none' }}
+          >
+            <button
+              onClick={() => onOpen(result)}
+              title={`${result.path}:${result.line}`}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '2px',
+                width: '100%',
+                padding: '6px 12px',
+                border: 'none',
+                borderLeft: `2px solid ${isSelected ? theme.colors.primary : 'transparent'}`,
+                background: isSelected ? theme.colors.backgroundHover : 'none',
+                cursor: 'pointer',
+                textAlign: 'left',
+                fontFamily: theme.fonts.body,
+                color: theme.colors.text,
+              }}
+            >
+              <span
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  width: '100%',
+                  fontSize: '13px',
+                }}
+              >
+                <FileText size={14} style={{ flexShrink: 0 }} />
+                <span style={{ ...ellipsis, fontWeight: 600 }}>{result.title || result.path}</span>
+                {result.title && (
+                  <span style={{ ...ellipsis, fontSize: '11px', color: theme.colors.textMuted }}>
+                    {result.path}
+                  </span>
+                )}
+              </span>
+              {result.breadcrumb.length > 0 && (
+                <span
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '2px',
+                    width: '100%',
+                    fontSize: '11px',
+                    color: theme.colors.primary,
+                    ...ellipsis,
+                  }}
+                >
+                  {result.breadcrumb.map((heading, i) => (
+                    <React.Fragment key={i}>
+                      {i > 0 && <ChevronRight size={10} style={{ flexShrink: 0 }} />}
+                      <span style={ellipsis}>{heading}</span>
+                    </React.Fragment>
+                  ))}
+                </span>
+              )}
+              {result.snippet.text && (
+                <span
+                  style={{
+                    fontSize: '12px',
+                    lineHeight: 1.4,
+                    color: theme.colors.textSecondary,
+                  }}
+                >
+                  <SnippetText snippet={result.snippet} theme={theme} />
+                </span>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
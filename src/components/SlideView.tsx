@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Maximize2,
+  Minimize2,
+} from 'lucide-react';
+import type { Theme } from '@principal-ade/industry-theme';
+import { DocumentView } from 'themed-markdown';
+import type { RepositoryInfo } from '@principal-ade/markdown-utils';
+import type { MarkdownSlideRange } from '../utils/markdownSlides';
+
+export interface SlideViewProps {
+  /** Slides to present */
+  slides: MarkdownSlideRange[];
+  /** Index of the slide currently shown (controlled) */
+  currentSlide: number;
+  /** Called when the user navigates to another slide */
+  onSlideChange: (index: number) => void;
+  theme: Theme;
+  fontSizeScale: number;
+  repositoryInfo?: RepositoryInfo;
+  width?: number;
+  /** Whether task list checkboxes can be toggled */
+  editable?: boolean;
+  /** Forwarded to DocumentView for the current slide */
+  onCheckboxChange?: (slideIndex: number, lineNumber: number, checked: boolean) => void;
+  /** Forwarded to DocumentView for the current slide */
+  onLinkClick?: (href: string, event?: MouseEvent) => void;
+}
+
+/**
+ * SlideView - Presents markdown slides one at a time with navigation controls,
+ * a slide counter, keyboard navigation and a fullscreen toggle
+ */
+export const SlideView: React.FC<SlideViewProps> = ({
+  slides,
+  currentSlide,
+  onSlideChange,
+  theme,
+  fontSizeScale,
+  repositoryInfo,
+  width,
+  editable = false,
+  onCheckboxChange,
+  onLinkClick,
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
+
+  const totalSlides = slides.length;
+  const slide = slides[currentSlide];
+
+  const goTo = useCallback(
+    (index: number) => {
+      const clamped = Math.max(0, Math.min(index, totalSlides - 1));
+      if (clamped !== currentSlide) {
+        onSlideChange(clamped);
+      }
+    },
+    [totalSlides, currentSlide, onSlideChange]
+  );
+
+  // Track fullscreen state (the user can also leave fullscreen with Escape)
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement === rootRef.current);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch((err) => {
+        console.error('[SlideView] Failed to exit fullscreen:', err);
+      });
+    } else {
+      rootRef.current?.requestFullscreen().catch((err) => {
+        console.error('[SlideView] Failed to enter fullscreen:', err);
+      });
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) {
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'PageDown':
+        goTo(currentSlide + 1);
+        break;
+      case 'ArrowLeft':
+      case 'PageUp':
+        goTo(currentSlide - 1);
+        break;
+      case 'Home':
+        goTo(0);
+        break;
+      case 'End':
+        goTo(totalSlides - 1);
+        break;
+      case 'f':
+      case 'F':
+        if (event.metaKey || event.ctrlKey || event.altKey) return;
+        toggleFullscreen();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const buttonStyle = (disabled: boolean): React.CSSProperties => ({
+    background: 'none',
+    border: `1px solid ${theme.colors.border}`,
+    padding: '4px 6px',
+    cursor: disabled ? 'default' : 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    color: theme.colors.textSecondary,
+    borderRadius: '4px',
+    opacity: disabled ? 0.4 : 1,
+    transition: 'all 0.2s',
+  });
+
+  const isFirst = currentSlide <= 0;
+  const isLast = currentSlide >= totalSlides - 1;
+
+  return (
+    <div
+      ref={rootRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: '100%',
+        height: '100%',
+        backgroundColor: theme.colors.background,
+        outline: 'none',
+      }}
+    >
+      <div style={{ flex: 1, minHeight: 0 }}>
+        {slide && (
+          <DocumentView
+            key={currentSlide}
+            content={slide.content}
+            theme={theme}
+            fontSizeScale={fontSizeScale}
+            editable={editable}
+            onCheckboxChange={onCheckboxChange}
+            onLinkClick={onLinkClick}
+            slideIdPrefix={`markdown-panel-slide-${currentSlide}`}
+            maxWidth="100%"
+            repositoryInfo={repositoryInfo}
+            width={width}
+            autoFocusOnVisible={false}
+          />
+        )}
+      </div>
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '6px',
+          padding: '6px 8px',
+          borderTop: `1px solid ${theme.colors.border}`,
+          backgroundColor: theme.colors.backgroundLight,
+          fontFamily: theme.fonts.body,
+        }}
+      >
+        <button onClick={() => goTo(0)} disabled={isFirst} title="First Slide (Home)" style={buttonStyle(isFirst)}>
+          <ChevronsLeft size={14} />
+        </button>
+        <button
+          onClick={() => goTo(currentSlide - 1)}
+          disabled={isFirst}
+          title="Previous Slide (←)"
+          style={buttonStyle(isFirst)}
+        >
+          <ChevronLeft size={14} />
+        </button>
+
+        <span
+          style={{
+            fontSize: '12px',
+            color: theme.colors.textSecondary,
+            userSelect: 'none',
+            minWidth: '64px',
+            textAlign: 'center',
+          }}
+          title={slide?.title}
+        >
+          {totalSlides > 0 ? currentSlide + 1 : 0} / {totalSlides}
+        </span>
+
+        <button
+          onClick={() => goTo(currentSlide + 1)}
+          disabled={isLast}
+          title="Next Slide (→)"
+          style={buttonStyle(isLast)}
+        >
+          <ChevronRight size={14} />
+        </button>
+        <button
+          onClick={() => goTo(totalSlides - 1)}
+          disabled={isLast}
+          title="Last Slide (End)"
+          style={buttonStyle(isLast)}
+        >
+          <ChevronsRight size={14} />
+        </button>
+
+        <button
+          onClick={toggleFullscreen}
+          title={isFullscreen ? 'Exit Fullscreen (F)' : 'Fullscreen (F)'}
+          style={{ ...buttonStyle(false), marginLeft: '12px' }}
+        >
+          {isFullscreen ? <Minimize2 size={14} /> : <Maximize2 size={14} />}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { AlertTriangle, Pencil, Save } from 'lucide-react';
+import { DocumentView } from 'themed-markdown';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { RepositoryInfo } from '@principal-ade/markdown-utils';
+import { useMermaidDiagrams } from '../hooks/useMermaidDiagrams';
+import { prepareMath } from '../utils/markdownMath';
+import { stripFrontmatter } from '../utils/frontmatter';
+
+export interface SplitEditorProps {
+  /** Current source text */
+  value: string;
+  onChange: (value: string) => void;
+  /** Whether the source differs from the last saved content */
+  dirty: boolean;
+  saving: boolean;
+  saveError: string | null;
+  /** Whether the file changed on disk while there were unsaved edits */
+  hasConflict: boolean;
+  onSave: () => void;
+  /** Keep the local edits and overwrite the file on the next save */
+  onKeepLocal: () => void;
+  /** Discard the local edits and load the file from disk */
+  onUseExternal: () => void;
+  theme: Theme;
+  fontSizeScale: number;
+  repositoryInfo?: RepositoryInfo;
+  width?: number;
+}
+
+/**
+ * SplitEditor - Themed markdown source editor with a live DocumentView preview.
+ * The two panes scroll together proportionally.
+ */
+export const SplitEditor: React.FC<SplitEditorProps> = ({
+  value,
+  onChange,
+  dirty,
+  saving,
+  saveError,
+  hasConflict,
+  onSave,
+  onKeepLocal,
+  onUseExternal,
+  theme,
+  fontSizeScale,
+  repositoryInfo,
+  width,
+}) => {
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  // Which pane is driving the current scroll, so the synced pane doesn't echo it back
+  const scrollSourceRef = useRef<'editor' | 'preview' | null>(null);
+  const scrollResetFrameRef = useRef<number>(0);
+  const previewBody = useMemo(() => stripFrontmatter(value), [value]);
+  const diagramContent = useMermaidDiagrams(previewBody, theme);
+  const previewContent = useMemo(() => prepareMath(diagramContent), [diagramContent]);
+
+  const syncScroll = useCallback(
+    (from: HTMLElement, to: HTMLElement | null, source: 'editor' | 'preview') => {
+      if (!to || (scrollSourceRef.current && scrollSourceRef.current !== source)) return;
+      scrollSourceRef.current = source;
+      const ratio = from.scrollTop / Math.max(from.scrollHeight - from.clientHeight, 1);
+      to.scrollTop = ratio * (to.scrollHeight - to.clientHeight);
+      cancelAnimationFrame(scrollResetFrameRef.current);
+      scrollResetFrameRef.current = requestAnimationFrame(() => {
+        scrollSourceRef.current = null;
+      });
+    },
+    []
+  );
+
+  // DocumentView's outer element is its scroll container
+  const getPreviewScroller = useCallback(
+    () => (previewRef.current?.firstElementChild as HTMLElement | null) ?? null,
+    []
+  );
+
+  // Scroll events don't bubble, so listen to the preview in the capture phase
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!preview) return;
+    const handleScroll = (event: Event) => {
+      if (event.target === getPreviewScroller()) {
+        syncScroll(event.target as HTMLElement, editorRef.current, 'preview');
+      }
+    };
+    preview.addEventListener('scroll', handleScroll, true);
+    return () => {
+      preview.removeEventListener('scroll', handleScroll, true);
+      cancelAnimationFrame(scrollResetFrameRef.current);
+    };
+  }, [syncScroll, getPreviewScroller]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 's') {
+      event.preventDefault();
+      onSave();
+      return;
+    }
+
+    // Indent with spaces instead of moving focus
+    if (event.key === 'Tab' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      event.preventDefault();
+      const editor = event.currentTarget;
+      const { selectionStart, selectionEnd } = editor;
+      onChange(`${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`);
+      requestAnimationFrame(() => {
+        editor.selectionStart = editor.selectionEnd = selectionStart + 2;
+      });
+    }
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'none',
+    border: `1px solid ${theme.colors.border}`,
+    padding: '4px 8px',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    color: theme.colors.textSecondary,
+    borderRadius: '4px',
+    transition: 'all 0.2s',
+    fontSize: '12px',
+    fontFamily: theme.fonts.body,
+  };
+
+  let status = 'Saved';
+  if (saving) {
+    status = 'Saving...';
+  } else if (saveError) {
+    status = `Save failed: ${saveError}`;
+  } else if (dirty) {
+    status = 'Unsaved changes';
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '8px 12px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+          backgroundColor: theme.colors.backgroundSecondary,
+          fontFamily: theme.fonts.body,
+          fontSize: '12px',
+          color: theme.colors.textSecondary,
+          flexShrink: 0,
+        }}
+      >
+        <Pencil size={14} />
+        <span style={{ color: theme.colors.text }}>Editing</span>
+        <button
+          onClick={onSave}
+          disabled={saving || (!dirty && !hasConflict)}
+          title="Save (Ctrl+S)"
+          style={{
+            ...buttonStyle,
+            color: dirty ? theme.colors.primary : theme.colors.textSecondary,
+            opacity: saving || (!dirty && !hasConflict) ? 0.5 : 1,
+            cursor: saving || (!dirty && !hasConflict) ? 'default' : 'pointer',
+          }}
+        >
+          <Save size={14} />
+          Save
+        </button>
+        <span
+          style={{
+            color: saveError ? theme.colors.error : dirty ? theme.colors.warning : undefined,
+          }}
+        >
+          {status}
+        </span>
+      </div>
+
+      {hasConflict && (
+        <div
+          role="alert"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '8px 12px',
+            borderBottom: `1px solid ${theme.colors.border}`,
+            backgroundColor: theme.colors.backgroundTertiary,
+            color: theme.colors.warning,
+            fontFamily: theme.fonts.body,
+            fontSize: '12px',
+            flexShrink: 0,
+          }}
+        >
+          <AlertTriangle size={14} />
+          <span style={{ flex: 1, color: theme.colors.text }}>
+            This file changed on disk while you had unsaved edits.
+          </span>
+          <button onClick={onKeepLocal} style={buttonStyle}>
+            Keep My Edits
+          </button>
+          <button onClick={onUseExternal} style={buttonStyle}>
+            Load From Disk
+          </button>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flex: 1, minHeight: 0 }}>
+        <textarea
+          ref={editorRef}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={(event) => syncScroll(event.currentTarget, getPreviewScroller(), 'editor')}
+          spellCheck={false}
+          aria-label="Markdown source"
+          style={{
+            flex: 1,
+            minWidth: 0,
+            margin: 0,
+            padding: '16px',
+            border: 'none',
+            borderRight: `1px solid ${theme.colors.border}`,
+            outline: 'none',
+            resize: 'none',
+            backgroundColor: theme.colors.backgroundSecondary,
+            color: theme.colors.text,
+            caretColor: theme.colors.primary,
+            fontFamily: theme.fonts.monospace,
+            fontSize: `${13 * fontSizeScale}px`,
+            lineHeight: 1.6,
+            tabSize: 2,
+          }}
+        />
+        <div ref={previewRef} style={{ flex: 1, minWidth: 0 }}>
+          <DocumentView
+            content={previewContent}
+            theme={theme}
+            fontSizeScale={fontSizeScale}
+            slideIdPrefix="markdown-panel-preview"
+            maxWidth="100%"
+            repositoryInfo={repositoryInfo}
+            width={width ? width / 2 : undefined}
+            autoFocusOnVisible={false}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
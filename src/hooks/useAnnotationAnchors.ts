@@ -0,0 +1,127 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { RefObject } from 'react';
+import type { Annotation } from 'themed-markdown';
+import type { MarkdownAnnotation } from '../types';
+import { useDomVersion } from './useDomVersion';
+
+const INDICATOR_SELECTOR = '.industry-md-annotation-indicator[data-annotation-id]';
+
+export interface UseAnnotationAnchorsOptions {
+  /** Element wrapping the document view */
+  rootRef: RefObject<HTMLElement | null>;
+  /** Whether the document view is shown */
+  enabled: boolean;
+  /** Revision of the rendered markdown, so comments are located again when it changes */
+  revision: string;
+  annotations: MarkdownAnnotation[];
+  /** Comment drawn as selected */
+  activeId: string | null;
+}
+
+export interface UseAnnotationAnchorsResult {
+  /** Comments for the document view's annotations prop, with their comment as metadata */
+  viewAnnotations: Annotation<MarkdownAnnotation>[];
+  /** The document view's ID for the selected comment */
+  activeViewId: string | null;
+  /** Comment ID for a document view annotation ID */
+  getAnnotationId: (viewId: string) => string;
+  /**
+   * The comments last located in the document and the IDs of those found, or
+   * null until the document view has been checked
+   */
+  resolved: { annotations: MarkdownAnnotation[]; ids: Set<string> } | null;
+  /** Offsets (px) of the found comments from the top of the document, by comment ID */
+  positions: Map<string, number>;
+  /** Scroll a comment's text into view; false if its anchor isn't found */
+  scrollTo: (id: string) => boolean;
+}
+
+/**
+ * useAnnotationAnchors - Passes comments to the document view, which finds,
+ * highlights and marks their quotes, and reads back which ones it found.
+ * The document view only looks for annotations again when they change, so
+ * their IDs include the content revision.
+ */
+export const useAnnotationAnchors = ({
+  rootRef,
+  enabled,
+  revision,
+  annotations,
+  activeId,
+}: UseAnnotationAnchorsOptions): UseAnnotationAnchorsResult => {
+  const [resolved, setResolved] = useState<UseAnnotationAnchorsResult['resolved']>(null);
+  const [positions, setPositions] = useState<Map<string, number>>(() => new Map());
+  const active = enabled && annotations.length > 0;
+  // Bumped when the document view adds its markers or the rendered document changes
+  const domVersion = useDomVersion(rootRef, active);
+
+  const prefix = `${revision}:`;
+  const viewAnnotations = useMemo(
+    () =>
+      annotations.map((annotation) => ({
+        id: `${revision}:${annotation.id}`,
+        anchor: {
+          exact: annotation.anchor.exact,
+          prefix: annotation.anchor.prefix,
+          suffix: annotation.anchor.suffix,
+        },
+        metadata: annotation,
+      })),
+    [annotations, revision]
+  );
+  const getAnnotationId = useCallback(
+    (viewId: string) => (viewId.startsWith(prefix) ? viewId.slice(prefix.length) : viewId),
+    [prefix]
+  );
+
+  const getIndicators = useCallback(
+    (): HTMLElement[] =>
+      Array.from(rootRef.current?.querySelectorAll<HTMLElement>(INDICATOR_SELECTOR) ?? []),
+    [rootRef]
+  );
+
+  // Read back which comments the document view found, and where
+  useEffect(() => {
+    if (!enabled || !rootRef.current) return;
+    const nextPositions = new Map<string, number>();
+    for (const indicator of getIndicators()) {
+      const viewId = indicator.getAttribute('data-annotation-id') ?? '';
+      if (!viewId.startsWith(prefix)) continue;
+      nextPositions.set(viewId.slice(prefix.length), indicator.offsetTop);
+    }
+    setPositions((prev) =>
+      prev.size === nextPositions.size &&
+      [...nextPositions].every(([id, top]) => prev.get(id) === top)
+        ? prev
+        : nextPositions
+    );
+    setResolved((prev) =>
+      prev?.annotations === annotations &&
+      prev.ids.size === nextPositions.size &&
+      [...nextPositions.keys()].every((id) => prev.ids.has(id))
+        ? prev
+        : { annotations, ids: new Set(nextPositions.keys()) }
+    );
+  }, [enabled, annotations, prefix, domVersion, rootRef, getIndicators]);
+
+  const scrollTo = useCallback(
+    (id: string): boolean => {
+      const indicator = getIndicators().find(
+        (element) => element.getAttribute('data-annotation-id') === `${prefix}${id}`
+      );
+      if (!indicator) return false;
+      indicator.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      return true;
+    },
+    [getIndicators, prefix]
+  );
+
+  return {
+    viewAnnotations,
+    activeViewId: activeId ? `${prefix}${activeId}` : null,
+    getAnnotationId,
+    resolved,
+    positions,
+    scrollTo,
+  };
+};
@@ -0,0 +1,200 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { getBasePath, isExternalHref, resolveRelativePath } from '../utils/markdownLinks';
+
+export interface UseAssetResolverOptions {
+  /** Element containing the rendered document */
+  rootRef: RefObject<HTMLElement | null>;
+  /** Whether the document is rendered (the root element is mounted) */
+  enabled: boolean;
+  /** Path of the document, used to resolve relative asset paths */
+  filePath: string;
+  /** Absolute path of the repository, the root of asset paths starting with `/` */
+  repositoryPath?: string;
+  /** Resolve a repository path to a URL the browser can load */
+  resolveAssetUrl?: (path: string) => string | Promise<string>;
+  /** Read a repository file as binary data (served through a blob URL) */
+  readBinaryFile?: (path: string) => Promise<ArrayBuffer | Uint8Array | Blob>;
+}
+
+/**
+ * MIME types for assets commonly referenced from markdown. Blob URLs need an
+ * explicit type for SVGs (and some videos) to display.
+ */
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+};
+
+const ASSET_ATTRIBUTES = ['src', 'srcset'] as const;
+type AssetAttribute = (typeof ASSET_ATTRIBUTES)[number];
+
+const ASSET_SELECTOR = 'img[src], img[srcset], source[src], source[srcset], video[src]';
+
+const getMimeType = (path: string): string =>
+  MIME_TYPES[path.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+
+const isRelativeAssetUrl = (url: string) => !!url && !isExternalHref(url) && !url.startsWith('#');
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * useAssetResolver - Loads relative images and other media in the rendered
+ * document through the host's asset actions.
+ *
+ * DocumentView sanitizes URLs to http(s), so blob URLs can't be written into
+ * the markdown. Instead, relative `src`/`srcset` attributes are swapped on the
+ * rendered elements as soon as they are added, before the browser reports the
+ * relative URL as broken. Resolved URLs are cached per document, and blob URLs
+ * are revoked when the document changes or the panel unmounts.
+ */
+export const useAssetResolver = ({
+  rootRef,
+  enabled,
+  filePath,
+  repositoryPath,
+  resolveAssetUrl,
+  readBinaryFile,
+}: UseAssetResolverOptions): void => {
+  const hasResolver = !!(resolveAssetUrl || readBinaryFile);
+  const cacheRef = useRef<Map<string, Promise<string | null>>>(new Map());
+  const blobUrlsRef = useRef<Set<string>>(new Set());
+
+  // Keep the latest actions without re-subscribing the observer
+  const actionsRef = useRef({ resolveAssetUrl, readBinaryFile });
+  actionsRef.current = { resolveAssetUrl, readBinaryFile };
+
+  // Drop cached URLs when the document changes or the panel unmounts
+  useEffect(() => {
+    const cache = cacheRef.current;
+    const blobUrls = blobUrlsRef.current;
+    return () => {
+      blobUrls.forEach((url) => URL.revokeObjectURL(url));
+      blobUrls.clear();
+      cache.clear();
+    };
+  }, [filePath]);
+
+  // Layout effect so elements from the first render are handled before they error
+  useLayoutEffect(() => {
+    const root = rootRef.current;
+    if (!enabled || !hasResolver || !root || !filePath) return;
+
+    let disposed = false;
+    const basePath = getBasePath(filePath);
+
+    const resolve = (url: string): Promise<string | null> => {
+      const path = resolveRelativePath(basePath, safeDecode(url.split(/[?#]/)[0]), repositoryPath);
+      let cached = cacheRef.current.get(path);
+      if (!cached) {
+        cached = (async () => {
+          try {
+            const { resolveAssetUrl: resolveUrl, readBinaryFile: readBinary } = actionsRef.current;
+            if (resolveUrl) {
+              return await resolveUrl(path);
+            }
+            if (!readBinary) return null;
+
+            const data = await readBinary(path);
+            const blob =
+              data instanceof Blob && data.type
+                ? data
+                : new Blob([data as BlobPart], { type: getMimeType(path) });
+            const blobUrl = URL.createObjectURL(blob);
+            blobUrlsRef.current.add(blobUrl);
+            return blobUrl;
+          } catch (err) {
+            console.warn('[MarkdownPanel] Failed to load asset:', path, err);
+            return null;
+          }
+        })();
+        cacheRef.current.set(path, cached);
+      }
+      return cached;
+    };
+
+    const resolveSrcset = async (srcset: string): Promise<string> => {
+      const candidates = await Promise.all(
+        srcset.split(',').map(async (candidate) => {
+          const [url, ...descriptors] = candidate.trim().split(/\s+/);
+          const resolved = isRelativeAssetUrl(url) ? await resolve(url) : url;
+          return [resolved ?? url, ...descriptors].join(' ');
+        })
+      );
+      return candidates.join(', ');
+    };
+
+    // Values this hook set on each element, so its own updates aren't handled again
+    const applied = new WeakMap<Element, Partial<Record<AssetAttribute, string>>>();
+
+    const handleElement = (element: Element) => {
+      for (const name of ASSET_ATTRIBUTES) {
+        const value = element.getAttribute(name);
+        if (!value || value === applied.get(element)?.[name]) continue;
+
+        const isRelative =
+          name === 'src'
+            ? isRelativeAssetUrl(value)
+            : value.split(',').some((c) => isRelativeAssetUrl(c.trim().split(/\s+/)[0]));
+        if (!isRelative) continue;
+
+        // Stop the browser loading the relative URL while the asset resolves
+        element.removeAttribute(name);
+        const pending =
+          name === 'src' ? resolve(value).then((url) => url ?? value) : resolveSrcset(value);
+        pending.then((resolved) => {
+          if (disposed) return;
+          applied.set(element, { ...applied.get(element), [name]: resolved });
+          element.setAttribute(name, resolved);
+        });
+      }
+    };
+
+    const scan = (node: ParentNode) => {
+      node.querySelectorAll(ASSET_SELECTOR).forEach(handleElement);
+    };
+
+    scan(root);
+    const observer = new MutationObserver((mutations) => {
+      for (const mutation of mutations) {
+        if (mutation.type === 'attributes') {
+          const element = mutation.target as Element;
+          if (element.matches(ASSET_SELECTOR)) handleElement(element);
+          continue;
+        }
+        mutation.addedNodes.forEach((node) => {
+          if (!(node instanceof Element)) return;
+          if (node.matches(ASSET_SELECTOR)) handleElement(node);
+          scan(node);
+        });
+      }
+    });
+    observer.observe(root, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: [...ASSET_ATTRIBUTES],
+    });
+
+    return () => {
+      disposed = true;
+      observer.disconnect();
+    };
+  }, [enabled, hasResolver, rootRef, filePath, repositoryPath]);
+};
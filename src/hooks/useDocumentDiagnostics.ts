@@ -0,0 +1,113 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { MarkdownHeading } from '../utils/markdownHeadings';
+import { checkRelativeLinks, lintMarkdown, sortDiagnostics } from '../utils/markdownDiagnostics';
+import type { MarkdownDiagnostic } from '../utils/markdownDiagnostics';
+
+export interface UseDocumentDiagnosticsOptions {
+  /** Markdown being shown (frontmatter blanked out, so line numbers match the source) */
+  markdown: string;
+  /** Headings extracted from the markdown */
+  headings: MarkdownHeading[];
+  /** Path of the document, used to resolve relative links; empty when no file is open */
+  filePath: string;
+  /** Absolute path of the repository, the root of links starting with `/` */
+  repositoryPath?: string;
+  /** Read a repository file, used to check that linked files exist */
+  readFile: (path: string) => Promise<string>;
+}
+
+export interface UseDocumentDiagnosticsResult {
+  /** Problems found so far, in document order */
+  diagnostics: MarkdownDiagnostic[];
+  /** Whether links to other files are still being checked */
+  checking: boolean;
+  /** All problems in the current document, once links to other files are checked */
+  getDiagnostics: () => Promise<MarkdownDiagnostic[]>;
+}
+
+/** Wait for edits to settle before reading linked files */
+const LINK_CHECK_DELAY = 500;
+
+/**
+ * useDocumentDiagnostics - Checks the shown document for problems. Checks on
+ * the document itself run on every change; links to other files are checked
+ * through readFile once edits settle.
+ */
+export const useDocumentDiagnostics = ({
+  markdown,
+  headings,
+  filePath,
+  repositoryPath,
+  readFile,
+}: UseDocumentDiagnosticsOptions): UseDocumentDiagnosticsResult => {
+  const documentDiagnostics = useMemo(
+    () => (filePath ? lintMarkdown(markdown, headings) : []),
+    [filePath, markdown, headings]
+  );
+  const [linkCheck, setLinkCheck] = useState<{
+    filePath: string;
+    markdown: string;
+    diagnostics: MarkdownDiagnostic[];
+  } | null>(null);
+  // Resolves with all problems once the current check finishes, or null if it was superseded
+  const pendingRef = useRef<Promise<MarkdownDiagnostic[] | null>>(Promise.resolve([]));
+
+  // Keep the latest action without checking links again when the actions object changes
+  const readFileRef = useRef(readFile);
+  readFileRef.current = readFile;
+
+  useEffect(() => {
+    let settle: (diagnostics: MarkdownDiagnostic[] | null) => void = () => {};
+    const pending = new Promise<MarkdownDiagnostic[] | null>((resolve) => {
+      settle = resolve;
+    });
+    pendingRef.current = pending.then((links) =>
+      links ? sortDiagnostics([...documentDiagnostics, ...links]) : null
+    );
+    pending.then((links) => {
+      if (links) setLinkCheck({ filePath, markdown, diagnostics: links });
+    });
+
+    if (!filePath) {
+      settle([]);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      checkRelativeLinks(markdown, headings, filePath, readFileRef.current, repositoryPath).then(
+        settle,
+        (err) => {
+          console.warn('[MarkdownPanel] Failed to check links:', err);
+          settle([]);
+        }
+      );
+    }, LINK_CHECK_DELAY);
+    return () => {
+      clearTimeout(timeout);
+      settle(null);
+    };
+  }, [filePath, repositoryPath, markdown, headings, documentDiagnostics]);
+
+  const checking = !linkCheck || linkCheck.filePath !== filePath || linkCheck.markdown !== markdown;
+  // Keep showing the last link problems for this file while edits are checked again
+  const linkDiagnostics = linkCheck?.filePath === filePath ? linkCheck.diagnostics : null;
+
+  const diagnostics = useMemo(
+    () =>
+      linkDiagnostics?.length
+        ? sortDiagnostics([...documentDiagnostics, ...linkDiagnostics])
+        : documentDiagnostics,
+    [documentDiagnostics, linkDiagnostics]
+  );
+
+  const getDiagnostics = useCallback(async (): Promise<MarkdownDiagnostic[]> => {
+    // A check superseded by an edit resolves null; wait for the one that replaced it
+    for (;;) {
+      const pending = pendingRef.current;
+      const result = await pending;
+      if (result) return result;
+      if (pending === pendingRef.current) return [];
+    }
+  }, []);
+
+  return { diagnostics, checking, getDiagnostics };
+};
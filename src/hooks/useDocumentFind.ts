@@ -0,0 +1,158 @@
+import { useState, useEffect, useRef, useCallback, useId } from 'react';
+import type { RefObject } from 'react';
+import type { Theme } from '@principal-ade/industry-theme';
+import { buildFindRegex, collectTextMatchRanges } from '../utils/findInDocument';
+import type { FindOptions } from '../utils/findInDocument';
+import { useDomVersion } from './useDomVersion';
+
+export interface UseDocumentFindOptions {
+  /** Element whose rendered text is searched */
+  rootRef: RefObject<HTMLElement | null>;
+  /** Whether find is active; highlights are cleared when false */
+  enabled: boolean;
+  query: string;
+  options: FindOptions;
+  theme: Theme;
+}
+
+export interface UseDocumentFindResult {
+  /** Number of matches in the rendered document */
+  matchCount: number;
+  /** Index of the current match, or -1 when there are none */
+  currentIndex: number;
+  /** Error message when the query is not a valid regular expression */
+  error: string | null;
+  next: () => void;
+  previous: () => void;
+}
+
+/**
+ * useDocumentFind - Highlights find matches in rendered markdown using the
+ * CSS Custom Highlight API, which leaves the React-managed DOM untouched
+ */
+export const useDocumentFind = ({
+  rootRef,
+  enabled,
+  query,
+  options,
+  theme,
+}: UseDocumentFindOptions): UseDocumentFindResult => {
+  const id = useId().replace(/[^a-zA-Z0-9_-]/g, '');
+  const highlightName = `markdown-panel-find-${id}`;
+  const currentHighlightName = `${highlightName}-current`;
+  const supportsHighlights = typeof CSS !== 'undefined' && 'highlights' in CSS;
+
+  const scrollPendingRef = useRef<boolean>(false);
+  const [ranges, setRanges] = useState<Range[]>([]);
+  const [currentIndex, setCurrentIndex] = useState<number>(-1);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped when the rendered document changes (slide changes, lazy diagrams, edits)
+  // so matches are recomputed
+  const domVersion = useDomVersion(rootRef, enabled);
+
+  const { caseSensitive, wholeWord, regex } = options;
+
+  // Themed highlight styles
+  useEffect(() => {
+    if (!enabled || !supportsHighlights) return;
+    const style = document.createElement('style');
+    style.textContent = `
+      ::highlight(${highlightName}) {
+        background-color: ${theme.colors.highlightBg || 'rgba(255, 193, 7, 0.25)'};
+      }
+      ::highlight(${currentHighlightName}) {
+        background-color: ${theme.colors.accent};
+        color: ${theme.colors.textOnAccent};
+      }
+    `;
+    document.head.appendChild(style);
+    return () => style.remove();
+  }, [enabled, supportsHighlights, highlightName, currentHighlightName, theme]);
+
+  // Start from the first match whenever the query changes
+  useEffect(() => {
+    setCurrentIndex(0);
+    scrollPendingRef.current = true;
+  }, [query, caseSensitive, wholeWord, regex]);
+
+  // Find matches and highlight them
+  useEffect(() => {
+    const root = rootRef.current;
+    const clear = () => {
+      setRanges([]);
+      if (supportsHighlights) {
+        CSS.highlights.delete(highlightName);
+        CSS.highlights.delete(currentHighlightName);
+      }
+    };
+
+    if (!enabled || !query || !root) {
+      setError(null);
+      clear();
+      return;
+    }
+
+    let found: Range[];
+    try {
+      found = collectTextMatchRanges(
+        root,
+        buildFindRegex(query, { caseSensitive, wholeWord, regex })
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      clear();
+      return;
+    }
+
+    setRanges(found);
+    setCurrentIndex((index) =>
+      found.length === 0 ? -1 : Math.min(Math.max(index, 0), found.length - 1)
+    );
+    if (supportsHighlights) {
+      CSS.highlights.set(highlightName, new Highlight(...found));
+    }
+    return clear;
+  }, [
+    enabled,
+    query,
+    caseSensitive,
+    wholeWord,
+    regex,
+    domVersion,
+    rootRef,
+    supportsHighlights,
+    highlightName,
+    currentHighlightName,
+  ]);
+
+  // Mark the current match and bring it into view
+  useEffect(() => {
+    const range = ranges[currentIndex];
+    if (!enabled || !range) return;
+
+    if (supportsHighlights) {
+      CSS.highlights.set(currentHighlightName, new Highlight(range));
+    }
+    if (scrollPendingRef.current) {
+      scrollPendingRef.current = false;
+      range.startContainer.parentElement?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [enabled, ranges, currentIndex, supportsHighlights, currentHighlightName]);
+
+  const matchCount = ranges.length;
+
+  const next = useCallback(() => {
+    if (matchCount === 0) return;
+    scrollPendingRef.current = true;
+    setCurrentIndex((index) => (index + 1) % matchCount);
+  }, [matchCount]);
+
+  const previous = useCallback(() => {
+    if (matchCount === 0) return;
+    scrollPendingRef.current = true;
+    setCurrentIndex((index) => (index - 1 + matchCount) % matchCount);
+  }, [matchCount]);
+
+  return { matchCount, currentIndex, error, next, previous };
+};
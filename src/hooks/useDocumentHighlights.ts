@@ -0,0 +1,169 @@
+import { useState, useEffect, useMemo, useRef, useCallback, useId } from 'react';
+import type { RefObject } from 'react';
+import type { Theme } from '@principal-ade/industry-theme';
+import { getRangeStartElement, resolveHighlightRange } from '../utils/documentHighlights';
+import type { DocumentHighlight } from '../utils/documentHighlights';
+import { useDomVersion } from './useDomVersion';
+
+export interface UseDocumentHighlightsOptions {
+  /** Element whose rendered text is highlighted */
+  rootRef: RefObject<HTMLElement | null>;
+  highlights: DocumentHighlight[];
+  theme: Theme;
+}
+
+export interface HoveredHighlight {
+  highlight: DocumentHighlight;
+  /** Box of the highlighted line under the pointer, in viewport coordinates */
+  rect: DOMRect;
+  /** Color of the highlight's source */
+  color: string;
+}
+
+export interface UseDocumentHighlightsResult {
+  /** Highlight under the pointer */
+  hovered: HoveredHighlight | null;
+  /** Scroll a highlight into view once it has been drawn */
+  reveal: (id: string) => void;
+}
+
+/**
+ * useDocumentHighlights - Draws document highlights using the CSS Custom
+ * Highlight API, one color per source, and tracks which one is hovered
+ */
+export const useDocumentHighlights = ({
+  rootRef,
+  highlights,
+  theme,
+}: UseDocumentHighlightsOptions): UseDocumentHighlightsResult => {
+  const id = useId().replace(/[^a-zA-Z0-9_-]/g, '');
+  const highlightName = `markdown-panel-highlight-${id}`;
+  const supportsHighlights = typeof CSS !== 'undefined' && 'highlights' in CSS;
+
+  // Resolved ranges in the order highlights were added
+  const rangesRef = useRef<Array<{ highlight: DocumentHighlight; range: Range }>>([]);
+  const revealPendingRef = useRef<string | null>(null);
+  // Sources keep their color for the panel's lifetime, in order of first use
+  const sourceIndexRef = useRef(new Map<string, number>());
+  const [hovered, setHovered] = useState<HoveredHighlight | null>(null);
+  const enabled = highlights.length > 0;
+  // Bumped when the rendered document changes (slide changes, edits) so highlights
+  // are located again
+  const domVersion = useDomVersion(rootRef, enabled);
+
+  const palette = useMemo(
+    () => [
+      theme.colors.warning,
+      theme.colors.primary,
+      theme.colors.accent,
+      theme.colors.success,
+      theme.colors.info,
+      theme.colors.secondary,
+    ],
+    [theme]
+  );
+
+  const getSourceColor = useCallback(
+    (source: string): string => {
+      const indexes = sourceIndexRef.current;
+      if (!indexes.has(source)) indexes.set(source, indexes.size);
+      return palette[indexes.get(source)! % palette.length];
+    },
+    [palette]
+  );
+
+  // Locate and draw the highlights, grouped by source
+  useEffect(() => {
+    const root = rootRef.current;
+    rangesRef.current = [];
+    setHovered(null);
+    if (!enabled || !root) return;
+
+    const bySource = new Map<string, Range[]>();
+    for (const highlight of highlights) {
+      const range = resolveHighlightRange(root, highlight);
+      if (!range) continue;
+      rangesRef.current.push({ highlight, range });
+      bySource.set(highlight.source, [...(bySource.get(highlight.source) ?? []), range]);
+    }
+
+    const revealed = rangesRef.current.find(
+      ({ highlight }) => highlight.id === revealPendingRef.current
+    );
+    if (revealed) {
+      revealPendingRef.current = null;
+      getRangeStartElement(revealed.range)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+
+    if (!supportsHighlights) return;
+    const names: string[] = [];
+    const style = document.createElement('style');
+    for (const [source, ranges] of bySource) {
+      const name = `${highlightName}-${names.length}`;
+      const color = getSourceColor(source);
+      names.push(name);
+      CSS.highlights.set(name, new Highlight(...ranges));
+      style.textContent += `
+      ::highlight(${name}) {
+        background-color: color-mix(in srgb, ${color} 30%, transparent);
+        text-decoration: underline 2px ${color};
+      }`;
+    }
+    document.head.appendChild(style);
+
+    return () => {
+      names.forEach((name) => CSS.highlights.delete(name));
+      style.remove();
+    };
+  }, [enabled, highlights, domVersion, rootRef, supportsHighlights, highlightName, getSourceColor]);
+
+  // Track the highlight under the pointer; the latest highlight wins where they overlap
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!enabled || !root) return;
+    let frame = 0;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const { clientX, clientY } = event;
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        let hit: HoveredHighlight | null = null;
+        for (const { highlight, range } of [...rangesRef.current].reverse()) {
+          const rect = Array.from(range.getClientRects()).find(
+            (box) =>
+              clientX >= box.left &&
+              clientX <= box.right &&
+              clientY >= box.top &&
+              clientY <= box.bottom
+          );
+          if (rect) {
+            hit = { highlight, rect, color: getSourceColor(highlight.source) };
+            break;
+          }
+        }
+        setHovered((prev) => (prev?.highlight.id === hit?.highlight.id ? prev : hit));
+      });
+    };
+    // Scrolling moves the text away from where the callout was placed
+    const handleLeave = () => {
+      cancelAnimationFrame(frame);
+      setHovered(null);
+    };
+
+    root.addEventListener('mousemove', handleMouseMove);
+    root.addEventListener('mouseleave', handleLeave);
+    root.addEventListener('scroll', handleLeave, true);
+    return () => {
+      cancelAnimationFrame(frame);
+      root.removeEventListener('mousemove', handleMouseMove);
+      root.removeEventListener('mouseleave', handleLeave);
+      root.removeEventListener('scroll', handleLeave, true);
+    };
+  }, [enabled, rootRef, getSourceColor]);
+
+  const reveal = useCallback((highlightId: string) => {
+    revealPendingRef.current = highlightId;
+  }, []);
+
+  return { hovered, reveal };
+};
@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import type { PanelEventEmitter } from '../types';
+import type { ContentChangeInfo } from '../panels/MarkdownPanel';
+import { parseLinkedDocument } from '../utils/linkGraph';
+import type { LinkedDocument } from '../utils/linkGraph';
+import { isMarkdownPath } from '../utils/markdownLinks';
+import { useReadFiles } from './useReadFiles';
+
+export interface UseDocumentLinksOptions {
+  /** Documents whose links should be found */
+  paths: string[];
+  /** Read a repository file */
+  readFile: (path: string) => Promise<string>;
+  /** Event bus carrying `markdown-panel:content-changed` events */
+  events: PanelEventEmitter;
+  /** Absolute path of the repository, the root of links starting with `/` */
+  repositoryPath?: string;
+  /** Wait for load() before reading any document (default false) */
+  lazy?: boolean;
+}
+
+export interface UseDocumentLinksResult {
+  /** Title and outgoing links of every document read so far */
+  documents: Record<string, LinkedDocument>;
+  /** Whether documents are still being read */
+  loading: boolean;
+  /** Whether documents have been read, or are being read */
+  loaded: boolean;
+  /** Start reading documents (for lazy links) */
+  load: () => void;
+}
+
+/**
+ * useDocumentLinks - Reads documents to find the links between them. Each
+ * path is read once; only listed documents are included, and
+ * documents edited in markdown panels are re-parsed from
+ * `markdown-panel:content-changed` events without being read again.
+ * Lazy links read nothing until they are first needed.
+ */
+export const useDocumentLinks = ({
+  paths,
+  readFile,
+  events,
+  repositoryPath,
+  lazy = false,
+}: UseDocumentLinksOptions): UseDocumentLinksResult => {
+  const [parsed, setParsed] = useState<Record<string, LinkedDocument>>({});
+  const [pendingCount, setPendingCount] = useState(0);
+  const requestedRef = useRef(new Set<string>());
+  const readFiles = useReadFiles(readFile);
+  const [loaded, setLoaded] = useState<boolean>(!lazy);
+  const load = useCallback(() => setLoaded(true), []);
+
+  useEffect(() => {
+    if (!loaded) return;
+
+    // Forget documents that are no longer listed, so they are read again if they return
+    const current = new Set(paths);
+    const removed = [...requestedRef.current].filter((path) => !current.has(path));
+    if (removed.length > 0) {
+      removed.forEach((path) => requestedRef.current.delete(path));
+      setParsed((prev) =>
+        Object.fromEntries(Object.entries(prev).filter(([path]) => !removed.includes(path)))
+      );
+    }
+
+    const queue = paths.filter((path) => !requestedRef.current.has(path));
+    if (queue.length === 0) return;
+    queue.forEach((path) => requestedRef.current.add(path));
+    setPendingCount((count) => count + queue.length);
+
+    readFiles(queue, {
+      onRead: (path, content) => {
+        // Documents edited while being read already have their latest links
+        setParsed((prev) =>
+          path in prev
+            ? prev
+            : { ...prev, [path]: parseLinkedDocument(path, content, repositoryPath) }
+        );
+        setPendingCount((count) => count - 1);
+      },
+      onError: (path, err) => {
+        console.warn('[useDocumentLinks] Failed to read document:', path, err);
+        setParsed((prev) =>
+          path in prev ? prev : { ...prev, [path]: { title: null, links: [] } }
+        );
+        setPendingCount((count) => count - 1);
+      },
+    });
+  }, [paths, readFiles, loaded, repositoryPath]);
+
+  // Re-parse documents edited in markdown panels
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:content-changed', (event) => {
+      const change = event.payload as ContentChangeInfo;
+      if (!isMarkdownPath(change.path)) return;
+      setParsed((prev) => ({
+        ...prev,
+        [change.path]: parseLinkedDocument(change.path, change.newContent, repositoryPath),
+      }));
+    });
+    return unsubscribe;
+  }, [events, repositoryPath]);
+
+  // Documents no longer listed are left out
+  const documents = useMemo(() => {
+    const current = new Set(paths);
+    return Object.fromEntries(Object.entries(parsed).filter(([path]) => current.has(path)));
+  }, [parsed, paths]);
+
+  return { documents, loading: pendingCount > 0, loaded, load };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useRef } from 'react';
+import { getDocumentTitle } from '../utils/docsTree';
+import { useReadFiles } from './useReadFiles';
+
+export interface UseDocumentTitlesOptions {
+  /** Documents whose titles should be read */
+  paths: string[];
+  /** Read a repository file */
+  readFile: (path: string) => Promise<string>;
+}
+
+/**
+ * useDocumentTitles - Reads documents to find their titles (frontmatter
+ * title or first heading). Each path is read once; documents without a title,
+ * or that can't be read, map to null.
+ */
+export const useDocumentTitles = ({
+  paths,
+  readFile,
+}: UseDocumentTitlesOptions): Record<string, string | null> => {
+  const [titles, setTitles] = useState<Record<string, string | null>>({});
+  const requestedRef = useRef(new Set<string>());
+  const readFiles = useReadFiles(readFile);
+
+  useEffect(() => {
+    const queue = paths.filter((path) => !requestedRef.current.has(path));
+    if (queue.length === 0) return;
+    queue.forEach((path) => requestedRef.current.add(path));
+
+    readFiles(queue, {
+      onRead: (path, content) => {
+        const title = getDocumentTitle(content) ?? null;
+        setTitles((prev) => ({ ...prev, [path]: title }));
+      },
+      onError: (path, err) => {
+        console.warn('[DocsBrowserPanel] Failed to read title:', path, err);
+        setTitles((prev) => ({ ...prev, [path]: null }));
+      },
+    });
+  }, [paths, readFiles]);
+
+  return titles;
+};
@@ -0,0 +1,38 @@
+import type { PanelEventEmitter } from '../types';
+import { getRequestId } from '../utils/toolRequests';
+import { useToolEvent } from './useToolEvent';
+import type { ToolResult } from './useToolEvent';
+
+/**
+ * The document a document-reading tool answers about
+ */
+export interface ToolDocument {
+  /** Path of the open file ('' when none is open) */
+  path: string;
+  /** Hash of the document content */
+  revision: string;
+}
+
+/**
+ * useDocumentToolEvent - Answers a document-reading tool. Results echo the
+ * request's correlation ID (generating one when none was sent) and name the
+ * file and revision they describe, so answers can be matched to what was on
+ * screen.
+ */
+export const useDocumentToolEvent = <TInput extends { requestId?: string }>(
+  events: PanelEventEmitter,
+  type: string,
+  document: ToolDocument,
+  handler: (input: TInput) => ToolResult | Promise<ToolResult>
+): void => {
+  useToolEvent<TInput>(events, type, (input) => {
+    const describe = (payload: ToolResult): ToolResult => ({
+      requestId: getRequestId(input.requestId),
+      path: document.path || null,
+      revision: document.path ? document.revision : null,
+      ...payload,
+    });
+    const result = handler(input);
+    return result instanceof Promise ? result.then(describe) : describe(result);
+  });
+};
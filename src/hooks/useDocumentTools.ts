@@ -0,0 +1,214 @@
+import type { RefObject } from 'react';
+import type { PanelEventEmitter, MarkdownViewMode } from '../types';
+import type { MarkdownHeading } from '../utils/markdownHeadings';
+import type { MarkdownSlideRange } from '../utils/markdownSlides';
+import type { MarkdownFrontmatter } from '../utils/frontmatter';
+import { countWords } from '../utils/markdownStats';
+import type { DocumentStats } from '../utils/markdownStats';
+import {
+  buildOutlineTree,
+  getHeadingPath,
+  getSectionContent,
+  getSectionRange,
+} from '../utils/markdownSections';
+import { useDocumentToolEvent } from './useDocumentToolEvent';
+import type { ToolDocument } from './useDocumentToolEvent';
+
+export interface UseDocumentToolsOptions {
+  events: PanelEventEmitter;
+  document: ToolDocument;
+  /** Markdown source of the document */
+  content: string;
+  /** The source without its frontmatter */
+  body: string;
+  title: string;
+  frontmatter: MarkdownFrontmatter | null;
+  stats: DocumentStats;
+  /** Whether the editor has unsaved changes */
+  isDirty: boolean;
+  headings: MarkdownHeading[];
+  /** Resolve a section ID, slug or heading text to a document heading */
+  resolveHeading: (sectionId: string) => MarkdownHeading | undefined;
+  /** Headings currently in the DOM, with the DOM id of each */
+  renderedHeadings: Array<{ domId: string; heading: MarkdownHeading }>;
+  findElementById: (id: string) => HTMLElement | null;
+  /** The visible part of the panel */
+  contentRef: RefObject<HTMLElement | null>;
+  /** Slug of the section in view */
+  activeSectionSlug: string | null;
+  viewMode: MarkdownViewMode;
+  slides: MarkdownSlideRange[];
+  currentSlide: number;
+}
+
+/**
+ * useDocumentTools - Answers the get_document_outline, get_section_content,
+ * get_visible_section and get_active_document tools
+ */
+export const useDocumentTools = ({
+  events,
+  document,
+  content,
+  body,
+  title,
+  frontmatter,
+  stats,
+  isDirty,
+  headings,
+  resolveHeading,
+  renderedHeadings,
+  findElementById,
+  contentRef,
+  activeSectionSlug,
+  viewMode,
+  slides,
+  currentSlide,
+}: UseDocumentToolsOptions): void => {
+  useDocumentToolEvent<{ requestId?: string; maxLevel?: number }>(
+    events,
+    'industry-theme.markdown-panels:get-document-outline',
+    document,
+    ({ maxLevel }) => {
+      if (!document.path) {
+        return { success: false, message: 'No document is open', headings: [] };
+      }
+
+      const included = headings.filter((heading) => !maxLevel || heading.level <= maxLevel);
+      return {
+        success: true,
+        message: `Found ${included.length} heading${included.length === 1 ? '' : 's'}`,
+        headings: buildOutlineTree(included),
+      };
+    }
+  );
+
+  useDocumentToolEvent<{ requestId?: string; sectionId?: string; includeSubsections?: boolean }>(
+    events,
+    'industry-theme.markdown-panels:get-section-content',
+    document,
+    ({ sectionId, includeSubsections = true }) => {
+      const heading = sectionId ? resolveHeading(sectionId) : undefined;
+      if (!document.path || !heading) {
+        return {
+          success: false,
+          message: !document.path
+            ? 'No document is open'
+            : sectionId
+              ? `Section "${sectionId}" not found`
+              : 'sectionId is required',
+          content: '',
+        };
+      }
+
+      const range = getSectionRange(
+        headings,
+        heading,
+        content.split('\n').length,
+        includeSubsections
+      );
+      return {
+        success: true,
+        message: `Read section "${heading.text}"`,
+        sectionId: heading.slug,
+        title: heading.text,
+        level: heading.level,
+        breadcrumb: getHeadingPath(headings, heading).map((h) => h.text),
+        startLine: range.startLine + 1,
+        endLine: range.endLine + 1,
+        content: getSectionContent(content, range),
+      };
+    }
+  );
+
+  useDocumentToolEvent<{ requestId?: string; includeContent?: boolean }>(
+    events,
+    'industry-theme.markdown-panels:get-visible-section',
+    document,
+    ({ includeContent = true }) => {
+      if (!document.path) {
+        return { success: false, message: 'No document is open', content: '' };
+      }
+
+      // Headings whose rendered element is inside the visible part of the panel
+      const viewRect = contentRef.current?.getBoundingClientRect();
+      const visibleSectionIds = viewRect
+        ? renderedHeadings
+            .filter(({ domId }) => {
+              const rect = findElementById(domId)?.getBoundingClientRect();
+              return !!rect && rect.bottom > viewRect.top && rect.top < viewRect.bottom;
+            })
+            .map(({ heading }) => heading.slug)
+        : [];
+
+      const selection = window.getSelection();
+      const selectedText =
+        selection && contentRef.current?.contains(selection.anchorNode)
+          ? selection.toString().trim()
+          : '';
+
+      const heading = activeSectionSlug
+        ? headings.find((h) => h.slug === activeSectionSlug)
+        : undefined;
+      const slide = viewMode === 'slides' ? slides[currentSlide] : undefined;
+      let shownContent = '';
+      if (includeContent) {
+        const lines = content.split('\n');
+        if (slide) {
+          shownContent = lines
+            .slice(slide.startLine, slide.endLine + 1)
+            .join('\n')
+            .trim();
+        } else if (heading) {
+          shownContent = getSectionContent(
+            content,
+            getSectionRange(headings, heading, lines.length, false)
+          );
+        } else {
+          shownContent = body.trim();
+        }
+      }
+
+      return {
+        success: true,
+        message: heading
+          ? `Viewing section "${heading.text}"`
+          : slide
+            ? `Viewing slide ${currentSlide + 1} of ${slides.length}`
+            : 'Viewing the document',
+        viewMode,
+        sectionId: heading?.slug ?? null,
+        title: heading?.text ?? null,
+        breadcrumb: heading ? getHeadingPath(headings, heading).map((h) => h.text) : [],
+        visibleSectionIds,
+        slide: slide ? { index: currentSlide, total: slides.length } : null,
+        selectedText: selectedText || null,
+        content: shownContent,
+      };
+    }
+  );
+
+  useDocumentToolEvent<{ requestId?: string }>(
+    events,
+    'industry-theme.markdown-panels:get-active-document',
+    document,
+    () => {
+      if (!document.path) {
+        return { success: false, message: 'No document is open' };
+      }
+
+      return {
+        success: true,
+        message: `Viewing ${document.path}`,
+        title,
+        frontmatter: frontmatter?.data ?? null,
+        frontmatterFormat: frontmatter?.format ?? null,
+        wordCount: countWords(body),
+        lineCount: content.split('\n').length,
+        headingCount: headings.length,
+        stats,
+        viewMode,
+        isDirty,
+      };
+    }
+  );
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import type { RefObject } from 'react';
+
+export interface UseDomVersionOptions {
+  /**
+   * Also count reflows of the scroll container (the root's first child) and
+   * its children, for positions measured in the document
+   */
+  observeResize?: boolean;
+  /** Rendered markdown, so the container's children are observed again when it changes */
+  content?: string;
+}
+
+/**
+ * useDomVersion - A counter bumped (debounced) whenever the rendered document
+ * under rootRef changes (slide changes, lazy diagrams, edits), so effects
+ * that locate things in the DOM can depend on it and run again
+ */
+export const useDomVersion = (
+  rootRef: RefObject<HTMLElement | null>,
+  active: boolean,
+  { observeResize = false, content }: UseDomVersionOptions = {}
+): number => {
+  const [domVersion, setDomVersion] = useState<number>(0);
+
+  useEffect(() => {
+    const root = rootRef.current;
+    const scrollContainer = root?.firstElementChild;
+    if (!active || !root || (observeResize && !scrollContainer)) return;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const bump = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => setDomVersion((version) => version + 1), 150);
+    };
+    const mutationObserver = new MutationObserver(bump);
+    mutationObserver.observe(root, { childList: true, subtree: true, characterData: true });
+    const resizeObserver = observeResize && scrollContainer ? new ResizeObserver(bump) : null;
+    if (resizeObserver && scrollContainer) {
+      resizeObserver.observe(scrollContainer);
+      Array.from(scrollContainer.children).forEach((child) => resizeObserver.observe(child));
+    }
+    return () => {
+      clearTimeout(timeout);
+      mutationObserver.disconnect();
+      resizeObserver?.disconnect();
+    };
+  }, [active, observeResize, content, rootRef]);
+
+  return domVersion;
+};
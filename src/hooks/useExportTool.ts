@@ -0,0 +1,47 @@
+import type { PanelEventEmitter } from '../types';
+import type { ExportedDocument } from '../utils/exportDocument';
+import { useToolEvent } from './useToolEvent';
+
+export interface UseExportToolOptions {
+  events: PanelEventEmitter;
+  /** Whether a document is open */
+  hasDocument: boolean;
+  /** Export the rendered document as standalone HTML */
+  exportDocument: (embedImages: boolean) => Promise<ExportedDocument>;
+}
+
+/**
+ * useExportTool - Answers the export_document tool
+ */
+export const useExportTool = ({
+  events,
+  hasDocument,
+  exportDocument,
+}: UseExportToolOptions): void => {
+  useToolEvent<{ embedImages?: boolean }>(
+    events,
+    'industry-theme.markdown-panels:export-document',
+    ({ embedImages }) => {
+      if (!hasDocument) {
+        return { success: false, message: 'No document is open', html: '' };
+      }
+
+      return exportDocument(embedImages !== false).then(
+        (exported) => ({
+          success: true,
+          message:
+            exported.imagesLinked > 0
+              ? `Exported "${exported.title}" (${exported.imagesLinked} image(s) could not be embedded and are linked)`
+              : `Exported "${exported.title}"`,
+          title: exported.title,
+          html: exported.html,
+        }),
+        (err) => ({
+          success: false,
+          message: `Export failed: ${err instanceof Error ? err.message : String(err)}`,
+          html: '',
+        })
+      );
+    }
+  );
+};
@@ -0,0 +1,65 @@
+import type { PanelEventEmitter } from '../types';
+import type { MarkdownHeading } from '../utils/markdownHeadings';
+import { findInMarkdown } from '../utils/findInDocument';
+import type { FindOptions, DocumentFindMatch } from '../utils/findInDocument';
+import { useToolEvent } from './useToolEvent';
+
+/**
+ * Maximum number of matches returned by the find_in_document tool
+ */
+const MAX_FIND_RESULTS = 100;
+
+export interface UseFindToolOptions {
+  events: PanelEventEmitter;
+  /** Markdown source searched */
+  content: string;
+  headings: MarkdownHeading[];
+  /** Show the find bar with a query, to highlight its matches in the document */
+  openFind: (query?: string, options?: FindOptions) => void;
+}
+
+/**
+ * useFindTool - Answers the find_in_document tool
+ */
+export const useFindTool = ({ events, content, headings, openFind }: UseFindToolOptions): void => {
+  useToolEvent<{
+    query?: string;
+    caseSensitive?: boolean;
+    wholeWord?: boolean;
+    regex?: boolean;
+    highlight?: boolean;
+  }>(
+    events,
+    'industry-theme.markdown-panels:find-in-document',
+    ({ query, caseSensitive, wholeWord, regex, highlight = true }) => {
+      if (!query) {
+        return { success: false, message: 'query is required', matchCount: 0 };
+      }
+
+      const options: FindOptions = { caseSensitive, wholeWord, regex };
+      let matches: DocumentFindMatch[];
+      try {
+        matches = findInMarkdown(content, query, options, headings);
+      } catch (err) {
+        return {
+          success: false,
+          message: `Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`,
+          matchCount: 0,
+        };
+      }
+
+      if (highlight) {
+        openFind(query, options);
+      }
+      return {
+        success: true,
+        message:
+          matches.length > MAX_FIND_RESULTS
+            ? `Found ${matches.length} matches (showing first ${MAX_FIND_RESULTS})`
+            : `Found ${matches.length} match${matches.length === 1 ? '' : 'es'}`,
+        matchCount: matches.length,
+        matches: matches.slice(0, MAX_FIND_RESULTS),
+      };
+    }
+  );
+};
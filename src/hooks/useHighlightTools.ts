@@ -0,0 +1,45 @@
+import type { PanelEventEmitter } from '../types';
+import type { HighlightRequest } from '../utils/documentHighlights';
+import { useToolEvent } from './useToolEvent';
+
+export interface UseHighlightToolsOptions {
+  events: PanelEventEmitter;
+  /** The open file, reported with each highlight */
+  currentFilePath: string;
+  /** Highlight a section or a quoted span, showing the document view if needed */
+  addHighlight: (
+    request: HighlightRequest
+  ) => Promise<{ success: boolean; message: string; highlightId: string | null }>;
+  /** Remove highlights, optionally only one source's or one highlight; returns how many */
+  clearHighlights: (filter: { source?: string; highlightId?: string }) => number;
+}
+
+/**
+ * useHighlightTools - Answers the highlight_text and clear_highlights tools
+ */
+export const useHighlightTools = ({
+  events,
+  currentFilePath,
+  addHighlight,
+  clearHighlights,
+}: UseHighlightToolsOptions): void => {
+  useToolEvent<HighlightRequest>(
+    events,
+    'industry-theme.markdown-panels:highlight-text',
+    (request) =>
+      addHighlight(request).then((result) => ({ ...result, path: currentFilePath || null }))
+  );
+
+  useToolEvent<{ source?: string; highlightId?: string }>(
+    events,
+    'industry-theme.markdown-panels:clear-highlights',
+    ({ source, highlightId }) => {
+      const cleared = clearHighlights({ source, highlightId });
+      return {
+        success: true,
+        message: `Cleared ${cleared} highlight${cleared === 1 ? '' : 's'}`,
+        cleared,
+      };
+    }
+  );
+};
@@ -0,0 +1,43 @@
+import type { PanelEventEmitter } from '../types';
+import { countDiagnostics } from '../utils/markdownDiagnostics';
+import type { MarkdownDiagnostic } from '../utils/markdownDiagnostics';
+import { useDocumentToolEvent } from './useDocumentToolEvent';
+import type { ToolDocument } from './useDocumentToolEvent';
+
+export interface UseLintToolOptions {
+  events: PanelEventEmitter;
+  document: ToolDocument;
+  /** Resolves with the document's problems once its links have been checked */
+  getDiagnostics: () => Promise<MarkdownDiagnostic[]>;
+}
+
+/**
+ * useLintTool - Answers the lint_document tool
+ */
+export const useLintTool = ({ events, document, getDiagnostics }: UseLintToolOptions): void => {
+  useDocumentToolEvent<{ requestId?: string }>(
+    events,
+    'industry-theme.markdown-panels:lint-document',
+    document,
+    () => {
+      if (!document.path) {
+        return { success: false, message: 'No document is open', diagnostics: [] };
+      }
+
+      // Links to other files may still be being checked
+      return getDiagnostics().then((found) => {
+        const { error, warning } = countDiagnostics(found);
+        return {
+          success: true,
+          message:
+            found.length === 0
+              ? 'No problems found'
+              : `Found ${error} error${error === 1 ? '' : 's'} and ` +
+                `${warning} warning${warning === 1 ? '' : 's'}`,
+          counts: { error, warning },
+          diagnostics: found,
+        };
+      });
+    }
+  );
+};
@@ -0,0 +1,129 @@
+import { useState, useCallback } from 'react';
+
+/**
+ * A tab in MarkdownTabsPanel
+ */
+export interface MarkdownTab {
+  /** Stable identifier (a tab keeps it when it follows a link to another file) */
+  id: string;
+  /** Repository path of the file the tab shows */
+  path: string;
+  /** Pinned tabs stay at the start of the strip and can't be closed until unpinned */
+  pinned: boolean;
+}
+
+export interface UseMarkdownTabsResult {
+  tabs: MarkdownTab[];
+  activeTab: MarkdownTab | null;
+  /** Focus the tab showing a file, opening a new tab if none does */
+  open: (path: string, options?: { pinned?: boolean }) => void;
+  /** Close an unpinned tab, focusing its neighbour if it was active */
+  close: (id: string) => void;
+  activate: (id: string) => void;
+  /** Move a tab to a new index, kept within its pinned or unpinned group */
+  move: (id: string, toIndex: number) => void;
+  togglePin: (id: string) => void;
+  /** Record that a tab now shows another file (after following a link) */
+  setPath: (id: string, path: string) => void;
+}
+
+let nextTabId = 0;
+
+/**
+ * Keep pinned tabs ahead of unpinned ones, otherwise preserving order
+ */
+const sortPinnedFirst = (tabs: MarkdownTab[]): MarkdownTab[] => [
+  ...tabs.filter((tab) => tab.pinned),
+  ...tabs.filter((tab) => !tab.pinned),
+];
+
+/**
+ * useMarkdownTabs - Open tabs and the active tab for MarkdownTabsPanel
+ */
+export const useMarkdownTabs = (): UseMarkdownTabsResult => {
+  const [state, setState] = useState<{ tabs: MarkdownTab[]; activeId: string | null }>({
+    tabs: [],
+    activeId: null,
+  });
+
+  const open = useCallback((path: string, options?: { pinned?: boolean }) => {
+    setState(({ tabs }) => {
+      const existing = tabs.find((tab) => tab.path === path);
+      if (existing) {
+        const pinned = existing.pinned || !!options?.pinned;
+        const updated =
+          pinned === existing.pinned
+            ? tabs
+            : sortPinnedFirst(tabs.map((tab) => (tab === existing ? { ...tab, pinned } : tab)));
+        return { tabs: updated, activeId: existing.id };
+      }
+
+      const tab: MarkdownTab = { id: `tab-${++nextTabId}`, path, pinned: !!options?.pinned };
+      return { tabs: sortPinnedFirst([...tabs, tab]), activeId: tab.id };
+    });
+  }, []);
+
+  const close = useCallback((id: string) => {
+    setState(({ tabs, activeId }) => {
+      const index = tabs.findIndex((tab) => tab.id === id);
+      if (index === -1 || tabs[index].pinned) return { tabs, activeId };
+
+      const remaining = tabs.filter((tab) => tab.id !== id);
+      if (activeId !== id) return { tabs: remaining, activeId };
+      const neighbour = remaining[Math.min(index, remaining.length - 1)];
+      return { tabs: remaining, activeId: neighbour?.id ?? null };
+    });
+  }, []);
+
+  const activate = useCallback((id: string) => {
+    setState((prev) => (prev.activeId === id ? prev : { tabs: prev.tabs, activeId: id }));
+  }, []);
+
+  const move = useCallback((id: string, toIndex: number) => {
+    setState(({ tabs, activeId }) => {
+      const tab = tabs.find((t) => t.id === id);
+      if (!tab) return { tabs, activeId };
+
+      const pinnedCount = tabs.filter((t) => t.pinned).length;
+      const [min, max] = tab.pinned ? [0, pinnedCount - 1] : [pinnedCount, tabs.length - 1];
+      const target = Math.min(Math.max(toIndex, min), max);
+      const remaining = tabs.filter((t) => t.id !== id);
+      remaining.splice(target, 0, tab);
+      return { tabs: remaining, activeId };
+    });
+  }, []);
+
+  const togglePin = useCallback((id: string) => {
+    setState(({ tabs, activeId }) => {
+      const tab = tabs.find((t) => t.id === id);
+      if (!tab) return { tabs, activeId };
+      const toggled = { ...tab, pinned: !tab.pinned };
+      const others = tabs.filter((t) => t.id !== id);
+      const pinnedCount = others.filter((t) => t.pinned).length;
+      // Newly pinned tabs go to the end of the pinned group, unpinned ones to the start of the rest
+      others.splice(pinnedCount, 0, toggled);
+      return { tabs: others, activeId };
+    });
+  }, []);
+
+  const setPath = useCallback((id: string, path: string) => {
+    setState((prev) => {
+      if (!prev.tabs.some((tab) => tab.id === id && tab.path !== path)) return prev;
+      return {
+        tabs: prev.tabs.map((tab) => (tab.id === id ? { ...tab, path } : tab)),
+        activeId: prev.activeId,
+      };
+    });
+  }, []);
+
+  return {
+    tabs: state.tabs,
+    activeTab: state.tabs.find((tab) => tab.id === state.activeId) ?? null,
+    open,
+    close,
+    activate,
+    move,
+    togglePin,
+    setPath,
+  };
+};
@@ -0,0 +1,123 @@
+import { useLayoutEffect } from 'react';
+import type { RefObject } from 'react';
+import type { Theme } from '@principal-ade/industry-theme';
+import type katexModule from 'katex';
+import 'katex/dist/katex.min.css';
+import {
+  MATH_CLASS,
+  MATH_DISPLAY_CLASS,
+  MATH_OUTPUT_CLASS,
+  MATH_SOURCE_CLASS,
+} from '../utils/markdownMath';
+
+type Katex = typeof katexModule;
+
+export interface UseMathRendererOptions {
+  /** Element containing the rendered document */
+  rootRef: RefObject<HTMLElement | null>;
+  /** Whether the document is rendered (the root element is mounted) */
+  enabled: boolean;
+  theme: Theme;
+}
+
+let katexPromise: Promise<Katex> | null = null;
+
+/**
+ * Load KaTeX the first time a document contains math
+ */
+const loadKatex = (): Promise<Katex> => {
+  if (!katexPromise) {
+    katexPromise = import('katex')
+      .then(({ default: katex }) => katex)
+      .catch((err) => {
+        katexPromise = null;
+        throw err;
+      });
+  }
+  return katexPromise;
+};
+
+/**
+ * useMathRenderer - Renders the math placeholders written by prepareMath with
+ * KaTeX once DocumentView has rendered them.
+ *
+ * KaTeX sizes equations relative to the surrounding text and inherits its
+ * color, so math follows the theme and fontSizeScale. Invalid TeX is replaced
+ * by an error marker whose tooltip shows the original source.
+ */
+export const useMathRenderer = ({ rootRef, enabled, theme }: UseMathRendererOptions): void => {
+  useLayoutEffect(() => {
+    const root = rootRef.current;
+    if (!enabled || !root) return;
+
+    let disposed = false;
+    let katex: Katex | null = null;
+    let isLoading = false;
+    // Source each output element was last rendered from
+    let rendered = new WeakMap<Element, string>();
+
+    const renderError = (output: Element, source: string, message: string) => {
+      const marker = document.createElement('span');
+      marker.textContent = '⚠ TeX';
+      marker.title = `${source}\n\n${message}`;
+      marker.setAttribute('role', 'img');
+      marker.setAttribute('aria-label', `Invalid math: ${source}`);
+      Object.assign(marker.style, {
+        color: theme.colors.error,
+        fontFamily: theme.fonts.monospace,
+        fontSize: '0.85em',
+        borderBottom: `1px dotted ${theme.colors.error}`,
+        cursor: 'help',
+        whiteSpace: 'nowrap',
+      });
+      output.replaceChildren(marker);
+    };
+
+    const renderPlaceholder = (placeholder: Element) => {
+      const source = placeholder.querySelector(`:scope > .${MATH_SOURCE_CLASS}`)?.textContent;
+      const output = placeholder.querySelector(`:scope > .${MATH_OUTPUT_CLASS}`);
+      if (source == null || !output || rendered.get(output) === source) return;
+      rendered.set(output, source);
+
+      const displayMode = placeholder.classList.contains(MATH_DISPLAY_CLASS);
+      if (!katex) {
+        // Show the source as written until KaTeX is available (or if it can't load)
+        output.textContent = displayMode ? `$$${source}$$` : `$${source}$`;
+        return;
+      }
+
+      try {
+        katex.render(source, output as HTMLElement, { displayMode, throwOnError: true });
+      } catch (err) {
+        renderError(output, source, err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    const renderAll = () => {
+      const placeholders = root.querySelectorAll(`.${MATH_CLASS}`);
+      if (placeholders.length > 0 && !katex && !isLoading) {
+        isLoading = true;
+        loadKatex()
+          .then((instance) => {
+            if (disposed) return;
+            katex = instance;
+            rendered = new WeakMap();
+            renderAll();
+          })
+          .catch((err) => {
+            console.warn('[MarkdownPanel] Failed to load KaTeX, math will show as source:', err);
+          });
+      }
+      placeholders.forEach(renderPlaceholder);
+    };
+
+    renderAll();
+    const observer = new MutationObserver(renderAll);
+    observer.observe(root, { childList: true, subtree: true, characterData: true });
+
+    return () => {
+      disposed = true;
+      observer.disconnect();
+    };
+  }, [enabled, rootRef, theme]);
+};
@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Mermaid } from 'mermaid';
+import type { Theme } from '@principal-ade/industry-theme';
+import { findMermaidBlocks, prepareMermaidBlocks } from '../utils/mermaidBlocks';
+import type { MermaidBlockState } from '../utils/mermaidBlocks';
+
+type MermaidWindow = Window & { mermaid?: Mermaid };
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+/**
+ * Load mermaid on first use. DocumentView renders diagrams with the mermaid
+ * instance on `window`, so a host that already provides one keeps it.
+ */
+const loadMermaid = (): Promise<Mermaid> => {
+  const existing = (window as MermaidWindow).mermaid;
+  if (existing) return Promise.resolve(existing);
+
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid')
+      .then(({ default: mermaid }) => {
+        mermaid.initialize({ startOnLoad: false });
+        const mermaidWindow = window as MermaidWindow;
+        mermaidWindow.mermaid = mermaidWindow.mermaid ?? mermaid;
+        return mermaidWindow.mermaid;
+      })
+      .catch((err) => {
+        mermaidPromise = null;
+        throw err;
+      });
+  }
+  return mermaidPromise;
+};
+
+/**
+ * useMermaidDiagrams - Prepares markdown so its mermaid blocks render as
+ * themed diagrams in DocumentView.
+ *
+ * Mermaid is loaded when the document first contains a diagram, and each
+ * diagram is parsed before it is handed to DocumentView. Until then the source
+ * shows as a code block; diagrams that fail to parse show an inline error with
+ * their source instead of breaking the document.
+ *
+ * @returns Markdown to render, with the same lines as the input
+ */
+export const useMermaidDiagrams = (markdown: string, theme: Theme): string => {
+  const blocks = useMemo(() => findMermaidBlocks(markdown), [markdown]);
+  const [mermaid, setMermaid] = useState<Mermaid | null>(null);
+  // Parse results by diagram source: null when valid, otherwise the error message
+  const [results, setResults] = useState<Map<string, string | null>>(() => new Map());
+
+  const hasBlocks = blocks.length > 0;
+  useEffect(() => {
+    if (!hasBlocks || mermaid) return;
+
+    let cancelled = false;
+    loadMermaid()
+      .then((instance) => {
+        if (!cancelled) setMermaid(instance);
+      })
+      .catch((err) => {
+        console.warn('[MarkdownPanel] Failed to load mermaid, diagrams will show as code:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hasBlocks, mermaid]);
+
+  useEffect(() => {
+    if (!mermaid) return;
+    const unparsed = Array.from(new Set(blocks.map((block) => block.code))).filter(
+      (code) => !results.has(code)
+    );
+    if (unparsed.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      unparsed.map(async (code): Promise<[string, string | null]> => {
+        try {
+          await mermaid.parse(code);
+          return [code, null];
+        } catch (err) {
+          return [code, err instanceof Error ? err.message : String(err)];
+        }
+      })
+    ).then((parsed) => {
+      if (cancelled) return;
+      // Keep only results for diagrams still in the document (sources change while editing)
+      const current = new Set(blocks.map((block) => block.code));
+      setResults((prev) => new Map([...prev].filter(([code]) => current.has(code)).concat(parsed)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mermaid, blocks, results]);
+
+  return useMemo(() => {
+    const getState = (code: string): MermaidBlockState => {
+      const message = results.get(code);
+      if (message === undefined) return { status: 'pending' };
+      return message === null ? { status: 'valid' } : { status: 'invalid', message };
+    };
+    return prepareMermaidBlocks(markdown, blocks, getState, theme);
+  }, [markdown, blocks, results, theme]);
+};
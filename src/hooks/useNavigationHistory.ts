@@ -0,0 +1,70 @@
+import { useState, useCallback } from 'react';
+
+/**
+ * A location in the panel's navigation history
+ */
+export interface NavigationEntry {
+  /** Repository path of the file */
+  path: string;
+  /** Heading the user navigated to, if any */
+  sectionId: string | null;
+}
+
+export interface UseNavigationHistoryResult {
+  current: NavigationEntry | null;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  /** Record a new location, dropping any forward history */
+  push: (entry: NavigationEntry) => void;
+  /** Step back and return the location to show, or null at the start */
+  back: () => NavigationEntry | null;
+  /** Step forward and return the location to show, or null at the end */
+  forward: () => NavigationEntry | null;
+}
+
+/**
+ * Maximum number of locations kept in history
+ */
+const MAX_HISTORY = 100;
+
+/**
+ * useNavigationHistory - Browser-style back/forward history of visited files and sections
+ */
+export const useNavigationHistory = (): UseNavigationHistoryResult => {
+  const [history, setHistory] = useState<{ entries: NavigationEntry[]; index: number }>({
+    entries: [],
+    index: -1,
+  });
+
+  const push = useCallback((entry: NavigationEntry) => {
+    setHistory(({ entries, index }) => {
+      const current = entries[index];
+      if (current && current.path === entry.path && current.sectionId === entry.sectionId) {
+        return { entries, index };
+      }
+      const next = [...entries.slice(0, index + 1), entry].slice(-MAX_HISTORY);
+      return { entries: next, index: next.length - 1 };
+    });
+  }, []);
+
+  const back = useCallback((): NavigationEntry | null => {
+    if (history.index <= 0) return null;
+    setHistory({ entries: history.entries, index: history.index - 1 });
+    return history.entries[history.index - 1];
+  }, [history]);
+
+  const forward = useCallback((): NavigationEntry | null => {
+    if (history.index >= history.entries.length - 1) return null;
+    setHistory({ entries: history.entries, index: history.index + 1 });
+    return history.entries[history.index + 1];
+  }, [history]);
+
+  return {
+    current: history.entries[history.index] ?? null,
+    canGoBack: history.index > 0,
+    canGoForward: history.index < history.entries.length - 1,
+    push,
+    back,
+    forward,
+  };
+};
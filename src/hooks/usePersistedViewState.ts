@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { MarkdownViewState } from '../types';
+import type { ViewStateStorage } from '../utils/viewStateStorage';
+
+export interface UsePersistedViewStateOptions {
+  storage: ViewStateStorage;
+  /** File being shown, or null while it loads */
+  path: string | null;
+  /** Current view of the file (the scroll offset is read from the scroll container) */
+  state: Omit<MarkdownViewState, 'scrollTop'>;
+  /** Element containing the rendered file, watched for scrolling */
+  rootRef: RefObject<HTMLElement | null>;
+  /** The element whose scroll offset is remembered, if it is currently shown */
+  getScrollContainer: () => HTMLElement | null;
+  /** Apply view state stored for a file once it has loaded */
+  onRestore: (state: MarkdownViewState) => void;
+}
+
+/**
+ * Delay (ms) after the last change before view state is saved
+ */
+const SAVE_DELAY = 500;
+
+/**
+ * usePersistedViewState - Restores a file's stored view state when it is
+ * shown and saves it as the view changes.
+ *
+ * Nothing is saved for a file until its stored state has been restored, so
+ * the default view of a file that is still loading never overwrites it.
+ * Pending saves are written straight away when switching files or unmounting.
+ */
+export const usePersistedViewState = ({
+  storage,
+  path,
+  state,
+  rootRef,
+  getScrollContainer,
+  onRestore,
+}: UsePersistedViewStateOptions): void => {
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const getScrollContainerRef = useRef(getScrollContainer);
+  getScrollContainerRef.current = getScrollContainer;
+
+  // File whose stored state has been restored, so its view is saved from now on
+  const [restoredPath, setRestoredPath] = useState<string | null>(null);
+  const isTracking = !!path && restoredPath === path;
+
+  // Last scroll offset seen, kept while the scroll container isn't shown (e.g. in slides mode)
+  const scrollTopRef = useRef<number>(0);
+  const pendingRef = useRef<{ path: string; state: MarkdownViewState } | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending) return;
+    storage.save(pending.path, pending.state).catch((err) => {
+      console.warn('[MarkdownPanel] Failed to save view state:', err);
+    });
+  }, [storage]);
+
+  const schedule = useCallback(
+    (filePath: string, viewState: Omit<MarkdownViewState, 'scrollTop'>) => {
+      const container = getScrollContainerRef.current();
+      if (container) {
+        scrollTopRef.current = container.scrollTop;
+      }
+      pendingRef.current = {
+        path: filePath,
+        state: { ...viewState, scrollTop: scrollTopRef.current },
+      };
+      if (!timerRef.current) {
+        timerRef.current = setTimeout(flush, SAVE_DELAY);
+      }
+    },
+    [flush]
+  );
+
+  // Restore the stored state when a file is shown, saving the previous file's first
+  useEffect(() => {
+    if (!path) return;
+
+    let cancelled = false;
+    storage
+      .load(path)
+      .catch((err) => {
+        console.warn('[MarkdownPanel] Failed to load view state:', err);
+        return null;
+      })
+      .then((saved) => {
+        if (cancelled) return;
+        scrollTopRef.current = saved?.scrollTop ?? 0;
+        if (saved) {
+          onRestoreRef.current(saved);
+        }
+        setRestoredPath(path);
+      });
+
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [path, storage, flush]);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const { sectionId, viewMode, slideIndex, fontSizeScale } = state;
+
+  useEffect(() => {
+    if (!isTracking || !path) return;
+    schedule(path, { sectionId, viewMode, slideIndex, fontSizeScale });
+  }, [isTracking, path, sectionId, viewMode, slideIndex, fontSizeScale, schedule]);
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!isTracking || !path || !root) return;
+
+    const handleScroll = (event: Event) => {
+      if (event.target === getScrollContainerRef.current()) {
+        schedule(path, stateRef.current);
+      }
+    };
+    // Scroll events don't bubble, so listen in the capture phase
+    root.addEventListener('scroll', handleScroll, true);
+    return () => root.removeEventListener('scroll', handleScroll, true);
+  }, [isTracking, path, rootRef, schedule]);
+};
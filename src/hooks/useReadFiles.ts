@@ -0,0 +1,42 @@
+import { useCallback, useRef } from 'react';
+
+/** Files read at the same time, so large repositories don't flood the host */
+const MAX_CONCURRENT_READS = 4;
+
+export interface ReadFilesHandlers {
+  /** Called with each file's content as soon as it has been read */
+  onRead: (path: string, content: string) => void;
+  /** Called for each file that can't be read */
+  onError: (path: string, error: unknown) => void;
+}
+
+/**
+ * useReadFiles - Reads batches of repository files a few at a time. The
+ * returned function keeps its identity when readFile changes (e.g. a new
+ * actions object), so effects depending on it don't read files again.
+ */
+export const useReadFiles = (
+  readFile: (path: string) => Promise<string>
+): ((paths: string[], handlers: ReadFilesHandlers) => void) => {
+  const readFileRef = useRef(readFile);
+  readFileRef.current = readFile;
+
+  return useCallback((paths: string[], { onRead, onError }: ReadFilesHandlers) => {
+    const queue = [...paths];
+    const readNext = async (): Promise<void> => {
+      const path = queue.shift();
+      if (path === undefined) return;
+      try {
+        onRead(path, await readFileRef.current(path));
+      } catch (err) {
+        onError(path, err);
+      }
+      return readNext();
+    };
+
+    const workers = Math.min(MAX_CONCURRENT_READS, queue.length);
+    for (let i = 0; i < workers; i++) {
+      readNext();
+    }
+  }, []);
+};
@@ -0,0 +1,56 @@
+import type { PanelEventEmitter, MarkdownViewMode } from '../types';
+import type { ChangesLayout } from '../components/ChangesView';
+import { useToolEvent } from './useToolEvent';
+
+export interface UseRenderedDiffToolOptions {
+  events: PanelEventEmitter;
+  changesLayout: ChangesLayout;
+  setChangesLayout: (layout: ChangesLayout) => void;
+  /** Whether there is content to compare with already (a revision or the last external change) */
+  hasChanges: boolean;
+  /** Revision the changes are shown since, or null for the last external change */
+  changesRevision: string | null;
+  changeViewMode: (mode: MarkdownViewMode) => void;
+  /** Read the file at a git revision and show the changes since it */
+  compareWithRevision: (ref: string) => Promise<{ success: boolean; message: string }>;
+}
+
+/**
+ * useRenderedDiffTool - Answers the show_rendered_diff tool
+ */
+export const useRenderedDiffTool = ({
+  events,
+  changesLayout,
+  setChangesLayout,
+  hasChanges,
+  changesRevision,
+  changeViewMode,
+  compareWithRevision,
+}: UseRenderedDiffToolOptions): void => {
+  useToolEvent<{ ref?: string; layout?: ChangesLayout }>(
+    events,
+    'industry-theme.markdown-panels:show-rendered-diff',
+    ({ ref, layout }) => {
+      const nextLayout = layout === 'unified' || layout === 'side-by-side' ? layout : changesLayout;
+      setChangesLayout(nextLayout);
+
+      if (!ref && hasChanges) {
+        changeViewMode('changes');
+        return {
+          success: true,
+          message: changesRevision
+            ? `Showing changes since ${changesRevision}`
+            : 'Showing the last external change',
+          ref: changesRevision,
+          layout: nextLayout,
+        };
+      }
+      const target = ref || 'HEAD';
+      return compareWithRevision(target).then((result) => ({
+        ...result,
+        ref: target,
+        layout: nextLayout,
+      }));
+    }
+  );
+};
@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { PanelEventEmitter } from '../types';
+import type { ContentChangeInfo } from '../panels/MarkdownPanel';
+import { createSearchIndex, type DocsSearchResult } from '../utils/searchIndex';
+import { toRepositoryPath } from '../utils/gitChanges';
+import { useReadFiles } from './useReadFiles';
+
+export interface UseSearchIndexOptions {
+  /** Documents to index */
+  paths: string[];
+  /** Read a repository file */
+  readFile: (path: string) => Promise<string>;
+  /** Event bus carrying `markdown-panel:content-changed` events */
+  events: PanelEventEmitter;
+  /** Absolute path of the repository, to match edited files' absolute paths to listed ones */
+  repositoryPath?: string;
+}
+
+export interface UseSearchIndexResult {
+  /** Search the documents indexed so far (a new function whenever the index changes) */
+  search: (query: string, limit?: number) => DocsSearchResult[];
+  /** Whether documents are still being read */
+  indexing: boolean;
+  /** Number of documents in the index */
+  documentCount: number;
+  /** Number of documents still to be read */
+  pendingCount: number;
+  /** Resolves with the number of documents indexed once every document known so far has been read */
+  waitForIndex: () => Promise<number>;
+}
+
+/**
+ * useSearchIndex - Keeps a full-text index of the given documents. Each path
+ * is read once; documents that leave the list are dropped, and listed
+ * documents edited in markdown panels are re-indexed from
+ * `markdown-panel:content-changed` events without being read again.
+ */
+export const useSearchIndex = ({
+  paths,
+  readFile,
+  events,
+  repositoryPath,
+}: UseSearchIndexOptions): UseSearchIndexResult => {
+  const [index] = useState(createSearchIndex);
+  // Replaced whenever the index changes, so results computed from it are recomputed
+  const [search, setSearch] = useState(() => index.search);
+  const [pendingCount, setPendingCount] = useState(0);
+  const requestedRef = useRef(new Set<string>());
+  const pathsRef = useRef(new Set<string>());
+  const pendingRef = useRef(0);
+  const waitersRef = useRef<Array<(documentCount: number) => void>>([]);
+  const readFiles = useReadFiles(readFile);
+
+  const indexChanged = useCallback(
+    () => setSearch(() => (query: string, limit?: number) => index.search(query, limit)),
+    [index]
+  );
+
+  const settle = useCallback(
+    (count: number) => {
+      pendingRef.current += count;
+      setPendingCount(pendingRef.current);
+      if (pendingRef.current === 0) {
+        waitersRef.current.forEach((resolve) => resolve(index.size));
+        waitersRef.current = [];
+      }
+    },
+    [index]
+  );
+
+  useEffect(() => {
+    const current = new Set(paths);
+    pathsRef.current = current;
+
+    // Drop documents that are no longer listed
+    let removed = false;
+    for (const path of requestedRef.current) {
+      if (!current.has(path)) {
+        requestedRef.current.delete(path);
+        if (index.has(path)) {
+          index.removeDocument(path);
+          removed = true;
+        }
+      }
+    }
+    if (removed) indexChanged();
+
+    const queue = paths.filter((path) => !requestedRef.current.has(path));
+    if (queue.length === 0) return;
+    queue.forEach((path) => requestedRef.current.add(path));
+    settle(queue.length);
+
+    readFiles(queue, {
+      onRead: (path, content) => {
+        // Skip documents removed, or already indexed from an edit, while being read
+        if (pathsRef.current.has(path) && !index.has(path)) {
+          index.addDocument(path, content);
+          indexChanged();
+        }
+        settle(-1);
+      },
+      onError: (path, err) => {
+        console.warn('[DocsSearchPanel] Failed to index document:', path, err);
+        settle(-1);
+      },
+    });
+  }, [paths, index, settle, indexChanged, readFiles]);
+
+  // Re-index listed documents edited in markdown panels
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:content-changed', (event) => {
+      const change = event.payload as ContentChangeInfo;
+      const path = pathsRef.current.has(change.path)
+        ? change.path
+        : toRepositoryPath(change.path, repositoryPath);
+      if (!pathsRef.current.has(path)) return;
+      index.addDocument(path, change.newContent);
+      indexChanged();
+    });
+    return unsubscribe;
+  }, [events, index, indexChanged, repositoryPath]);
+
+  const waitForIndex = useCallback(
+    () =>
+      new Promise<number>((resolve) => {
+        if (pendingRef.current === 0) {
+          resolve(index.size);
+        } else {
+          waitersRef.current.push(resolve);
+        }
+      }),
+    [index]
+  );
+
+  return {
+    search,
+    indexing: pendingCount > 0,
+    documentCount: index.size,
+    pendingCount,
+    waitForIndex,
+  };
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import type { RefObject } from 'react';
+import type { MarkdownHeading } from '../utils/markdownHeadings';
+import type { ChangedSection } from '../utils/gitChanges';
+import { useDomVersion } from './useDomVersion';
+
+export interface UseSectionGutterOptions {
+  /** Element wrapping the document view; its first child is the scroll container */
+  rootRef: RefObject<HTMLElement | null>;
+  /** Whether the document view is shown */
+  enabled: boolean;
+  /** Rendered markdown, so sections are measured again when the document changes */
+  content: string;
+  /** Every heading in the document, in order */
+  headings: MarkdownHeading[];
+  sections: ChangedSection[];
+}
+
+/**
+ * A bar in the gutter spanning a changed section
+ */
+export interface SectionGutterBar {
+  sectionId: string | null;
+  kind: ChangedSection['kind'];
+  /** Offset (px) from the top of the scroll container's content */
+  top: number;
+  height: number;
+}
+
+export interface UseSectionGutterResult {
+  /** The document view's scroll container, which bars are positioned in */
+  container: HTMLElement | null;
+  bars: SectionGutterBar[];
+}
+
+const sameBars = (a: SectionGutterBar[], b: SectionGutterBar[]): boolean =>
+  a.length === b.length &&
+  a.every(
+    (bar, i) =>
+      bar.sectionId === b[i].sectionId &&
+      bar.kind === b[i].kind &&
+      bar.top === b[i].top &&
+      bar.height === b[i].height
+  );
+
+/**
+ * useSectionGutter - Measures where changed sections are in the document
+ * view, from each section's heading to the next heading, so they can be
+ * marked in a gutter
+ */
+export const useSectionGutter = ({
+  rootRef,
+  enabled,
+  content,
+  headings,
+  sections,
+}: UseSectionGutterOptions): UseSectionGutterResult => {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [bars, setBars] = useState<SectionGutterBar[]>([]);
+  const active = enabled && sections.length > 0;
+  // Bumped when the rendered document changes or resizes so sections are measured again
+  const domVersion = useDomVersion(rootRef, active, { observeResize: true, content });
+
+  useEffect(() => {
+    const scrollContainer = (rootRef.current?.firstElementChild as HTMLElement | null) ?? null;
+    setContainer(scrollContainer);
+    if (!active || !scrollContainer) {
+      setBars((prev) => (prev.length === 0 ? prev : []));
+      return;
+    }
+
+    const containerTop = scrollContainer.getBoundingClientRect().top;
+    const offsetOf = (element: Element) =>
+      Math.round(element.getBoundingClientRect().top - containerTop + scrollContainer.scrollTop);
+    const headingTops = headings.map((heading) => {
+      const element = scrollContainer.querySelector(`[id="${CSS.escape(heading.slug)}"]`);
+      return element ? offsetOf(element) : null;
+    });
+
+    const nextBars = sections.flatMap((section): SectionGutterBar[] => {
+      const index = section.sectionId
+        ? headings.findIndex((heading) => heading.slug === section.sectionId)
+        : -1;
+      if (section.sectionId && index === -1) return [];
+      const top = index === -1 ? 0 : headingTops[index];
+      if (top === null) return [];
+      // The section ends where the next heading found in the view starts
+      const bottom =
+        headingTops.slice(index + 1).find((headingTop) => headingTop !== null) ??
+        scrollContainer.scrollHeight;
+      return bottom > top ? [{ ...section, top, height: bottom - top }] : [];
+    });
+
+    setBars((prev) => (sameBars(prev, nextBars) ? prev : nextBars));
+  }, [active, rootRef, content, headings, sections, domVersion]);
+
+  return { container, bars };
+};
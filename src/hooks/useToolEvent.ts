@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import type { PanelEventEmitter } from '../types';
+
+/**
+ * Payload of a tool result event
+ */
+export type ToolResult = Record<string, unknown>;
+
+/**
+ * useToolEvent - Answers a tool's panel events. The handler gets each event's
+ * payload and its result (or the result it resolves to) is emitted as
+ * `<type>:result`. The latest handler is always called, so it can read
+ * current state without subscribing again.
+ */
+export const useToolEvent = <TInput extends object>(
+  events: PanelEventEmitter,
+  type: string,
+  handler: (input: TInput) => ToolResult | Promise<ToolResult>,
+  source = 'markdown-panel'
+): void => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const emitResult = (payload: ToolResult) => {
+      events.emit({ type: `${type}:result`, source, timestamp: Date.now(), payload });
+    };
+    const unsubscribe = events.on(type, (event) => {
+      const result = handlerRef.current((event.payload || {}) as TInput);
+      if (result instanceof Promise) {
+        result.then(emitResult);
+      } else {
+        emitResult(result);
+      }
+    });
+    return unsubscribe;
+  }, [events, type, source]);
+};
@@ -0,0 +1,141 @@
+import type { PanelEventEmitter, MarkdownViewMode } from '../types';
+import type { MarkdownSlideRange } from '../utils/markdownSlides';
+import { useToolEvent } from './useToolEvent';
+
+/**
+ * Font scales for the named sizes accepted by the change_font_size tool
+ */
+const FONT_SIZE_PRESETS = {
+  small: 0.85,
+  medium: 1.0,
+  large: 1.25,
+} as const;
+
+type FontSizePreset = keyof typeof FONT_SIZE_PRESETS;
+
+/**
+ * Whether a tool argument names a preset (own keys only, so "toString" is rejected)
+ */
+const isFontSizePreset = (size: unknown): size is FontSizePreset =>
+  typeof size === 'string' && Object.prototype.hasOwnProperty.call(FONT_SIZE_PRESETS, size);
+
+/**
+ * Get the preset name closest to a font scale
+ */
+const getFontSizePreset = (scale: number): FontSizePreset => {
+  const presets = Object.keys(FONT_SIZE_PRESETS) as FontSizePreset[];
+  return presets.reduce((closest, preset) =>
+    Math.abs(FONT_SIZE_PRESETS[preset] - scale) < Math.abs(FONT_SIZE_PRESETS[closest] - scale)
+      ? preset
+      : closest
+  );
+};
+
+export interface UseViewerToolsOptions {
+  events: PanelEventEmitter;
+  /** Scroll to a section by ID, slug or heading text */
+  scrollToSection: (
+    sectionId: string,
+    behavior: ScrollBehavior
+  ) => { success: boolean; message: string };
+  viewMode: MarkdownViewMode;
+  changeViewMode: (mode: MarkdownViewMode) => void;
+  slides: MarkdownSlideRange[];
+  currentSlide: number;
+  changeSlide: (index: number) => void;
+  fontSizeScale: number;
+  setFontSizeScale: (scale: number) => void;
+}
+
+/**
+ * useViewerTools - Answers the scroll_to_section, navigate_slide and
+ * change_font_size tools
+ */
+export const useViewerTools = ({
+  events,
+  scrollToSection,
+  viewMode,
+  changeViewMode,
+  slides,
+  currentSlide,
+  changeSlide,
+  fontSizeScale,
+  setFontSizeScale,
+}: UseViewerToolsOptions): void => {
+  useToolEvent<{ sectionId?: string; animate?: boolean }>(
+    events,
+    'industry-theme.markdown-panels:scroll-to-section',
+    ({ sectionId, animate }) =>
+      sectionId
+        ? scrollToSection(sectionId, animate ? 'smooth' : 'auto')
+        : { success: false, message: 'sectionId is required' }
+  );
+
+  useToolEvent<{ slideIndex?: number; direction?: 'next' | 'previous' | 'first' | 'last' }>(
+    events,
+    'industry-theme.markdown-panels:navigate-slide',
+    ({ slideIndex, direction }) => {
+      const totalSlides = slides.length;
+
+      let target: number | null = null;
+      if (typeof slideIndex === 'number') {
+        target = slideIndex;
+      } else if (direction === 'next') {
+        target = currentSlide + 1;
+      } else if (direction === 'previous') {
+        target = currentSlide - 1;
+      } else if (direction === 'first') {
+        target = 0;
+      } else if (direction === 'last') {
+        target = totalSlides - 1;
+      }
+
+      if (target === null || !Number.isInteger(target) || target < 0 || target >= totalSlides) {
+        return {
+          success: false,
+          message:
+            target === null
+              ? 'Either slideIndex or direction is required'
+              : `Slide ${target} is out of range (0-${totalSlides - 1})`,
+          currentSlide,
+          totalSlides,
+        };
+      }
+
+      if (viewMode !== 'slides') {
+        changeViewMode('slides');
+      }
+      changeSlide(target);
+      return {
+        success: true,
+        message: `Navigated to slide ${target + 1} of ${totalSlides}`,
+        currentSlide: target,
+        totalSlides,
+      };
+    }
+  );
+
+  useToolEvent<{ size?: string }>(
+    events,
+    'industry-theme.markdown-panels:change-font-size',
+    ({ size }) => {
+      if (!isFontSizePreset(size)) {
+        return {
+          success: false,
+          message: `Unknown font size "${size ?? ''}" (expected small, medium or large)`,
+          currentSize: getFontSizePreset(fontSizeScale),
+        };
+      }
+
+      const newScale = FONT_SIZE_PRESETS[size];
+      setFontSizeScale(newScale);
+      events.emit({
+        type: 'markdown-panel:font-scale-change',
+        source: 'markdown-panel',
+        timestamp: Date.now(),
+        payload: { fontSizeScale: newScale },
+      });
+      return { success: true, message: `Font size set to ${size}`, currentSize: size };
+    }
+  );
+};
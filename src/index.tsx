@@ -1,16 +1,62 @@
 import { MarkdownPanel } from './panels/MarkdownPanel';
-import type { MarkdownPanelProps, ContentChangeInfo } from './panels/MarkdownPanel';
+import { MarkdownTabsPanel } from './panels/MarkdownTabsPanel';
+import type { MarkdownTabsPanelProps } from './panels/MarkdownTabsPanel';
+import { DocsBrowserPanel } from './panels/DocsBrowserPanel';
+import type { DocsBrowserPanelProps } from './panels/DocsBrowserPanel';
+import { DocsSearchPanel } from './panels/DocsSearchPanel';
+import type { DocsSearchPanelProps } from './panels/DocsSearchPanel';
+import { DocsGraphPanel } from './panels/DocsGraphPanel';
+import type { DocsGraphPanelProps } from './panels/DocsGraphPanel';
+import type {
+  MarkdownPanelProps,
+  ContentChangeInfo,
+  MarkdownExportAction,
+} from './panels/MarkdownPanel';
 import type {
   PanelDefinition,
   PanelContextValue,
   MarkdownPanelActions,
   MarkdownPanelContext,
+  MarkdownViewMode,
 } from './types';
-import { markdownPanelTools, markdownPanelToolsMetadata } from './tools';
+import { markdownPanelTools, markdownPanelToolsMetadata, docsSearchPanelTools } from './tools';
 
 // Export the component and its props type
 export { MarkdownPanel };
-export type { MarkdownPanelProps, ContentChangeInfo };
+export type { MarkdownPanelProps, ContentChangeInfo, MarkdownViewMode, MarkdownExportAction };
+export { MarkdownTabsPanel };
+export type { MarkdownTabsPanelProps };
+export { DocsBrowserPanel };
+export type { DocsBrowserPanelProps };
+export type { DocsTreeNode } from './utils/docsTree';
+export { DocsSearchPanel };
+export type { DocsSearchPanelProps };
+export type { DocsSearchResult, SearchSnippet } from './utils/searchIndex';
+export { DocsGraphPanel };
+export type { DocsGraphPanelProps };
+export type {
+  DocumentLink,
+  DocumentLinkGraph,
+  DocumentBacklinks,
+  LinkedDocument,
+} from './utils/linkGraph';
+export type { MarkdownTab } from './hooks/useMarkdownTabs';
+export type { MarkdownHeading } from './utils/markdownHeadings';
+export type { FindOptions, DocumentFindMatch } from './utils/findInDocument';
+export type { ContentChangeHunk, LineRange } from './utils/markdownDiff';
+export type { ChangesLayout } from './components/ChangesView';
+export type { MarkdownFrontmatter, FrontmatterFormat } from './utils/frontmatter';
+export type { MarkdownViewState } from './types';
+export type { ExportedDocument } from './utils/exportDocument';
+export type { DocumentStats } from './utils/markdownStats';
+export type { MarkdownOutlineNode } from './utils/markdownSections';
+export type { DocumentHighlight } from './utils/documentHighlights';
+export type { MarkdownAnnotation, MarkdownAnnotationAnchor } from './types';
+export type {
+  MarkdownDiagnostic,
+  MarkdownDiagnosticRule,
+  MarkdownDiagnosticSeverity,
+} from './utils/markdownDiagnostics';
 
 /**
  * Export array of panel definitions.
@@ -25,7 +71,7 @@ export const panels: PanelDefinition<MarkdownPanelActions, MarkdownPanelContext>
       version: '0.2.0',
       author: 'Principal ADE',
       description: 'Themed markdown rendering panel with document and slide views',
-      slices: ['active-file'],
+      slices: ['active-file', 'file-tree', 'git'],
       // UTCP-compatible tools this panel exposes
       tools: markdownPanelTools,
     },
@@ -43,6 +89,90 @@ export const panels: PanelDefinition<MarkdownPanelActions, MarkdownPanelContext>
       console.log('Markdown Panel unmounting');
     },
   },
+  {
+    metadata: {
+      id: 'principal-ade.markdown-tabs',
+      name: 'Markdown Tabs',
+      icon: '🗂️',
+      version: '0.1.0',
+      author: 'Principal ADE',
+      description: 'Several markdown documents in pinnable, reorderable tabs',
+      slices: ['active-file', 'file-tree', 'git'],
+      // The viewer's tools, answered by the focused tab
+      tools: markdownPanelTools,
+    },
+    component: MarkdownTabsPanel,
+
+    onMount: async (_context: PanelContextValue<MarkdownPanelContext>) => {
+      console.log('Markdown Tabs Panel mounted');
+    },
+
+    onUnmount: async (_context: PanelContextValue<MarkdownPanelContext>) => {
+      console.log('Markdown Tabs Panel unmounting');
+    },
+  },
+  {
+    metadata: {
+      id: 'principal-ade.docs-browser',
+      name: 'Docs Browser',
+      icon: '📚',
+      version: '0.1.0',
+      author: 'Principal ADE',
+      description: 'Browse markdown documents by title, most recently modified first',
+      slices: ['file-tree', 'markdown-files', 'active-file'],
+    },
+    component: DocsBrowserPanel,
+
+    onMount: async (_context: PanelContextValue<MarkdownPanelContext>) => {
+      console.log('Docs Browser Panel mounted');
+    },
+
+    onUnmount: async (_context: PanelContextValue<MarkdownPanelContext>) => {
+      console.log('Docs Browser Panel unmounting');
+    },
+  },
+  {
+    metadata: {
+      id: 'principal-ade.docs-search',
+      name: 'Docs Search',
+      icon: '🔎',
+      version: '0.1.0',
+      author: 'Principal ADE',
+      description: 'Search every markdown document in the repository by heading, text and code',
+      slices: ['file-tree', 'active-file'],
+      // UTCP-compatible tools this panel exposes
+      tools: docsSearchPanelTools,
+    },
+    component: DocsSearchPanel,
+
+    onMount: async (_context: PanelContextValue<MarkdownPanelContext>) => {
+      console.log('Docs Search Panel mounted');
+    },
+
+    onUnmount: async (_context: PanelContextValue<MarkdownPanelContext>) => {
+      console.log('Docs Search Panel unmounting');
+    },
+  },
+  {
+    metadata: {
+      id: 'principal-ade.docs-graph',
+      name: 'Docs Graph',
+      icon: '🕸️',
+      version: '0.1.0',
+      author: 'Principal ADE',
+      description: 'Graph of the links between markdown documents, with orphans and dangling links',
+      slices: ['file-tree', 'active-file'],
+    },
+    component: DocsGraphPanel,
+
+    onMount: async (_context: PanelContextValue<MarkdownPanelContext>) => {
+      console.log('Docs Graph Panel mounted');
+    },
+
+    onUnmount: async (_context: PanelContextValue<MarkdownPanelContext>) => {
+      console.log('Docs Graph Panel unmounting');
+    },
+  },
 ];
 
 /**
@@ -68,7 +198,19 @@ export const onPackageUnload = async () => {
 export {
   markdownPanelTools,
   markdownPanelToolsMetadata,
+  docsSearchPanelTools,
   scrollToSectionTool,
   navigateSlideTool,
   changeFontSizeTool,
+  findInDocumentTool,
+  exportDocumentTool,
+  getDocumentOutlineTool,
+  getSectionContentTool,
+  getVisibleSectionTool,
+  getActiveDocumentTool,
+  highlightTextTool,
+  clearHighlightsTool,
+  lintDocumentTool,
+  showRenderedDiffTool,
+  searchDocsTool,
 } from './tools';
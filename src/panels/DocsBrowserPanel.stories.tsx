@@ -0,0 +1,132 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { DocsBrowserPanel } from './DocsBrowserPanel';
+import { createMockContext, createMockActions, createMockEvents } from '../mocks/panelContext';
+import { ThemeProvider, slateTheme } from '@principal-ade/industry-theme';
+import type { DataSlice, DocsBrowserContext, FileTree, MarkdownFile } from '../types';
+
+const meta = {
+  title: 'Panels/DocsBrowserPanel',
+  component: DocsBrowserPanel,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <ThemeProvider theme={slateTheme}>
+        <div style={{ height: '100vh', width: '320px' }}>
+          <Story />
+        </div>
+      </ThemeProvider>
+    ),
+  ],
+} satisfies Meta<typeof DocsBrowserPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// In-memory repository for the stories
+const mockFiles: Record<string, string> = {
+  'README.md': '# My Project\n\nStart here.\n',
+  'CHANGELOG.md': '# Changelog\n\n## 0.3.0\n',
+  'docs/architecture.md': '---\ntitle: Architecture Overview\n---\n\n# Architecture\n',
+  'docs/runbooks/deploy.md': '# Deploying to Production\n',
+  'docs/runbooks/rollback.md': '# Rolling Back a Release\n',
+  'docs/notes.md': 'Notes without a heading.\n',
+};
+
+const mockFileTree: FileTree = {
+  name: 'my-project',
+  path: '',
+  type: 'directory',
+  children: [
+    { name: 'README.md', path: 'README.md', type: 'file' },
+    { name: 'CHANGELOG.md', path: 'CHANGELOG.md', type: 'file' },
+    { name: 'package.json', path: 'package.json', type: 'file' },
+    {
+      name: 'docs',
+      path: 'docs',
+      type: 'directory',
+      children: [
+        { name: 'architecture.md', path: 'docs/architecture.md', type: 'file' },
+        { name: 'notes.md', path: 'docs/notes.md', type: 'file' },
+        {
+          name: 'runbooks',
+          path: 'docs/runbooks',
+          type: 'directory',
+          children: [
+            { name: 'deploy.md', path: 'docs/runbooks/deploy.md', type: 'file' },
+            { name: 'rollback.md', path: 'docs/runbooks/rollback.md', type: 'file' },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const mockMarkdownFiles: MarkdownFile[] = [
+  { path: 'README.md', lastModified: Date.now() - 30 * DAY },
+  { path: 'CHANGELOG.md', title: 'Release Notes', lastModified: Date.now() - 2 * DAY },
+  { path: 'docs/runbooks/deploy.md', lastModified: Date.now() - DAY },
+  { path: 'docs/runbooks/rollback.md', lastModified: Date.now() - 10 * DAY },
+];
+
+const createSlice = <T,>(name: string, data: T | null): DataSlice<T> => ({
+  scope: 'repository',
+  name,
+  data,
+  loading: false,
+  error: null,
+  refresh: async () => {
+    console.log(`[Mock] Refreshing ${name} slice`);
+  },
+});
+
+const actions = {
+  ...createMockActions(),
+  readFile: async (path: string) => {
+    console.log('[Mock] Reading file:', path);
+    if (!(path in mockFiles)) throw new Error(`File not found: ${path}`);
+    return mockFiles[path];
+  },
+};
+
+export const Default: Story = {
+  args: {
+    context: createMockContext<DocsBrowserContext>({
+      fileTree: createSlice('file-tree', mockFileTree),
+      markdownFiles: createSlice('markdown-files', mockMarkdownFiles),
+    }),
+    actions,
+    events: createMockEvents(),
+  },
+};
+
+export const FileTreeOnly: Story = {
+  args: {
+    context: createMockContext<DocsBrowserContext>({
+      fileTree: createSlice('file-tree', mockFileTree),
+    }),
+    actions,
+    events: createMockEvents(),
+  },
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Without the markdown-files slice, titles are read from the documents and files are listed by name.',
+      },
+    },
+  },
+};
+
+export const Loading: Story = {
+  args: {
+    context: createMockContext<DocsBrowserContext>({
+      fileTree: { ...createSlice<FileTree>('file-tree', null), loading: true },
+    }),
+    actions,
+    events: createMockEvents(),
+  },
+};
@@ -0,0 +1,212 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { Search } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import type {
+  PanelComponentProps,
+  MarkdownFile,
+  MarkdownPanelActions,
+  DocsBrowserContext,
+} from '../types';
+import type { ContentChangeInfo } from './MarkdownPanel';
+import { DocsTree } from '../components/DocsTree';
+import { useDocumentTitles } from '../hooks/useDocumentTitles';
+import {
+  buildDocsTree,
+  collectMarkdownPaths,
+  filterDocsTree,
+  getDocumentTitle,
+} from '../utils/docsTree';
+
+export type DocsBrowserPanelProps = PanelComponentProps<MarkdownPanelActions, DocsBrowserContext>;
+
+/**
+ * No directories are collapsed while filtering, so every match is shown
+ */
+const NO_COLLAPSED_PATHS = new Set<string>();
+
+/**
+ * DocsBrowserPanel - Lists every markdown file in the repository as a tree
+ *
+ * - Builds the tree from the file-tree slice, merged with titles and
+ *   modification times from the optional markdown-files slice
+ * - Shows each document's title (frontmatter title or first heading),
+ *   reading documents through readFile when no title is known
+ * - Lists recently modified documents first
+ * - Filters documents by title or path
+ * - Opens documents with actions.openFile (which sets the active-file slice
+ *   shown by MarkdownPanel), or a `markdown-panel:open-file` event without it
+ * - Keeps titles and modification times current from `markdown-panel:content-changed` events
+ */
+export const DocsBrowserPanel: React.FC<DocsBrowserPanelProps> = ({ context, actions, events }) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState<string>('');
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(() => new Set());
+  // Titles and modification times of documents changed while the panel is shown
+  const [changes, setChanges] = useState<
+    Record<string, { title: string | null; lastModified: number }>
+  >({});
+
+  const fileTree = context.fileTree?.data;
+  const markdownFiles = context.markdownFiles?.data;
+  const loading = !!(context.fileTree?.loading || context.markdownFiles?.loading);
+  const error = context.fileTree?.error ?? context.markdownFiles?.error ?? null;
+  const activePath = context.activeFile?.data?.path ?? null;
+
+  // Every markdown file, with the metadata the host provides
+  const files = useMemo(() => {
+    const byPath = new Map<string, MarkdownFile>();
+    for (const file of markdownFiles ?? []) {
+      byPath.set(file.path, file);
+    }
+    for (const path of fileTree ? collectMarkdownPaths(fileTree) : []) {
+      if (!byPath.has(path)) byPath.set(path, { path, lastModified: 0 });
+    }
+    return [...byPath.values()];
+  }, [fileTree, markdownFiles]);
+
+  const untitledPaths = useMemo(
+    () => files.filter((file) => !file.title).map((file) => file.path),
+    [files]
+  );
+  const readTitles = useDocumentTitles({ paths: untitledPaths, readFile: actions.readFile });
+
+  const tree = useMemo(
+    () =>
+      buildDocsTree(
+        files.map((file) => {
+          const change = changes[file.path];
+          return {
+            path: file.path,
+            title: (change ? change.title : (file.title ?? readTitles[file.path])) ?? undefined,
+            lastModified: Math.max(file.lastModified, change?.lastModified ?? 0),
+          };
+        })
+      ),
+    [files, changes, readTitles]
+  );
+  const visibleTree = useMemo(() => filterDocsTree(tree, query), [tree, query]);
+
+  // Follow edits made in markdown panels
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:content-changed', (event) => {
+      const change = event.payload as ContentChangeInfo;
+      setChanges((prev) => ({
+        ...prev,
+        [change.path]: {
+          title: getDocumentTitle(change.newContent) ?? null,
+          lastModified: change.timestamp,
+        },
+      }));
+    });
+    return unsubscribe;
+  }, [events]);
+
+  const toggleDirectory = useCallback((path: string) => {
+    setCollapsedPaths((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  }, []);
+
+  const openDocument = useCallback(
+    (path: string) => {
+      if (actions.openFile) {
+        actions.openFile(path);
+        return;
+      }
+      events.emit({
+        type: 'markdown-panel:open-file',
+        source: 'docs-browser',
+        timestamp: Date.now(),
+        payload: { path },
+      });
+    },
+    [actions, events]
+  );
+
+  const message = error
+    ? `Error loading files: ${error.message}`
+    : loading && files.length === 0
+      ? 'Loading documents...'
+      : files.length === 0
+        ? 'No markdown files in this repository'
+        : visibleTree.length === 0
+          ? `No documents match "${query.trim()}"`
+          : null;
+
+  return (
+    <nav
+      aria-label="Documentation"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        height: '100%',
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '8px 12px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+        }}
+      >
+        <Search size={14} color={theme.colors.textSecondary} style={{ flexShrink: 0 }} />
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Escape') setQuery('');
+          }}
+          placeholder={`Filter ${files.length} document${files.length === 1 ? '' : 's'}`}
+          aria-label="Filter documents"
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: '4px 6px',
+            fontSize: '13px',
+            fontFamily: theme.fonts.body,
+            color: theme.colors.text,
+            backgroundColor: theme.colors.background,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: '4px',
+            outline: 'none',
+          }}
+        />
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '6px 0' }}>
+        {message ? (
+          <p
+            style={{
+              margin: 0,
+              padding: '8px 12px',
+              fontSize: '12px',
+              color: error ? theme.colors.error : theme.colors.textMuted,
+            }}
+          >
+            {message}
+          </p>
+        ) : (
+          <DocsTree
+            nodes={visibleTree}
+            collapsedPaths={query.trim() ? NO_COLLAPSED_PATHS : collapsedPaths}
+            activePath={activePath}
+            onToggleDirectory={toggleDirectory}
+            onOpen={openDocument}
+            theme={theme}
+          />
+        )}
+      </div>
+    </nav>
+  );
+};
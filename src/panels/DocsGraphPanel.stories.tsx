@@ -0,0 +1,142 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { DocsGraphPanel } from './DocsGraphPanel';
+import { createMockContext, createMockActions, createMockEvents } from '../mocks/panelContext';
+import { ThemeProvider, slateTheme } from '@principal-ade/industry-theme';
+import type { DataSlice, FileTree, MarkdownPanelContext } from '../types';
+
+const meta = {
+  title: 'Panels/DocsGraphPanel',
+  component: DocsGraphPanel,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <ThemeProvider theme={slateTheme}>
+        <div style={{ height: '100vh', width: '100vw' }}>
+          <Story />
+        </div>
+      </ThemeProvider>
+    ),
+  ],
+} satisfies Meta<typeof DocsGraphPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// In-memory repository for the stories
+const mockFiles: Record<string, string> = {
+  'README.md': `# My Project
+
+Start with the [architecture overview](docs/architecture.md), then read the
+[deploy runbook](docs/runbooks/deploy.md) and the [FAQ](docs/faq.md).
+`,
+  'docs/architecture.md': `---
+title: Architecture Overview
+---
+
+# Architecture
+
+Releases are described in the [deploy runbook](runbooks/deploy.md#deploy).
+Back to the [README](../README.md).
+`,
+  'docs/runbooks/deploy.md': `# Deploying to Production
+
+If something goes wrong, follow the [rollback runbook](rollback.md) and
+page the on-call engineer ([incidents](incidents.md)).
+`,
+  'docs/runbooks/rollback.md': `# Rolling Back a Release
+
+See the [architecture](../architecture.md) for how builds are promoted.
+`,
+  'docs/runbooks/incidents.md': `# Incident Response
+
+Usually starts with a [rollback](./rollback.md).
+`,
+  'docs/notes/2023-offsite.md': `# 2023 Offsite Notes
+
+Nothing links here, so this document is an orphan.
+`,
+};
+
+const mockFileTree: FileTree = {
+  name: 'my-project',
+  path: '',
+  type: 'directory',
+  children: [
+    { name: 'README.md', path: 'README.md', type: 'file' },
+    {
+      name: 'docs',
+      path: 'docs',
+      type: 'directory',
+      children: [
+        { name: 'architecture.md', path: 'docs/architecture.md', type: 'file' },
+        {
+          name: 'notes',
+          path: 'docs/notes',
+          type: 'directory',
+          children: [{ name: '2023-offsite.md', path: 'docs/notes/2023-offsite.md', type: 'file' }],
+        },
+        {
+          name: 'runbooks',
+          path: 'docs/runbooks',
+          type: 'directory',
+          children: [
+            { name: 'deploy.md', path: 'docs/runbooks/deploy.md', type: 'file' },
+            { name: 'rollback.md', path: 'docs/runbooks/rollback.md', type: 'file' },
+            { name: 'incidents.md', path: 'docs/runbooks/incidents.md', type: 'file' },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const createSlice = <T,>(name: string, data: T | null): DataSlice<T> => ({
+  scope: 'repository',
+  name,
+  data,
+  loading: false,
+  error: null,
+  refresh: async () => {
+    console.log(`[Mock] Refreshing ${name} slice`);
+  },
+});
+
+const actions = {
+  ...createMockActions(),
+  readFile: async (path: string) => {
+    console.log('[Mock] Reading file:', path);
+    if (!(path in mockFiles)) throw new Error(`File not found: ${path}`);
+    return mockFiles[path];
+  },
+};
+
+export const Default: Story = {
+  args: {
+    context: createMockContext<MarkdownPanelContext>({
+      fileTree: createSlice('file-tree', mockFileTree),
+    }),
+    actions,
+    events: createMockEvents(),
+  },
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'The README links to a missing FAQ (a dangling link), and the offsite notes are an orphan.',
+      },
+    },
+  },
+};
+
+export const Loading: Story = {
+  args: {
+    context: createMockContext<MarkdownPanelContext>({
+      fileTree: { ...createSlice<FileTree>('file-tree', null), loading: true },
+    }),
+    actions,
+    events: createMockEvents(),
+  },
+};
@@ -0,0 +1,239 @@
+import React, { useMemo, useCallback } from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { TransformWrapper, TransformComponent, useControls } from 'react-zoom-pan-pinch';
+import { useTheme } from '@principal-ade/industry-theme';
+import type { Theme } from '@principal-ade/industry-theme';
+import type { PanelComponentProps, MarkdownPanelActions, MarkdownPanelContext } from '../types';
+import { LinkGraphView } from '../components/LinkGraphView';
+import type { LinkGraphEdge, LinkGraphNode } from '../components/LinkGraphView';
+import { useDocumentLinks } from '../hooks/useDocumentLinks';
+import { collectMarkdownPaths } from '../utils/docsTree';
+import { buildLinkGraph } from '../utils/linkGraph';
+import { layoutGraph } from '../utils/graphLayout';
+
+export type DocsGraphPanelProps = PanelComponentProps<MarkdownPanelActions, MarkdownPanelContext>;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Zoom buttons, which must be rendered inside the TransformWrapper
+ */
+const GraphControls: React.FC<{ theme: Theme }> = ({ theme }) => {
+  const { zoomIn, zoomOut, fitToView } = useControls();
+  const buttonStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '26px',
+    height: '26px',
+    padding: 0,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: '4px',
+    backgroundColor: theme.colors.background,
+    color: theme.colors.textSecondary,
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '8px',
+        right: '8px',
+        zIndex: 1,
+        display: 'flex',
+        gap: '4px',
+      }}
+    >
+      <button onClick={() => zoomIn()} title="Zoom in" aria-label="Zoom in" style={buttonStyle}>
+        <ZoomIn size={14} />
+      </button>
+      <button onClick={() => zoomOut()} title="Zoom out" aria-label="Zoom out" style={buttonStyle}>
+        <ZoomOut size={14} />
+      </button>
+      <button
+        onClick={() => fitToView()}
+        title="Fit graph"
+        aria-label="Fit graph"
+        style={buttonStyle}
+      >
+        <Maximize size={14} />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * DocsGraphPanel - Graph of the links between the repository's markdown documents
+ *
+ * - Reads every markdown file in the file-tree slice through readFile and
+ *   draws documents as nodes and relative links as arrows
+ * - Highlights orphans (documents no other document links to) and dangling
+ *   links (links to documents that don't exist, drawn to a missing node)
+ * - Pans and zooms with react-zoom-pan-pinch
+ * - Opens documents with actions.openFile, or a `markdown-panel:open-file` event without it
+ * - Follows edits made in markdown panels from `markdown-panel:content-changed` events
+ */
+export const DocsGraphPanel: React.FC<DocsGraphPanelProps> = ({ context, actions, events }) => {
+  const { theme } = useTheme();
+
+  const fileTree = context.fileTree?.data;
+  const error = context.fileTree?.error ?? null;
+  const activePath = context.activeFile?.data?.path ?? null;
+
+  const paths = useMemo(() => (fileTree ? collectMarkdownPaths(fileTree) : []), [fileTree]);
+  const { documents, loading } = useDocumentLinks({
+    paths,
+    readFile: actions.readFile,
+    events,
+    repositoryPath: context.currentScope?.repository?.path,
+  });
+  const isLoading = loading || !!context.fileTree?.loading;
+
+  const graph = useMemo(() => buildLinkGraph(documents), [documents]);
+
+  const { nodes, edges } = useMemo(() => {
+    const orphans = new Set(graph.orphans);
+    const graphNodes: LinkGraphNode[] = graph.documents.map((path) => ({
+      id: path,
+      label: documents[path]?.title || path.split('/').pop() || path,
+      orphan: orphans.has(path),
+      missing: false,
+    }));
+    const graphEdges: LinkGraphEdge[] = graph.links.map((link) => ({
+      source: link.source,
+      target: link.target,
+      dangling: false,
+    }));
+
+    const missing = new Set<string>();
+    const danglingEdges = new Set<string>();
+    for (const link of graph.danglingLinks) {
+      if (!missing.has(link.target)) {
+        missing.add(link.target);
+        graphNodes.push({
+          id: link.target,
+          label: link.target.split('/').pop() || link.target,
+          orphan: false,
+          missing: true,
+        });
+      }
+      const key = `${link.source}->${link.target}`;
+      if (!danglingEdges.has(key)) {
+        danglingEdges.add(key);
+        graphEdges.push({ source: link.source, target: link.target, dangling: true });
+      }
+    }
+    return { nodes: graphNodes, edges: graphEdges };
+  }, [graph, documents]);
+
+  // Laying out is the slow part, so wait until every document has been read
+  const layout = useMemo(
+    () =>
+      isLoading
+        ? null
+        : layoutGraph(
+            nodes.map((node) => node.id),
+            edges.map((edge) => [edge.source, edge.target])
+          ),
+    [isLoading, nodes, edges]
+  );
+
+  const openDocument = useCallback(
+    (path: string) => {
+      if (actions.openFile) {
+        actions.openFile(path);
+        return;
+      }
+      events.emit({
+        type: 'markdown-panel:open-file',
+        source: 'docs-graph',
+        timestamp: Date.now(),
+        payload: { path },
+      });
+    },
+    [actions, events]
+  );
+
+  const message = error
+    ? `Error loading files: ${error.message}`
+    : isLoading
+      ? 'Reading documents...'
+      : paths.length === 0
+        ? 'No markdown files in this repository'
+        : null;
+
+  const danglingCount = graph.danglingLinks.length;
+
+  return (
+    <section
+      aria-label="Document link graph"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        height: '100%',
+        backgroundColor: theme.colors.background,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <div
+        role="status"
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '4px 12px',
+          padding: '6px 12px',
+          fontSize: '12px',
+          color: theme.colors.textSecondary,
+          backgroundColor: theme.colors.backgroundSecondary,
+          borderBottom: `1px solid ${theme.colors.border}`,
+        }}
+      >
+        <span>{plural(graph.documents.length, 'document')}</span>
+        <span>{plural(graph.links.length, 'link')}</span>
+        <span style={{ color: graph.orphans.length > 0 ? theme.colors.warning : undefined }}>
+          {plural(graph.orphans.length, 'orphan')}
+        </span>
+        <span style={{ color: danglingCount > 0 ? theme.colors.error : undefined }}>
+          {plural(danglingCount, 'dangling link')}
+        </span>
+      </div>
+
+      <div style={{ position: 'relative', flex: 1, minHeight: 0 }}>
+        {message || !layout ? (
+          <p
+            style={{
+              margin: 0,
+              padding: '8px 12px',
+              fontSize: '12px',
+              color: error ? theme.colors.error : theme.colors.textMuted,
+            }}
+          >
+            {message}
+          </p>
+        ) : (
+          <TransformWrapper
+            minScale={0.1}
+            maxScale={4}
+            limitToBounds={false}
+            fitOnInit
+            doubleClick={{ disabled: true }}
+          >
+            <GraphControls theme={theme} />
+            <TransformComponent wrapperStyle={{ width: '100%', height: '100%' }}>
+              <LinkGraphView
+                nodes={nodes}
+                edges={edges}
+                layout={layout}
+                activePath={activePath}
+                onOpen={openDocument}
+                theme={theme}
+              />
+            </TransformComponent>
+          </TransformWrapper>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,154 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { DocsSearchPanel } from './DocsSearchPanel';
+import { createMockContext, createMockActions, createMockEvents } from '../mocks/panelContext';
+import { ThemeProvider, slateTheme } from '@principal-ade/industry-theme';
+import type { DataSlice, DocsSearchContext, FileTree } from '../types';
+
+const meta = {
+  title: 'Panels/DocsSearchPanel',
+  component: DocsSearchPanel,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <ThemeProvider theme={slateTheme}>
+        <div style={{ height: '100vh', width: '360px' }}>
+          <Story />
+        </div>
+      </ThemeProvider>
+    ),
+  ],
+} satisfies Meta<typeof DocsSearchPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// In-memory repository for the stories
+const mockFiles: Record<string, string> = {
+  'README.md': `# My Project
+
+A toolkit for shipping releases safely.
+
+## Getting Started
+
+Install the CLI, then run \`deploy --dry-run\` to check your configuration.
+`,
+  'docs/architecture.md': `---
+title: Architecture Overview
+---
+
+# Architecture
+
+## Release Pipeline
+
+Every release is built once and promoted through staging and production.
+
+### Rollback
+
+Rolling back re-promotes the previous build; nothing is rebuilt.
+`,
+  'docs/runbooks/deploy.md': `# Deploying to Production
+
+## Before You Start
+
+Check that staging is healthy and the release notes are approved.
+
+## Deploy
+
+\`\`\`bash
+deploy --env production --release v1.4.0
+\`\`\`
+
+## Rollback
+
+If error rates rise after a deploy, roll back immediately:
+
+\`\`\`bash
+deploy rollback --env production
+\`\`\`
+`,
+  'docs/runbooks/incidents.md': `# Incident Response
+
+Page the on-call engineer, then open an incident channel. A rollback is
+usually the fastest mitigation for a bad deploy.
+`,
+};
+
+const mockFileTree: FileTree = {
+  name: 'my-project',
+  path: '',
+  type: 'directory',
+  children: [
+    { name: 'README.md', path: 'README.md', type: 'file' },
+    { name: 'package.json', path: 'package.json', type: 'file' },
+    {
+      name: 'docs',
+      path: 'docs',
+      type: 'directory',
+      children: [
+        { name: 'architecture.md', path: 'docs/architecture.md', type: 'file' },
+        {
+          name: 'runbooks',
+          path: 'docs/runbooks',
+          type: 'directory',
+          children: [
+            { name: 'deploy.md', path: 'docs/runbooks/deploy.md', type: 'file' },
+            { name: 'incidents.md', path: 'docs/runbooks/incidents.md', type: 'file' },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const createSlice = <T,>(name: string, data: T | null): DataSlice<T> => ({
+  scope: 'repository',
+  name,
+  data,
+  loading: false,
+  error: null,
+  refresh: async () => {
+    console.log(`[Mock] Refreshing ${name} slice`);
+  },
+});
+
+const actions = {
+  ...createMockActions(),
+  readFile: async (path: string) => {
+    console.log('[Mock] Reading file:', path);
+    // Simulate a slow host so indexing progress is visible
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    if (!(path in mockFiles)) throw new Error(`File not found: ${path}`);
+    return mockFiles[path];
+  },
+};
+
+export const Default: Story = {
+  args: {
+    context: createMockContext<DocsSearchContext>({
+      fileTree: createSlice('file-tree', mockFileTree),
+    }),
+    actions,
+    events: createMockEvents(),
+  },
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Try "rollback": sections titled Rollback rank above sections that only mention it in text or code.',
+      },
+    },
+  },
+};
+
+export const Loading: Story = {
+  args: {
+    context: createMockContext<DocsSearchContext>({
+      fileTree: { ...createSlice<FileTree>('file-tree', null), loading: true },
+    }),
+    actions,
+    events: createMockEvents(),
+  },
+};
@@ -0,0 +1,204 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { Search } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import type { PanelComponentProps, MarkdownPanelActions, DocsSearchContext } from '../types';
+import { SearchResultList } from '../components/SearchResultList';
+import { useSearchIndex } from '../hooks/useSearchIndex';
+import { useToolEvent } from '../hooks/useToolEvent';
+import { collectMarkdownPaths } from '../utils/docsTree';
+import type { DocsSearchResult } from '../utils/searchIndex';
+import { getRequestId } from '../utils/toolRequests';
+
+export type DocsSearchPanelProps = PanelComponentProps<MarkdownPanelActions, DocsSearchContext>;
+
+/** Results shown in the panel */
+const MAX_RESULTS = 50;
+
+/**
+ * DocsSearchPanel - Full-text search across every markdown file in the repository
+ *
+ * - Indexes the markdown files in the file-tree slice, read through readFile
+ * - Ranks sections with matches in headings above body text, and body text above code
+ * - Shows each result's document, heading breadcrumb and a snippet with the matches marked
+ * - Opens a result at its section with a `markdown-panel:open-location` event
+ *   (handled by MarkdownPanel); Enter opens the selected result, arrows move the selection
+ * - Re-indexes documents from `markdown-panel:content-changed` events, so
+ *   edits are searchable without reading the repository again
+ * - Answers the search_docs tool
+ */
+export const DocsSearchPanel: React.FC<DocsSearchPanelProps> = ({ context, actions, events }) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState<string>('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const fileTree = context.fileTree?.data;
+  const loading = !!context.fileTree?.loading;
+  const error = context.fileTree?.error ?? null;
+
+  const paths = useMemo(() => (fileTree ? collectMarkdownPaths(fileTree) : []), [fileTree]);
+  const { search, indexing, documentCount, pendingCount, waitForIndex } = useSearchIndex({
+    paths,
+    readFile: actions.readFile,
+    events,
+    repositoryPath: context.currentScope?.repository?.path,
+  });
+
+  const results = useMemo(() => search(query, MAX_RESULTS), [search, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  const openResult = useCallback(
+    (result: DocsSearchResult) => {
+      events.emit({
+        type: 'markdown-panel:open-location',
+        source: 'docs-search',
+        timestamp: Date.now(),
+        payload: { path: result.path, sectionId: result.sectionId },
+      });
+    },
+    [events]
+  );
+
+  // Handle search_docs tool invocations
+  useToolEvent<{ query?: string; limit?: number; requestId?: string }>(
+    events,
+    'industry-theme.markdown-panels:search-docs',
+    ({ query: toolQuery, limit, requestId }) => {
+      const request = { requestId: getRequestId(requestId), query: toolQuery ?? '' };
+
+      if (!toolQuery?.trim()) {
+        return { ...request, success: false, message: 'query is required', results: [] };
+      }
+
+      // Answer once every listed document has been read, so results are complete
+      return waitForIndex().then((indexedDocuments) => {
+        // Anything but a positive count falls back to the default limit
+        const resultLimit =
+          typeof limit === 'number' && Number.isFinite(limit) && limit >= 1
+            ? Math.floor(limit)
+            : undefined;
+        const found = search(toolQuery, resultLimit);
+        return {
+          ...request,
+          success: true,
+          message: `Found ${found.length} matching section${found.length === 1 ? '' : 's'}`,
+          indexedDocuments,
+          results: found.map((result) => ({
+            path: result.path,
+            title: result.title,
+            sectionId: result.sectionId,
+            breadcrumb: result.breadcrumb,
+            line: result.line,
+            score: result.score,
+            snippet: result.snippet.text,
+          })),
+        };
+      });
+    },
+    'docs-search'
+  );
+
+  const status = error
+    ? `Error loading files: ${error.message}`
+    : loading && paths.length === 0
+      ? 'Loading documents...'
+      : paths.length === 0
+        ? 'No markdown files in this repository'
+        : indexing
+          ? `Indexing documents... (${paths.length - pendingCount} of ${paths.length})`
+          : `${documentCount} document${documentCount === 1 ? '' : 's'} indexed`;
+
+  return (
+    <section
+      aria-label="Search documentation"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        height: '100%',
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '8px 12px',
+          borderBottom: `1px solid ${theme.colors.border}`,
+        }}
+      >
+        <Search size={14} color={theme.colors.textSecondary} style={{ flexShrink: 0 }} />
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Escape') {
+              setQuery('');
+            } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+              event.preventDefault();
+              const step = event.key === 'ArrowDown' ? 1 : -1;
+              setSelectedIndex((index) =>
+                Math.min(Math.max(index + step, 0), Math.max(results.length - 1, 0))
+              );
+            } else if (event.key === 'Enter' && results[selectedIndex]) {
+              openResult(results[selectedIndex]);
+            }
+          }}
+          placeholder="Search docs"
+          aria-label="Search documentation"
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: '4px 6px',
+            fontSize: '13px',
+            fontFamily: theme.fonts.body,
+            color: theme.colors.text,
+            backgroundColor: theme.colors.background,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: '4px',
+            outline: 'none',
+          }}
+        />
+      </div>
+
+      <p
+        role="status"
+        style={{
+          margin: 0,
+          padding: '4px 12px',
+          fontSize: '11px',
+          color: error ? theme.colors.error : theme.colors.textMuted,
+          borderBottom: `1px solid ${theme.colors.border}`,
+        }}
+      >
+        {status}
+      </p>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '6px 0' }}>
+        {query.trim() && results.length === 0 ? (
+          <p
+            style={{
+              margin: 0,
+              padding: '8px 12px',
+              fontSize: '12px',
+              color: theme.colors.textMuted,
+            }}
+          >
+            {indexing ? 'No matches yet' : `No sections match "${query.trim()}"`}
+          </p>
+        ) : (
+          <SearchResultList
+            results={results}
+            selectedIndex={selectedIndex}
+            onOpen={openResult}
+            theme={theme}
+          />
+        )}
+      </div>
+    </section>
+  );
+};
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { MarkdownPanel, type ContentChangeInfo } from './MarkdownPanel';
-import { createMockPanelContext, createMockContext, createMockActions, createMockEvents } from '../mocks/panelContext';
+import { createMockPanelContext, createMockContext, createMockActions, createMockEvents, mockGitStatus } from '../mocks/panelContext';
 import { ThemeProvider, slateTheme } from '@principal-ade/industry-theme';
 import { createFileTreeSource } from '@principal-ai/repository-abstraction';
 
@@ -136,6 +136,9 @@ const createMarkdownContext = (content: string, filename = 'README.md') => {
         console.log('[Mock] Reading file:', path);
         return content;
       },
+      writeFile: async (path: string, newContent: string) => {
+        console.log('[Mock] Writing file:', path, `${newContent.length} chars`);
+      },
     },
   };
 
@@ -177,6 +180,86 @@ export const NoFile: Story = {
   })(),
 };
 
+export const GitChanges: Story = {
+  args: (() => {
+    const markdownContext = createMarkdownContext(sampleMarkdown);
+    return {
+      ...markdownContext,
+      context: {
+        ...markdownContext.context,
+        currentScope: {
+          type: 'repository' as const,
+          repository: { name: 'my-project', path: '/Users/example/my-project' },
+        },
+        git: {
+          scope: 'repository' as const,
+          name: 'git',
+          data: {
+            status: mockGitStatus,
+            lineChanges: {
+              'README.md': [
+                { kind: 'added' as const, startLine: 8, endLine: 9 },
+                { kind: 'modified' as const, startLine: 18, endLine: 18 },
+                { kind: 'deleted' as const, startLine: 37, endLine: 37 },
+              ],
+            },
+          },
+          loading: false,
+          error: null,
+          refresh: async () => {
+            console.log('[Mock] Refreshing git slice');
+          },
+        },
+      },
+    };
+  })(),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'README.md has unstaged changes: the toolbar shows its status with a view diff button, and changed sections are marked in the left gutter.',
+      },
+    },
+  },
+};
+
+export const RevisionDiff: Story = {
+  args: (() => {
+    const markdownContext = createMarkdownContext(sampleMarkdown);
+    // README.md as committed at HEAD
+    const headContent = sampleMarkdown
+      .replace('with industry theming support', 'with basic theming')
+      .replace('- Font size controls\n', '- Font size controls\n- Print support\n')
+      .replace("greet('World');", "greet('Markdown');")
+      .replace('2. Second step', '2. Second step, if needed');
+    return {
+      ...markdownContext,
+      context: {
+        ...markdownContext.context,
+        currentScope: {
+          type: 'repository' as const,
+          repository: { name: 'my-project', path: '/Users/example/my-project' },
+        },
+      },
+      actions: {
+        ...markdownContext.actions,
+        readFileAtRevision: async (path: string, ref: string) => {
+          console.log('[Mock] Reading file at revision:', path, ref);
+          return headContent;
+        },
+      },
+    };
+  })(),
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'The host can read files at a git revision: the compare button shows the words and blocks changed since HEAD, in one document or side by side.',
+      },
+    },
+  },
+};
+
 // Content versions for simulating file changes
 const contentVersions = [
   {
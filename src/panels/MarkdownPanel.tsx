@@ -1,25 +1,159 @@
-import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Plus, Minus } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  Plus,
+  Minus,
+  Presentation,
+  FileText,
+  ListTree,
+  Search,
+  Download,
+  Printer,
+  GitCompare,
+  Pencil,
+  ArrowLeft,
+  ArrowRight,
+  MessageSquare,
+  MessageSquarePlus,
+} from 'lucide-react';
 import { useTheme } from '@principal-ade/industry-theme';
 import { DocumentView } from 'themed-markdown';
+import type { Annotation, AnnotationSelection } from 'themed-markdown';
 import type { RepositoryInfo } from '@principal-ade/markdown-utils';
 import 'themed-markdown/dist/index.css';
 import type {
   PanelComponentProps,
   ActiveFileSlice,
+  MarkdownFile,
   MarkdownPanelActions,
   MarkdownPanelContext,
+  MarkdownViewMode,
+  MarkdownViewState,
+  MarkdownAnnotation,
+  MarkdownAnnotationAnchor,
 } from '../types';
+import { extractHeadings, slugify } from '../utils/markdownHeadings';
+import type { MarkdownHeading } from '../utils/markdownHeadings';
+import { splitMarkdownIntoSlides } from '../utils/markdownSlides';
+import { SlideView } from '../components/SlideView';
+import { OutlineSidebar } from '../components/OutlineSidebar';
+import { findTaskLine, setTaskChecked } from '../utils/taskList';
+import { FindBar } from '../components/FindBar';
+import { useDocumentFind } from '../hooks/useDocumentFind';
+import type { FindOptions } from '../utils/findInDocument';
+import { ChangesView } from '../components/ChangesView';
+import type { ChangesLayout } from '../components/ChangesView';
+import { diffMarkdownBlocks, computeChangeHunks } from '../utils/markdownDiff';
+import type { ContentChangeHunk } from '../utils/markdownDiff';
+import { SplitEditor } from '../components/SplitEditor';
+import { getBasePath, isExternalHref, isMarkdownPath, resolveLink } from '../utils/markdownLinks';
+import { useNavigationHistory } from '../hooks/useNavigationHistory';
+import { useAssetResolver } from '../hooks/useAssetResolver';
+import { useMermaidDiagrams } from '../hooks/useMermaidDiagrams';
+import { useMathRenderer } from '../hooks/useMathRenderer';
+import { prepareMath } from '../utils/markdownMath';
+import { extractFrontmatter, getFrontmatterTitle } from '../utils/frontmatter';
+import { FrontmatterCard } from '../components/FrontmatterCard';
+import { usePersistedViewState } from '../hooks/usePersistedViewState';
+import { getViewStateStorage } from '../utils/viewStateStorage';
+import {
+  downloadHtml,
+  exportDocumentHtml,
+  getExportFileName,
+  printHtml,
+} from '../utils/exportDocument';
+import type { ExportedDocument } from '../utils/exportDocument';
+import { getDocumentStats } from '../utils/markdownStats';
+import type { DocumentStats } from '../utils/markdownStats';
+import type { NavigationEntry } from '../hooks/useNavigationHistory';
+import { useDocumentHighlights } from '../hooks/useDocumentHighlights';
+import { getSectionIdAt, resolveHighlightRange } from '../utils/documentHighlights';
+import type { DocumentHighlight, HighlightRequest } from '../utils/documentHighlights';
+import { HighlightCallout } from '../components/HighlightCallout';
+import { useAnnotationAnchors } from '../hooks/useAnnotationAnchors';
+import { createAnnotationId, normalizeAnnotations } from '../utils/annotations';
+import { CommentMarker } from '../components/CommentMarker';
+import { CommentComposer } from '../components/CommentComposer';
+import { CommentsSidebar } from '../components/CommentsSidebar';
+import { useDocumentDiagnostics } from '../hooks/useDocumentDiagnostics';
+import { countDiagnostics } from '../utils/markdownDiagnostics';
+import type { MarkdownDiagnostic } from '../utils/markdownDiagnostics';
+import { DiagnosticsStrip } from '../components/DiagnosticsStrip';
+import { ReadingProgress } from '../components/ReadingProgress';
+import { useDocumentLinks } from '../hooks/useDocumentLinks';
+import type { UseDocumentLinksResult } from '../hooks/useDocumentLinks';
+import { getBacklinks } from '../utils/linkGraph';
+import type { DocumentLink } from '../utils/linkGraph';
+import { collectMarkdownPaths } from '../utils/docsTree';
+import { BacklinksStrip } from '../components/BacklinksStrip';
+import { getChangedSections, getFileGitStatuses, toRepositoryPath } from '../utils/gitChanges';
+import { useSectionGutter } from '../hooks/useSectionGutter';
+import { useViewerTools } from '../hooks/useViewerTools';
+import { useFindTool } from '../hooks/useFindTool';
+import { useExportTool } from '../hooks/useExportTool';
+import { useHighlightTools } from '../hooks/useHighlightTools';
+import { useRenderedDiffTool } from '../hooks/useRenderedDiffTool';
+import { useDocumentTools } from '../hooks/useDocumentTools';
+import { useLintTool } from '../hooks/useLintTool';
+import { GitStatusBadge } from '../components/GitStatusBadge';
+import { GitChangeGutter } from '../components/GitChangeGutter';
 
 /**
- * Get the directory path (everything except the filename)
+ * Distance (px) below the top of the view at which a heading counts as the active section
  */
-const getBasePath = (filePath: string): string => {
-  const parts = filePath.split('/');
-  parts.pop(); // Remove filename
-  return parts.join('/');
+const ACTIVE_SECTION_OFFSET = 80;
+
+/**
+ * Short hash (FNV-1a) identifying a version of the document, so agents can
+ * tell whether it changed between tool calls
+ */
+const getContentRevision = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
 };
 
+/**
+ * Frames to wait for the document view to render after switching to it from
+ * another view (to export it or draw a highlight)
+ */
+const DOCUMENT_VIEW_RENDER_FRAMES = 30;
+
+/**
+ * Shared empty list, so documents without highlights don't redraw them
+ */
+const NO_HIGHLIGHTS: DocumentHighlight[] = [];
+
+/**
+ * Shared empty list for documents without comments
+ */
+const NO_ANNOTATIONS: MarkdownAnnotation[] = [];
+
+/**
+ * What happens to an exported document
+ * - download: save it as an .html file
+ * - print: open the print dialog (print to PDF)
+ * - none: only publish it in the `markdown-panel:exported` event
+ */
+export type MarkdownExportAction = 'download' | 'print' | 'none';
+
+/**
+ * Unsaved edits to a file
+ */
+interface EditDraft {
+  /** Text in the editor */
+  content: string;
+  /** File content the edits are based on (the last loaded or saved content) */
+  baseContent: string;
+  /** Content found on disk that conflicts with unsaved edits */
+  conflictContent: string | null;
+  saving: boolean;
+  saveError: string | null;
+}
+
 /**
  * Information about a content change event
  */
@@ -32,6 +166,22 @@ export interface ContentChangeInfo {
   newContent: string;
   /** Character count difference (positive = added, negative = removed) */
   charDiff: number;
+  /** Parsed frontmatter before the change (null if there was none or it didn't parse) */
+  previousFrontmatter: Record<string, unknown> | null;
+  /** Parsed frontmatter after the change (null if there is none or it doesn't parse) */
+  frontmatter: Record<string, unknown> | null;
+  /** Size of the document before the change */
+  previousStats: DocumentStats;
+  /** Size of the document after the change */
+  stats: DocumentStats;
+  /** Block-level hunks describing what changed and in which sections */
+  hunks: ContentChangeHunk[];
+  /**
+   * What caused the change
+   * - save: the panel wrote the content (editor save or task list toggle)
+   * - external: the file was changed by something else
+   */
+  source: 'save' | 'external';
   /** Timestamp of when the change was detected */
   timestamp: number;
 }
@@ -50,11 +200,17 @@ export interface MarkdownPanelProps
    */
   width?: number;
   /**
-   * Optional callback when file content changes externally.
+   * Optional callback when file content changes, either externally or by a save.
    * Called with info about the change including previous/new content.
    * Useful for implementing diff visualization or change animations.
    */
   onContentChange?: (change: ContentChangeInfo) => void;
+  /**
+   * Optional links between the repository's documents, shared by several
+   * panels (MarkdownTabsPanel passes one to all its tabs) so the repository
+   * is read once. Without it the panel reads the documents itself.
+   */
+  documentLinks?: UseDocumentLinksResult;
 }
 
 /**
@@ -63,6 +219,32 @@ export interface MarkdownPanelProps
  * This panel integrates with the panel framework to:
  * - Read content from the active-file context slice (or from filePath prop)
  * - Display markdown with themed rendering using DocumentView
+ * - Present the document as slides with keyboard and fullscreen support
+ * - Show a document outline that tracks the section in view
+ * - Find text in the document (Ctrl/Cmd+F) with highlighted matches
+ * - Show what changed in external edits, or since a git revision (requires the
+ *   readFileAtRevision action), with inserted and deleted words marked, in one
+ *   document or side by side
+ * - Edit the source side by side with a live preview and save via writeFile
+ * - Follow relative links to other markdown files, with back/forward history
+ * - Open files at a section from `markdown-panel:open-location` events (e.g. search results)
+ * - Load relative images and assets through optional host asset actions
+ * - Render mermaid diagrams, with inline errors for diagrams that fail to parse
+ * - Render inline and display math with KaTeX
+ * - Show YAML/TOML frontmatter as a metadata card and publish the parsed fields
+ * - Remember each file's scroll position, section, view mode, slide and font size
+ * - Export the rendered document as standalone HTML, or print it to PDF
+ * - Answer agent tools about the document: outline, section content, what's in view
+ * - Draw highlights with hover notes for agents and other panels, colored by source
+ * - Comment on selected text, with margin markers and orphaned comments flagged
+ *   (requires the loadAnnotations/saveAnnotations actions)
+ * - Show reading progress and the document's word count, reading time and sections
+ * - Check the document for broken links and anchors, images without alt text
+ *   and heading problems, listed in a diagnostics strip
+ * - List the documents linking to this one under "Linked from", reading the
+ *   repository once it is first expanded (requires the file-tree slice)
+ * - Show the file's git status with a "view diff" button, and mark the sections
+ *   changed since HEAD in a gutter (requires the git slice)
  * - Provide floating font size controls
  */
 export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
@@ -72,13 +254,40 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
   filePath: filePathProp,
   width,
   onContentChange,
+  documentLinks: documentLinksProp,
 }) => {
   const { theme } = useTheme();
   const [fontSizeScale, setFontSizeScale] = useState<number>(1.0);
   const [isMobile, setIsMobile] = useState<boolean>(false);
+  const [viewMode, setViewMode] = useState<MarkdownViewMode>('document');
+  const [currentSlide, setCurrentSlide] = useState<number>(0);
+  const [isOutlineOpen, setIsOutlineOpen] = useState<boolean>(false);
+  const [activeSectionSlug, setActiveSectionSlug] = useState<string | null>(null);
+  const [isFindOpen, setIsFindOpen] = useState<boolean>(false);
+  const [findQuery, setFindQuery] = useState<string>('');
+  const [findOptions, setFindOptions] = useState<FindOptions>({});
+  // Bumped to re-focus the find input when find is requested while already open
+  const [findFocusKey, setFindFocusKey] = useState<number>(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // Wraps the document view's DocumentView, whose outer element is its scroll container
+  const documentRef = useRef<HTMLDivElement>(null);
 
   // Track previous content for change detection
   const previousContentRef = useRef<{ path: string; content: string } | null>(null);
+  // Content most recently written by the panel, so the change it causes is reported as a save
+  const lastWriteRef = useRef<{ path: string; content: string } | null>(null);
+  // Content before the most recent external change, shown by the changes view
+  const [lastChange, setLastChange] = useState<{ path: string; previousContent: string } | null>(
+    null
+  );
+  // A git revision of a file to show the changes since, read with readFileAtRevision
+  const [revisionBase, setRevisionBase] = useState<{
+    path: string;
+    ref: string;
+    content: string;
+  } | null>(null);
+  const [changesLayout, setChangesLayout] = useState<ChangesLayout>('unified');
 
   // Local state for prop-based content loading (used when filePath prop is provided)
   const [propBasedContent, setPropBasedContent] = useState<{
@@ -88,30 +297,35 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
     error: Error | null;
   } | null>(null);
 
+  // File opened by following a link, when the panel loads it itself rather than
+  // through actions.openFile (always the case in filePath prop mode)
+  const [navigatedPath, setNavigatedPath] = useState<string | null>(null);
+  const loadPath = navigatedPath ?? filePathProp ?? null;
+
   // When filePath prop is provided, load content directly (for tabbed usage)
   // This avoids sharing state via the active-file slice
   useEffect(() => {
-    if (!filePathProp) {
+    if (!loadPath) {
       setPropBasedContent(null);
       return;
     }
 
     // Check if we already have this file loaded
-    if (propBasedContent?.path === filePathProp && !propBasedContent.loading) {
+    if (propBasedContent?.path === loadPath && !propBasedContent.loading) {
       return;
     }
 
     const loadContent = async () => {
-      console.log('[MarkdownPanel] Loading file from prop:', filePathProp);
-      setPropBasedContent({ path: filePathProp, content: '', loading: true, error: null });
+      console.log('[MarkdownPanel] Loading file from prop:', loadPath);
+      setPropBasedContent({ path: loadPath, content: '', loading: true, error: null });
 
       try {
-        const content = await actions.readFile(filePathProp);
-        setPropBasedContent({ path: filePathProp, content, loading: false, error: null });
+        const content = await actions.readFile(loadPath);
+        setPropBasedContent({ path: loadPath, content, loading: false, error: null });
       } catch (err) {
         console.error('[MarkdownPanel] Failed to load file:', err);
         setPropBasedContent({
-          path: filePathProp,
+          path: loadPath,
           content: '',
           loading: false,
           error: err instanceof Error ? err : new Error(String(err)),
@@ -120,7 +334,30 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
     };
 
     loadContent();
-  }, [filePathProp, actions]);
+  }, [loadPath, actions]);
+
+  // A new file from the host replaces any file opened by following a link
+  useEffect(() => {
+    setNavigatedPath(null);
+  }, [filePathProp, context.activeFile?.data?.path]);
+
+  // In filePath prop mode, follow content the host reports for the same file,
+  // so external changes are picked up (and reported) as they are in slice mode
+  const hostFilePath = context.activeFile?.loading ? undefined : context.activeFile?.data?.path;
+  const hostFileContent = context.activeFile?.loading
+    ? undefined
+    : context.activeFile?.data?.content;
+  useEffect(() => {
+    if (!hostFilePath || hostFileContent === undefined) return;
+    setPropBasedContent((prev) =>
+      prev?.path === hostFilePath &&
+      !prev.loading &&
+      !prev.error &&
+      prev.content !== hostFileContent
+        ? { ...prev, content: hostFileContent }
+        : prev
+    );
+  }, [hostFilePath, hostFileContent]);
 
   // Detect mobile viewport
   useEffect(() => {
@@ -160,7 +397,7 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
   const { activeFile: activeFileSlice } = context;
 
   // Determine which source to use: prop-based content or slice
-  const usePropBasedContent = filePathProp && propBasedContent?.path === filePathProp;
+  const usePropBasedContent = loadPath && propBasedContent?.path === loadPath;
 
   // Unified file state
   const activeFile = usePropBasedContent
@@ -173,35 +410,98 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
         loading: propBasedContent.loading,
         error: propBasedContent.error,
       }
-    : activeFileSlice;
+    : loadPath
+      ? // Not loaded yet: show the loading state rather than the slice's file
+        { data: null, loading: true, error: null }
+      : activeFileSlice;
 
   // Check if the active file is a markdown file
   const isMarkdown =
     activeFile?.data?.type === 'markdown' ||
     activeFile?.data?.path?.match(/\.(md|mdx|markdown)$/i);
 
-  // Get markdown content
-  const markdownContent = activeFile?.data?.content || '';
+  // Get markdown content as reported by the file source
+  const sourceContent = activeFile?.data?.content || '';
   const currentFilePath = activeFile?.data?.path || '';
+  const repositoryPath = context.currentScope?.repository?.path;
+
+  // Content shown while a task list change is being written, until the source catches up
+  const [optimisticContent, setOptimisticContent] = useState<{
+    path: string;
+    content: string;
+  } | null>(null);
+  // Bumped to remount the rendered view (resets DocumentView's internal checkbox state)
+  const [renderKey, setRenderKey] = useState<number>(0);
+
+  // Unsaved edits, keyed by file path so switching files doesn't lose them
+  const [drafts, setDrafts] = useState<Record<string, EditDraft>>({});
+  const draft: EditDraft | undefined = drafts[currentFilePath];
+  const isEditing = viewMode === 'edit' && !!actions.writeFile;
+  const isDirty = !!draft && draft.content !== draft.baseContent;
+
+  const markdownContent =
+    isEditing && draft
+      ? draft.content
+      : optimisticContent?.path === currentFilePath
+        ? optimisticContent.content
+        : sourceContent;
+
+  // Content to diff against in the changes view: the revision asked for, or the
+  // content before this file last changed while shown
+  const changesRevision = revisionBase?.path === currentFilePath ? revisionBase.ref : null;
+  const changesPreviousContent =
+    revisionBase?.path === currentFilePath
+      ? revisionBase.content
+      : lastChange?.path === currentFilePath
+        ? lastChange.previousContent
+        : null;
+
+  // Drop the optimistic copy as soon as the source reports new content
+  useEffect(() => {
+    setOptimisticContent(null);
+  }, [sourceContent, currentFilePath]);
 
   // Detect content changes and notify via callback + event
   useEffect(() => {
     const prev = previousContentRef.current;
 
     // Skip if no content yet or same file with same content
-    if (!markdownContent || !currentFilePath) {
+    if (!sourceContent || !currentFilePath) {
       return;
     }
 
     // Check if content actually changed (same file, different content)
-    if (prev && prev.path === currentFilePath && prev.content !== markdownContent) {
+    if (prev && prev.path === currentFilePath && prev.content !== sourceContent) {
+      const lastWrite = lastWriteRef.current;
+      const isSave = lastWrite?.path === currentFilePath && lastWrite.content === sourceContent;
+      if (isSave) {
+        lastWriteRef.current = null;
+      }
+
+      // Frontmatter changes are reported as fields, so only the bodies are diffed
+      // (bodies keep their line numbers, with the frontmatter blanked out)
+      const previousParts = extractFrontmatter(prev.content);
+      const parts = extractFrontmatter(sourceContent);
       const changeInfo: ContentChangeInfo = {
         path: currentFilePath,
         previousContent: prev.content,
-        newContent: markdownContent,
-        charDiff: markdownContent.length - prev.content.length,
+        newContent: sourceContent,
+        charDiff: sourceContent.length - prev.content.length,
+        previousFrontmatter: previousParts.frontmatter?.data ?? null,
+        frontmatter: parts.frontmatter?.data ?? null,
+        previousStats: getDocumentStats(prev.content),
+        stats: getDocumentStats(sourceContent),
+        hunks: computeChangeHunks(
+          diffMarkdownBlocks(previousParts.body, parts.body),
+          extractHeadings(previousParts.body),
+          extractHeadings(parts.body)
+        ),
+        source: isSave ? 'save' : 'external',
         timestamp: Date.now(),
       };
+      if (!isSave) {
+        setLastChange({ path: currentFilePath, previousContent: prev.content });
+      }
 
       // Call callback if provided
       if (onContentChange) {
@@ -219,17 +519,117 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
       console.log('[MarkdownPanel] Content changed:', {
         path: currentFilePath,
         charDiff: changeInfo.charDiff,
+        hunks: changeInfo.hunks.length,
+        source: changeInfo.source,
       });
     }
 
     // Update ref with current content
-    previousContentRef.current = { path: currentFilePath, content: markdownContent };
-  }, [markdownContent, currentFilePath, onContentChange, events]);
+    previousContentRef.current = { path: currentFilePath, content: sourceContent };
+  }, [sourceContent, currentFilePath, onContentChange, events]);
+
+  // Keep drafts in step with the file: follow it while there are no unsaved
+  // edits, and flag a conflict when it changes underneath unsaved edits
+  useEffect(() => {
+    if (!currentFilePath) return;
+    setDrafts((prev) => {
+      const existing = prev[currentFilePath];
+      if (!existing || existing.baseContent === sourceContent) return prev;
+
+      let updated: EditDraft;
+      if (existing.content === sourceContent) {
+        updated = { ...existing, baseContent: sourceContent, conflictContent: null };
+      } else if (existing.content === existing.baseContent) {
+        updated = { ...existing, content: sourceContent, baseContent: sourceContent };
+      } else {
+        updated = { ...existing, conflictContent: sourceContent };
+      }
+      return { ...prev, [currentFilePath]: updated };
+    });
+  }, [sourceContent, currentFilePath]);
+
+  // Start a draft from the file content when editing begins
+  useEffect(() => {
+    if (!isEditing || !currentFilePath || drafts[currentFilePath]) return;
+    setDrafts((prev) => ({
+      ...prev,
+      [currentFilePath]: {
+        content: sourceContent,
+        baseContent: sourceContent,
+        conflictContent: null,
+        saving: false,
+        saveError: null,
+      },
+    }));
+  }, [isEditing, currentFilePath, drafts, sourceContent]);
+
+  // Let other panels (e.g. tabs) show an unsaved-changes indicator
+  useEffect(() => {
+    if (!currentFilePath) return;
+    events.emit({
+      type: 'markdown-panel:dirty-state-change',
+      source: 'markdown-panel',
+      timestamp: Date.now(),
+      payload: { path: currentFilePath, dirty: isDirty },
+    });
+  }, [events, currentFilePath, isDirty]);
+
+  const updateDraft = useCallback(
+    (path: string, update: Partial<EditDraft>) => {
+      setDrafts((prev) => (prev[path] ? { ...prev, [path]: { ...prev[path], ...update } } : prev));
+    },
+    []
+  );
+
+  /**
+   * Write the draft for the current file
+   */
+  const saveDraft = useCallback(async () => {
+    const path = currentFilePath;
+    if (!actions.writeFile || !draft || draft.saving) return;
+
+    const content = draft.content;
+    updateDraft(path, { saving: true, saveError: null });
+    lastWriteRef.current = { path, content };
+
+    try {
+      await actions.writeFile(path, content);
+      updateDraft(path, {
+        saving: false,
+        baseContent: content,
+        conflictContent: null,
+      });
+
+      // Prop-based content has no slice to refresh it, so update it directly
+      if (usePropBasedContent) {
+        setPropBasedContent((prev) => (prev?.path === path ? { ...prev, content } : prev));
+      }
+    } catch (err) {
+      console.error('[MarkdownPanel] Failed to save file:', err);
+      lastWriteRef.current = null;
+      updateDraft(path, {
+        saving: false,
+        saveError: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, [actions, currentFilePath, draft, updateDraft, usePropBasedContent]);
+
+  // Relative assets go through the host's asset actions when it provides them
+  const hasAssetResolver = !!(actions.resolveAssetUrl || actions.readBinaryFile);
+  useAssetResolver({
+    rootRef: contentRef,
+    enabled: !!activeFile?.data && !activeFile.loading && !activeFile.error,
+    filePath: currentFilePath,
+    repositoryPath,
+    resolveAssetUrl: actions.resolveAssetUrl,
+    readBinaryFile: actions.readBinaryFile,
+  });
 
   // Extract repository info from the file source for image URL transformation
   const repositoryInfo: RepositoryInfo | undefined = useMemo(() => {
-    // Only slice-based content has source info; prop-based content doesn't
-    if (usePropBasedContent || !activeFileSlice?.data) return undefined;
+    // Only slice-based content has source info; prop-based content doesn't.
+    // Asset actions resolve relative URLs themselves, so leave them untransformed.
+    if (usePropBasedContent || !activeFileSlice?.data || hasAssetResolver) return undefined;
 
     const source = 'source' in activeFileSlice.data ? activeFileSlice.data.source : undefined;
     if (!source) return undefined;
@@ -246,7 +646,1259 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
       branch,
       basePath: getBasePath(activeFileSlice?.data?.path || ''),
     };
-  }, [usePropBasedContent, activeFileSlice?.data]);
+  }, [usePropBasedContent, activeFileSlice?.data, hasAssetResolver]);
+
+  // Frontmatter is shown as a card, so it's blanked out of the rendered markdown
+  const { frontmatter, body: markdownBody } = useMemo(
+    () => extractFrontmatter(markdownContent),
+    [markdownContent]
+  );
+
+  // Markdown as handed to DocumentView: the same lines as the source, with
+  // mermaid blocks prepared and math replaced by placeholders
+  const diagramContent = useMermaidDiagrams(markdownBody, theme);
+  const renderedContent = useMemo(() => prepareMath(diagramContent), [diagramContent]);
+  useMathRenderer({
+    rootRef: contentRef,
+    enabled: !!activeFile?.data && !activeFile.loading && !activeFile.error,
+    theme,
+  });
+
+  // Headings with the same IDs rehype-slug assigns in DocumentView (math
+  // placeholders don't change them, so take them from the readable text)
+  const headings = useMemo(() => extractHeadings(diagramContent), [diagramContent]);
+
+  // Slides for presentation mode
+  const slides = useMemo(() => splitMarkdownIntoSlides(renderedContent), [renderedContent]);
+
+  // Start from the first slide whenever a different file is shown
+  useEffect(() => {
+    setCurrentSlide(0);
+  }, [currentFilePath]);
+
+  // Keep the slide index in range when content shrinks
+  useEffect(() => {
+    if (currentSlide > 0 && currentSlide >= slides.length) {
+      setCurrentSlide(Math.max(slides.length - 1, 0));
+    }
+  }, [slides.length, currentSlide]);
+
+  /**
+   * Resolve a section ID, slug, or heading text to a document heading
+   */
+  const resolveHeading = useCallback(
+    (sectionId: string): MarkdownHeading | undefined => {
+      const id = sectionId.replace(/^#/, '');
+      return (
+        headings.find((h) => h.slug === id) ||
+        headings.find((h) => h.slug === slugify(id)) ||
+        headings.find((h) => h.text.toLowerCase() === id.toLowerCase())
+      );
+    },
+    [headings]
+  );
+
+  /**
+   * Find a rendered element by its DOM id
+   */
+  const findElementById = useCallback((id: string): HTMLElement | null => {
+    return containerRef.current?.querySelector<HTMLElement>(`[id="${CSS.escape(id)}"]`) ?? null;
+  }, []);
+
+  // Section to scroll to once the slide containing it has rendered
+  const [pendingSection, setPendingSection] = useState<{
+    id: string;
+    behavior: ScrollBehavior;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!pendingSection) return;
+    const frame = requestAnimationFrame(() => {
+      findElementById(pendingSection.id)?.scrollIntoView({
+        behavior: pendingSection.behavior,
+        block: 'start',
+      });
+      setPendingSection(null);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [pendingSection, findElementById]);
+
+  /**
+   * Headings currently in the DOM paired with their document heading.
+   * Slides are rendered one at a time, so their DOM ids are local to each slide.
+   */
+  const renderedHeadings = useMemo(() => {
+    if (viewMode !== 'slides') {
+      return headings.map((heading) => ({ domId: heading.slug, heading }));
+    }
+    const slide = slides[currentSlide];
+    if (!slide) return [];
+    return extractHeadings(slide.content).flatMap((local) => {
+      const heading = headings.find((h) => h.line === local.line + slide.startLine);
+      return heading ? [{ domId: local.slug, heading }] : [];
+    });
+  }, [viewMode, headings, slides, currentSlide]);
+
+  // Track which section is in view for the outline
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+
+    let frame = 0;
+    const updateActiveSection = () => {
+      frame = 0;
+      const threshold = content.getBoundingClientRect().top + ACTIVE_SECTION_OFFSET;
+      let active: string | null = renderedHeadings[0]?.heading.slug ?? null;
+      for (const { domId, heading } of renderedHeadings) {
+        const element = findElementById(domId);
+        if (element && element.getBoundingClientRect().top <= threshold) {
+          active = heading.slug;
+        }
+      }
+      setActiveSectionSlug(active);
+    };
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(updateActiveSection);
+    };
+
+    updateActiveSection();
+    // Scroll events don't bubble, so listen in the capture phase
+    content.addEventListener('scroll', handleScroll, true);
+    return () => {
+      content.removeEventListener('scroll', handleScroll, true);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [renderedHeadings, findElementById]);
+
+  // Publish the document outline for other panels (file tree, agents)
+  const emitOutline = useCallback(() => {
+    if (!currentFilePath) return;
+    events.emit({
+      type: 'markdown-panel:outline',
+      source: 'markdown-panel',
+      timestamp: Date.now(),
+      payload: { path: currentFilePath, headings },
+    });
+  }, [events, currentFilePath, headings]);
+
+  useEffect(() => {
+    emitOutline();
+  }, [emitOutline]);
+
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:request-outline', () => emitOutline());
+    return unsubscribe;
+  }, [events, emitOutline]);
+
+  // Publish the parsed frontmatter so hosts can react to fields such as status
+  const lastModified = usePropBasedContent ? undefined : activeFileSlice?.data?.lastModified;
+  const emitFrontmatter = useCallback(() => {
+    if (!currentFilePath) return;
+    // Left out when the source doesn't report when the file was modified
+    const file: Omit<MarkdownFile, 'lastModified'> & { lastModified?: number } = {
+      path: currentFilePath,
+      title: getFrontmatterTitle(frontmatter),
+      ...(lastModified ? { lastModified: new Date(lastModified).getTime() } : {}),
+    };
+    events.emit({
+      type: 'markdown-panel:frontmatter',
+      source: 'markdown-panel',
+      timestamp: Date.now(),
+      payload: {
+        path: currentFilePath,
+        file,
+        format: frontmatter?.format ?? null,
+        frontmatter: frontmatter?.data ?? null,
+        error: frontmatter?.error ?? null,
+      },
+    });
+  }, [events, currentFilePath, frontmatter, lastModified]);
+
+  useEffect(() => {
+    emitFrontmatter();
+  }, [emitFrontmatter]);
+
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:request-frontmatter', () => emitFrontmatter());
+    return unsubscribe;
+  }, [events, emitFrontmatter]);
+
+  // Highlight find matches in the rendered document
+  const find = useDocumentFind({
+    rootRef: contentRef,
+    enabled: isFindOpen,
+    query: findQuery,
+    options: findOptions,
+    theme,
+  });
+
+  const openFind = useCallback((query?: string, options?: FindOptions) => {
+    if (query !== undefined) setFindQuery(query);
+    if (options) setFindOptions(options);
+    setIsFindOpen(true);
+    setFindFocusKey((key) => key + 1);
+  }, []);
+
+  const changeViewMode = useCallback(
+    (mode: MarkdownViewMode) => {
+      setViewMode(mode);
+      events.emit({
+        type: 'markdown-panel:view-mode-change',
+        source: 'markdown-panel',
+        timestamp: Date.now(),
+        payload: { viewMode: mode },
+      });
+    },
+    [events]
+  );
+
+  const changeSlide = useCallback(
+    (index: number) => {
+      setCurrentSlide(index);
+      events.emit({
+        type: 'markdown-panel:slide-change',
+        source: 'markdown-panel',
+        timestamp: Date.now(),
+        payload: { currentSlide: index, totalSlides: slides.length },
+      });
+    },
+    [events, slides.length]
+  );
+
+  // Listen for view mode requests from other panels
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:set-view-mode', (event) => {
+      const { viewMode: mode } = (event.payload || {}) as { viewMode?: MarkdownViewMode };
+      if (
+        mode === 'document' ||
+        mode === 'slides' ||
+        mode === 'changes' ||
+        (mode === 'edit' && actions.writeFile)
+      ) {
+        changeViewMode(mode);
+      }
+    });
+    return unsubscribe;
+  }, [events, actions, changeViewMode]);
+
+  /**
+   * Toggle a task list item and write the updated markdown back to the file.
+   * The change is shown immediately and rolled back if the write fails.
+   *
+   * @param renderedContent - The markdown the checkbox was rendered from
+   * @param startLine - 0-based line where renderedContent starts in the file
+   * @param lineNumber - 1-based line reported by DocumentView
+   * @param checked - The new checked state
+   */
+  const toggleTask = useCallback(
+    async (renderedContent: string, startLine: number, lineNumber: number, checked: boolean) => {
+      if (!actions.writeFile || !currentFilePath) return;
+
+      const localLine = findTaskLine(renderedContent, lineNumber, checked);
+      if (localLine === null) {
+        console.warn('[MarkdownPanel] No task list item found for checkbox at line', lineNumber);
+        return;
+      }
+
+      const path = currentFilePath;
+      const line = startLine + localLine;
+      const newContent = setTaskChecked(markdownContent, line, checked);
+      setOptimisticContent({ path, content: newContent });
+      lastWriteRef.current = { path, content: newContent };
+
+      try {
+        await actions.writeFile(path, newContent);
+
+        // Prop-based content has no slice to refresh it, so update it directly
+        if (usePropBasedContent) {
+          setPropBasedContent((prev) =>
+            prev?.path === path ? { ...prev, content: newContent } : prev
+          );
+        }
+
+        events.emit({
+          type: 'markdown-panel:task-toggled',
+          source: 'markdown-panel',
+          timestamp: Date.now(),
+          payload: {
+            path,
+            lineNumber: line + 1,
+            checked,
+            text: newContent.split('\n')[line].trim(),
+          },
+        });
+      } catch (err) {
+        console.error('[MarkdownPanel] Failed to save task list change:', err);
+        lastWriteRef.current = null;
+        setOptimisticContent(null);
+        setRenderKey((key) => key + 1);
+      }
+    },
+    [actions, currentFilePath, markdownContent, usePropBasedContent, events]
+  );
+
+  const handleDocumentCheckboxChange = useCallback(
+    (_slideIndex: number, lineNumber: number, checked: boolean) => {
+      toggleTask(renderedContent, 0, lineNumber, checked);
+    },
+    [toggleTask, renderedContent]
+  );
+
+  const handleSlideCheckboxChange = useCallback(
+    (_slideIndex: number, lineNumber: number, checked: boolean) => {
+      const slide = slides[currentSlide];
+      if (slide) {
+        toggleTask(slide.content, slide.startLine, lineNumber, checked);
+      }
+    },
+    [toggleTask, slides, currentSlide]
+  );
+
+  /**
+   * Scroll to a section by ID, slug or heading text, switching slides if needed
+   */
+  const scrollToSection = useCallback(
+    (sectionId: string, behavior: ScrollBehavior): { success: boolean; message: string } => {
+      const heading = resolveHeading(sectionId);
+
+      if (heading && viewMode === 'slides') {
+        const slideIndex = slides.findIndex(
+          (slide) => heading.line >= slide.startLine && heading.line <= slide.endLine
+        );
+        const slide = slides[slideIndex];
+        const localHeading = slide
+          ? extractHeadings(slide.content).find((h) => h.line === heading.line - slide.startLine)
+          : undefined;
+        if (localHeading) {
+          if (slideIndex !== currentSlide) {
+            changeSlide(slideIndex);
+          }
+          setPendingSection({ id: localHeading.slug, behavior });
+          return {
+            success: true,
+            message: `Scrolled to section "${heading.slug}" on slide ${slideIndex + 1}`,
+          };
+        }
+      }
+
+      const element =
+        (heading && findElementById(heading.slug)) || findElementById(sectionId.replace(/^#/, ''));
+      if (!element) {
+        return { success: false, message: `Section "${sectionId}" not found` };
+      }
+
+      element.scrollIntoView({ behavior, block: 'start' });
+      return { success: true, message: `Scrolled to section "${element.id}"` };
+    },
+    [viewMode, slides, currentSlide, resolveHeading, findElementById, changeSlide]
+  );
+
+  const {
+    current: historyEntry,
+    canGoBack,
+    canGoForward,
+    push: pushHistory,
+    back: historyBack,
+    forward: historyForward,
+  } = useNavigationHistory();
+
+  /**
+   * The document view's scroll container, when the document view is shown
+   */
+  const getDocumentScrollContainer = useCallback(
+    (): HTMLElement | null =>
+      (documentRef.current?.firstElementChild as HTMLElement | null) ?? null,
+    []
+  );
+
+  // Location to scroll to once a file opened from a link or history has loaded
+  const [pendingLocation, setPendingLocation] = useState<NavigationEntry | null>(null);
+  // File opened at a specific section, whose stored scroll offset shouldn't be restored
+  const navigatedSectionPathRef = useRef<string | null>(null);
+  // Last file recorded in history, so files opened by the host are recorded too
+  const recordedPathRef = useRef<string>('');
+
+  useEffect(() => {
+    if (!currentFilePath || recordedPathRef.current === currentFilePath) return;
+    recordedPathRef.current = currentFilePath;
+    if (historyEntry?.path !== currentFilePath) {
+      pushHistory({ path: currentFilePath, sectionId: null });
+    }
+  }, [currentFilePath, historyEntry, pushHistory]);
+
+  /**
+   * Show a location: scroll within the current file, or open another file
+   * through actions.openFile (or load it directly in filePath prop mode)
+   */
+  const openLocation = useCallback(
+    (entry: NavigationEntry) => {
+      if (entry.path === currentFilePath) {
+        if (entry.sectionId) {
+          scrollToSection(entry.sectionId, 'smooth');
+        } else {
+          getDocumentScrollContainer()?.scrollTo({
+            top: 0,
+            behavior: 'smooth',
+          });
+        }
+        return;
+      }
+
+      setPendingLocation(entry);
+      if (filePathProp || !actions.openFile) {
+        setNavigatedPath(entry.path);
+      } else {
+        actions.openFile(entry.path);
+      }
+    },
+    [currentFilePath, getDocumentScrollContainer, scrollToSection, filePathProp, actions]
+  );
+
+  useEffect(() => {
+    if (!pendingLocation || pendingLocation.path !== currentFilePath || activeFile?.loading) {
+      return;
+    }
+    setPendingLocation(null);
+    const { sectionId } = pendingLocation;
+    if (!sectionId) return;
+    navigatedSectionPathRef.current = currentFilePath;
+    const frame = requestAnimationFrame(() => {
+      const result = scrollToSection(sectionId, 'auto');
+      if (!result.success) {
+        console.warn('[MarkdownPanel]', result.message);
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [pendingLocation, currentFilePath, activeFile?.loading, scrollToSection]);
+
+  // Where each file's view state is kept: the host's actions, or localStorage
+  const viewStateStorage = useMemo(
+    () => getViewStateStorage(actions, repositoryPath),
+    [actions, repositoryPath]
+  );
+
+  // Stored scroll offset to apply once the restored document view has rendered
+  const [pendingScroll, setPendingScroll] = useState<{
+    path: string;
+    scrollTop: number;
+    sectionId: string | null;
+  } | null>(null);
+
+  const restoreViewState = useCallback(
+    (state: MarkdownViewState) => {
+      setFontSizeScale(state.fontSizeScale);
+
+      // Modes that depend on this session (an external change, writeFile) fall back to the document
+      const mode =
+        state.viewMode === 'slides' ||
+        (state.viewMode === 'edit' && actions.writeFile) ||
+        (state.viewMode === 'changes' && changesPreviousContent !== null)
+          ? state.viewMode
+          : 'document';
+      if (mode !== viewMode) {
+        changeViewMode(mode);
+      }
+
+      // A link or history entry that named a section decides where the file opens
+      if (navigatedSectionPathRef.current === currentFilePath) {
+        navigatedSectionPathRef.current = null;
+        return;
+      }
+      if (mode === 'slides') {
+        changeSlide(Math.min(state.slideIndex, Math.max(slides.length - 1, 0)));
+      } else if (mode === 'document' || mode === 'changes') {
+        setPendingScroll({
+          path: currentFilePath,
+          scrollTop: state.scrollTop,
+          sectionId: state.sectionId,
+        });
+      }
+    },
+    [
+      actions,
+      changesPreviousContent,
+      viewMode,
+      changeViewMode,
+      currentFilePath,
+      changeSlide,
+      slides,
+    ]
+  );
+
+  useEffect(() => {
+    if (!pendingScroll) return;
+    if (pendingScroll.path !== currentFilePath) {
+      setPendingScroll(null);
+      return;
+    }
+    const frame = requestAnimationFrame(() => {
+      setPendingScroll(null);
+      const container = getDocumentScrollContainer();
+      if (!container) return;
+      container.scrollTop = pendingScroll.scrollTop;
+      // The file is shorter than when it was viewed: show the section that was in view instead
+      if (pendingScroll.sectionId && Math.abs(container.scrollTop - pendingScroll.scrollTop) > 1) {
+        scrollToSection(pendingScroll.sectionId, 'auto');
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [pendingScroll, currentFilePath, getDocumentScrollContainer, scrollToSection]);
+
+  usePersistedViewState({
+    storage: viewStateStorage,
+    path:
+      activeFile?.data && !activeFile.loading && !activeFile.error ? currentFilePath || null : null,
+    state: {
+      sectionId: activeSectionSlug,
+      viewMode,
+      slideIndex: currentSlide,
+      fontSizeScale,
+    },
+    rootRef: contentRef,
+    getScrollContainer: getDocumentScrollContainer,
+    onRestore: restoreViewState,
+  });
+
+  const handleLinkClick = useCallback(
+    (href: string) => {
+      // DocumentView prevents the default navigation whenever a handler is given
+      if (isExternalHref(href)) {
+        window.open(href, '_blank', 'noopener,noreferrer');
+        return;
+      }
+
+      const link = resolveLink(href, currentFilePath, repositoryPath);
+      if (!link) return;
+
+      if (!link.path || link.path === currentFilePath) {
+        if (link.fragment) {
+          pushHistory({ path: currentFilePath, sectionId: link.fragment });
+          scrollToSection(link.fragment, 'smooth');
+        }
+        return;
+      }
+
+      if (!isMarkdownPath(link.path)) {
+        if (actions.openFile) {
+          actions.openFile(link.path);
+        } else {
+          console.warn('[MarkdownPanel] Cannot open linked file:', link.path);
+        }
+        return;
+      }
+
+      const entry = { path: link.path, sectionId: link.fragment };
+      pushHistory(entry);
+      openLocation(entry);
+    },
+    [currentFilePath, repositoryPath, actions, pushHistory, scrollToSection, openLocation]
+  );
+
+  const goBack = useCallback(() => {
+    const entry = historyBack();
+    if (entry) openLocation(entry);
+  }, [historyBack, openLocation]);
+
+  const goForward = useCallback(() => {
+    const entry = historyForward();
+    if (entry) openLocation(entry);
+  }, [historyForward, openLocation]);
+
+  // Open locations requested by other panels, such as search results
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:open-location', (event) => {
+      const { path, sectionId } = (event.payload || {}) as {
+        path?: string;
+        sectionId?: string | null;
+      };
+      if (!path) return;
+      const entry = { path, sectionId: sectionId ?? null };
+      pushHistory(entry);
+      openLocation(entry);
+    });
+    return unsubscribe;
+  }, [events, pushHistory, openLocation]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'f') {
+      event.preventDefault();
+      openFind();
+      return;
+    }
+
+    // Alt+Left/Right for history, except while typing
+    const target = event.target as HTMLElement;
+    const isTyping = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
+    if (event.altKey && !isTyping && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+      event.preventDefault();
+      if (event.key === 'ArrowLeft') {
+        goBack();
+      } else {
+        goForward();
+      }
+    }
+  };
+
+  useViewerTools({
+    events,
+    scrollToSection,
+    viewMode,
+    changeViewMode,
+    slides,
+    currentSlide,
+    changeSlide,
+    fontSizeScale,
+    setFontSizeScale,
+  });
+
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const exportTitle =
+    getFrontmatterTitle(frontmatter) ??
+    headings.find((heading) => heading.level === 1)?.text ??
+    getExportFileName(currentFilePath).replace(/\.html$/, '');
+
+  /**
+   * Show the document view if another view is active and wait for it to render
+   *
+   * @returns The document view's scroll container, or null if it didn't render
+   */
+  const showDocumentView = useCallback(async (): Promise<HTMLElement | null> => {
+    let root = getDocumentScrollContainer();
+    if (root) return root;
+    changeViewMode('document');
+    for (let frame = 0; frame < DOCUMENT_VIEW_RENDER_FRAMES && !root; frame++) {
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      root = getDocumentScrollContainer();
+    }
+    return root;
+  }, [getDocumentScrollContainer, changeViewMode]);
+
+  /**
+   * Export the rendered document as standalone HTML, showing the document
+   * view while exporting if another view is active
+   */
+  const exportDocument = useCallback(
+    async (embedImages: boolean): Promise<ExportedDocument> => {
+      const previousMode = getDocumentScrollContainer() ? null : viewMode;
+      const root = await showDocumentView();
+
+      try {
+        if (!root) throw new Error('The document view could not be shown');
+        return await exportDocumentHtml(root, { title: exportTitle, theme, embedImages });
+      } finally {
+        if (previousMode) changeViewMode(previousMode);
+      }
+    },
+    [getDocumentScrollContainer, showDocumentView, viewMode, changeViewMode, exportTitle, theme]
+  );
+
+  const runExport = useCallback(
+    async (action: MarkdownExportAction, embedImages = true) => {
+      if (!currentFilePath || isExporting) return;
+      const path = currentFilePath;
+      setIsExporting(true);
+      try {
+        const exported = await exportDocument(embedImages);
+        const fileName = getExportFileName(path);
+        if (action === 'download') {
+          downloadHtml(exported.html, fileName);
+        } else if (action === 'print') {
+          printHtml(exported.html);
+        }
+        events.emit({
+          type: 'markdown-panel:exported',
+          source: 'markdown-panel',
+          timestamp: Date.now(),
+          payload: { path, fileName, action, ...exported },
+        });
+      } catch (err) {
+        console.error('[MarkdownPanel] Failed to export document:', err);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [currentFilePath, isExporting, exportDocument, events]
+  );
+
+  // Listen for export requests from other panels
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:export', (event) => {
+      const { action = 'download', embedImages } = (event.payload || {}) as {
+        action?: MarkdownExportAction;
+        embedImages?: boolean;
+      };
+      runExport(action, embedImages !== false);
+    });
+    return unsubscribe;
+  }, [events, runExport]);
+
+  useExportTool({ events, hasDocument: !!currentFilePath, exportDocument });
+
+  const [highlightsByPath, setHighlightsByPath] = useState<Record<string, DocumentHighlight[]>>(
+    {}
+  );
+  const documentHighlights = highlightsByPath[currentFilePath] ?? NO_HIGHLIGHTS;
+  const highlightCountRef = useRef<number>(0);
+
+  // Draw highlights added by agents and other panels
+  const { hovered: hoveredHighlight, reveal: revealHighlight } = useDocumentHighlights({
+    rootRef: contentRef,
+    highlights: documentHighlights,
+    theme,
+  });
+
+  /**
+   * Highlight a section or a quoted span of it (or of the whole document),
+   * showing the document view if needed, and scroll it into view
+   */
+  const addHighlight = useCallback(
+    async ({
+      sectionId,
+      text,
+      occurrence = 0,
+      note,
+      source,
+    }: HighlightRequest): Promise<{
+      success: boolean;
+      message: string;
+      highlightId: string | null;
+    }> => {
+      const path = currentFilePath;
+      const quote = text?.trim() || null;
+      if (!path) {
+        return { success: false, message: 'No document is open', highlightId: null };
+      }
+      if (!sectionId && !quote) {
+        return {
+          success: false,
+          message: 'Either sectionId or text is required',
+          highlightId: null,
+        };
+      }
+      if (!Number.isInteger(occurrence) || occurrence < 0) {
+        return {
+          success: false,
+          message: `Invalid occurrence ${occurrence} (expected an index from 0)`,
+          highlightId: null,
+        };
+      }
+
+      const heading = sectionId ? resolveHeading(sectionId) : undefined;
+      if (sectionId && !heading) {
+        return { success: false, message: `Section "${sectionId}" not found`, highlightId: null };
+      }
+
+      const target = { sectionId: heading?.slug ?? null, text: quote, occurrence };
+      const root = await showDocumentView();
+      if (!root) {
+        return {
+          success: false,
+          message: 'The document view could not be shown',
+          highlightId: null,
+        };
+      }
+      if (!resolveHighlightRange(root, target)) {
+        return {
+          success: false,
+          message: `Text "${quote}" not found${heading ? ` in section "${heading.slug}"` : ''}`,
+          highlightId: null,
+        };
+      }
+
+      highlightCountRef.current += 1;
+      const highlight: DocumentHighlight = {
+        id: `highlight-${highlightCountRef.current}`,
+        source: source?.trim() || 'agent',
+        ...target,
+        note: note?.trim() || null,
+        createdAt: Date.now(),
+      };
+      setHighlightsByPath((prev) => ({ ...prev, [path]: [...(prev[path] ?? []), highlight] }));
+      revealHighlight(highlight.id);
+
+      return {
+        success: true,
+        message: quote
+          ? `Highlighted "${quote}"${heading ? ` in section "${heading.slug}"` : ''}`
+          : `Highlighted section "${heading?.slug}"`,
+        highlightId: highlight.id,
+      };
+    },
+    [currentFilePath, resolveHeading, showDocumentView, revealHighlight]
+  );
+
+  /**
+   * Remove highlights from the document, optionally only one source's or one highlight
+   *
+   * @returns The number of highlights removed
+   */
+  const clearHighlights = useCallback(
+    ({ source, highlightId }: { source?: string; highlightId?: string }): number => {
+      const path = currentFilePath;
+      const matches = (highlight: DocumentHighlight) =>
+        (!source || highlight.source === source) && (!highlightId || highlight.id === highlightId);
+      const cleared = documentHighlights.filter(matches).length;
+      if (cleared > 0) {
+        setHighlightsByPath((prev) => ({
+          ...prev,
+          [path]: (prev[path] ?? []).filter((highlight) => !matches(highlight)),
+        }));
+      }
+      return cleared;
+    },
+    [currentFilePath, documentHighlights]
+  );
+
+  // Listen for highlight requests from other panels
+  useEffect(() => {
+    const unsubscribes = [
+      events.on('markdown-panel:highlight', (event) => {
+        addHighlight((event.payload || {}) as HighlightRequest);
+      }),
+      events.on('markdown-panel:clear-highlights', (event) => {
+        clearHighlights((event.payload || {}) as { source?: string; highlightId?: string });
+      }),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [events, addHighlight, clearHighlights]);
+
+  useHighlightTools({ events, currentFilePath, addHighlight, clearHighlights });
+
+  const canComment = !!actions.saveAnnotations;
+  const hasComments = canComment || !!actions.loadAnnotations;
+  const isDocumentViewShown =
+    viewMode !== 'slides' &&
+    !(isEditing && draft) &&
+    !(viewMode === 'changes' && changesPreviousContent !== null);
+  const [annotationsByPath, setAnnotationsByPath] = useState<
+    Record<string, MarkdownAnnotation[]>
+  >({});
+  // Latest comments, so updates made before a re-render build on each other
+  const annotationsByPathRef = useRef(annotationsByPath);
+  annotationsByPathRef.current = annotationsByPath;
+  const documentAnnotations = annotationsByPath[currentFilePath] ?? NO_ANNOTATIONS;
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [isCommentsOpen, setIsCommentsOpen] = useState<boolean>(false);
+  // Text selected in the document, offered for commenting
+  const [commentSelection, setCommentSelection] = useState<AnnotationSelection | null>(null);
+  // Comment being written
+  const [pendingComment, setPendingComment] = useState<{
+    anchor: MarkdownAnnotationAnchor;
+    rect: DOMRect;
+  } | null>(null);
+  const requestedAnnotationPathsRef = useRef(new Set<string>());
+
+  // Load each file's comments the first time it's shown
+  useEffect(() => {
+    const { loadAnnotations } = actions;
+    const path = currentFilePath;
+    if (!loadAnnotations || !path || requestedAnnotationPathsRef.current.has(path)) return;
+    requestedAnnotationPathsRef.current.add(path);
+    loadAnnotations(path)
+      .then((loaded) => {
+        setAnnotationsByPath((prev) => ({ ...prev, [path]: normalizeAnnotations(loaded) }));
+      })
+      .catch((err) => {
+        console.warn('[MarkdownPanel] Failed to load comments:', err);
+      });
+  }, [actions, currentFilePath]);
+
+  // Selections and open comments belong to the file they were made in
+  useEffect(() => {
+    setActiveAnnotationId(null);
+    setCommentSelection(null);
+    setPendingComment(null);
+  }, [currentFilePath]);
+
+  /**
+   * Change a file's comments and store them through saveAnnotations
+   */
+  const updateAnnotations = useCallback(
+    (path: string, update: (annotations: MarkdownAnnotation[]) => MarkdownAnnotation[]) => {
+      const next = update(annotationsByPathRef.current[path] ?? []);
+      annotationsByPathRef.current = { ...annotationsByPathRef.current, [path]: next };
+      setAnnotationsByPath((prev) => ({ ...prev, [path]: next }));
+      actions.saveAnnotations?.(path, next).catch((err) => {
+        console.warn('[MarkdownPanel] Failed to save comments:', err);
+      });
+    },
+    [actions]
+  );
+
+  const renderedRevision = useMemo(() => getContentRevision(renderedContent), [renderedContent]);
+  const isAnnotationViewEnabled = hasComments && isDocumentViewShown;
+  const {
+    viewAnnotations,
+    activeViewId: activeAnnotationViewId,
+    getAnnotationId,
+    resolved: resolvedAnnotations,
+    positions: annotationPositions,
+    scrollTo: scrollToAnnotation,
+  } = useAnnotationAnchors({
+    rootRef: documentRef,
+    enabled: isAnnotationViewEnabled,
+    revision: renderedRevision,
+    annotations: documentAnnotations,
+    activeId: activeAnnotationId,
+  });
+
+  const renderAnnotation = useCallback(
+    (annotation: Annotation) => (
+      <CommentMarker isActive={annotation.id === activeAnnotationViewId} theme={theme} />
+    ),
+    [activeAnnotationViewId, theme]
+  );
+
+  const handleAnnotationClick = useCallback(
+    (viewId: string) => {
+      setActiveAnnotationId(getAnnotationId(viewId));
+      setIsCommentsOpen(true);
+    },
+    [getAnnotationId]
+  );
+
+  const annotationStyle = useMemo(
+    () => ({
+      backgroundColor: `color-mix(in srgb, ${theme.colors.info} 20%, transparent)`,
+      activeBackgroundColor: `color-mix(in srgb, ${theme.colors.info} 40%, transparent)`,
+    }),
+    [theme]
+  );
+
+  // Flag comments whose quote can't be found after a content change (and
+  // clear the flag when it's found again)
+  useEffect(() => {
+    if (!resolvedAnnotations || resolvedAnnotations.annotations !== documentAnnotations) return;
+    const isOrphaned = (annotation: MarkdownAnnotation) =>
+      !resolvedAnnotations.ids.has(annotation.id);
+    if (documentAnnotations.every((annotation) => annotation.orphaned === isOrphaned(annotation))) {
+      return;
+    }
+    updateAnnotations(currentFilePath, (annotations) =>
+      annotations.map((annotation) => ({ ...annotation, orphaned: isOrphaned(annotation) }))
+    );
+  }, [resolvedAnnotations, documentAnnotations, currentFilePath, updateAnnotations]);
+
+  // Comments in document order, orphaned ones last
+  const sortedAnnotations = useMemo(() => {
+    const position = (annotation: MarkdownAnnotation) =>
+      annotationPositions.get(annotation.id) ?? Number.MAX_SAFE_INTEGER;
+    return [...documentAnnotations].sort((a, b) => position(a) - position(b));
+  }, [documentAnnotations, annotationPositions]);
+
+  const isCommentsSidebarShown = isCommentsOpen && hasComments && !isMobile;
+  // Toolbar and find bar sit left of the comments sidebar
+  const overlayRight = isCommentsSidebarShown ? '268px' : '8px';
+
+  const handleSelectionChange = useCallback((selection: AnnotationSelection | null) => {
+    setCommentSelection(selection);
+  }, []);
+
+  /**
+   * Open the comment composer for the selected text
+   */
+  const startComment = useCallback(() => {
+    const container = getDocumentScrollContainer();
+    const selection = window.getSelection();
+    if (!commentSelection || !container) return;
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    // Whitespace selected either side of the quote moves into its context, so
+    // prefix, quote and suffix still run on in the document
+    const { exact, prefix, suffix } = commentSelection.anchor;
+    const leading = exact.slice(0, exact.length - exact.trimStart().length);
+    const trailing = exact.slice(exact.trimEnd().length);
+    setPendingComment({
+      anchor: {
+        sectionId: range ? getSectionIdAt(container, range) : null,
+        exact: exact.trim(),
+        ...(prefix !== undefined && { prefix: prefix + leading }),
+        ...(suffix !== undefined && { suffix: trailing + suffix }),
+      },
+      rect: commentSelection.rect,
+    });
+    setCommentSelection(null);
+  }, [commentSelection, getDocumentScrollContainer]);
+
+  const addComment = useCallback(
+    (body: string) => {
+      if (!pendingComment || !currentFilePath) return;
+      const annotation: MarkdownAnnotation = {
+        id: createAnnotationId(),
+        anchor: pendingComment.anchor,
+        body,
+        createdAt: Date.now(),
+        orphaned: false,
+      };
+      updateAnnotations(currentFilePath, (annotations) => [...annotations, annotation]);
+      setActiveAnnotationId(annotation.id);
+      setPendingComment(null);
+      window.getSelection()?.removeAllRanges();
+    },
+    [pendingComment, currentFilePath, updateAnnotations]
+  );
+
+  const deleteComment = useCallback(
+    (annotation: MarkdownAnnotation) => {
+      updateAnnotations(currentFilePath, (annotations) =>
+        annotations.filter((a) => a.id !== annotation.id)
+      );
+      setActiveAnnotationId((id) => (id === annotation.id ? null : id));
+    },
+    [currentFilePath, updateAnnotations]
+  );
+
+  const documentStats = useMemo(() => getDocumentStats(markdownContent), [markdownContent]);
+  const [readingProgress, setReadingProgress] = useState<number>(0);
+
+  // Track how far through the document view the reader has scrolled
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content || !isDocumentViewShown) return;
+
+    let frame = 0;
+    const updateProgress = () => {
+      frame = 0;
+      const scrollContainer = getDocumentScrollContainer();
+      if (!scrollContainer) return;
+      const scrollable = scrollContainer.scrollHeight - scrollContainer.clientHeight;
+      setReadingProgress(scrollable > 0 ? Math.min(scrollContainer.scrollTop / scrollable, 1) : 1);
+    };
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(updateProgress);
+    };
+
+    handleScroll();
+    // Scroll events don't bubble, so listen in the capture phase
+    content.addEventListener('scroll', handleScroll, true);
+    return () => {
+      content.removeEventListener('scroll', handleScroll, true);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [isDocumentViewShown, renderedContent, renderKey, getDocumentScrollContainer]);
+
+  const {
+    diagnostics,
+    checking: isCheckingLinks,
+    getDiagnostics,
+  } = useDocumentDiagnostics({
+    markdown: markdownBody,
+    headings,
+    filePath: currentFilePath,
+    repositoryPath,
+    readFile: actions.readFile,
+  });
+
+  // Publish the document's problems once each check finishes
+  useEffect(() => {
+    if (!currentFilePath || isCheckingLinks) return;
+    events.emit({
+      type: 'markdown-panel:diagnostics',
+      source: 'markdown-panel',
+      timestamp: Date.now(),
+      payload: {
+        path: currentFilePath,
+        diagnostics,
+        counts: countDiagnostics(diagnostics),
+      },
+    });
+  }, [events, currentFilePath, diagnostics, isCheckingLinks]);
+
+  /**
+   * Scroll to the link, image or heading a problem is about, showing the
+   * document view if another view is active
+   */
+  const jumpToDiagnostic = useCallback(
+    async (diagnostic: MarkdownDiagnostic) => {
+      const root = await showDocumentView();
+      if (!root) return;
+
+      const selector =
+        diagnostic.rule === 'missing-alt-text'
+          ? 'img:not([alt]), img[alt=""]'
+          : diagnostic.rule === 'broken-anchor' || diagnostic.rule === 'broken-link'
+            ? `a[href="${CSS.escape(diagnostic.target)}"]`
+            : null;
+      const candidates = selector ? Array.from(root.querySelectorAll<HTMLElement>(selector)) : [];
+      // Prefer the first match in the problem's section
+      const sectionHeading = diagnostic.sectionId ? findElementById(diagnostic.sectionId) : null;
+      const element =
+        candidates.find(
+          (candidate) =>
+            !sectionHeading ||
+            sectionHeading.compareDocumentPosition(candidate) & Node.DOCUMENT_POSITION_FOLLOWING
+        ) ?? candidates[0];
+
+      if (element) {
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      } else if (diagnostic.sectionId) {
+        scrollToSection(diagnostic.sectionId, 'smooth');
+      } else {
+        root.scrollTo({ top: 0, behavior: 'smooth' });
+      }
+    },
+    [showDocumentView, findElementById, scrollToSection]
+  );
+
+  // Links to this document from the repository's other markdown files (needs the file-tree slice)
+  const repositoryFileTree = context.fileTree?.data;
+  const repositoryDocumentPaths = useMemo(
+    () => (repositoryFileTree ? collectMarkdownPaths(repositoryFileTree) : []),
+    [repositoryFileTree]
+  );
+  // Read when "Linked from" is first expanded; never read when links are shared
+  const ownDocumentLinks = useDocumentLinks({
+    paths: repositoryDocumentPaths,
+    readFile: actions.readFile,
+    events,
+    repositoryPath,
+    lazy: true,
+  });
+  const documentLinks = documentLinksProp ?? ownDocumentLinks;
+  const linkedDocuments = documentLinks.documents;
+  const backlinks = useMemo(
+    () => (currentFilePath ? getBacklinks(linkedDocuments, currentFilePath) : []),
+    [linkedDocuments, currentFilePath]
+  );
+
+  const openBacklink = useCallback(
+    (link: DocumentLink) => {
+      const entry = { path: link.source, sectionId: link.sectionId };
+      pushHistory(entry);
+      openLocation(entry);
+    },
+    [pushHistory, openLocation]
+  );
+
+  // The open file's git status and the sections changed since HEAD (needs the git slice)
+  const gitData = context.git?.data;
+  const repositoryFilePath = useMemo(
+    () => (currentFilePath ? toRepositoryPath(currentFilePath, repositoryPath) : ''),
+    [currentFilePath, repositoryPath]
+  );
+  const gitStatuses = useMemo(
+    () =>
+      gitData && repositoryFilePath ? getFileGitStatuses(gitData.status, repositoryFilePath) : [],
+    [gitData, repositoryFilePath]
+  );
+  const changedSections = useMemo(() => {
+    const lineChanges = Object.entries(gitData?.lineChanges ?? {}).find(
+      ([path]) => toRepositoryPath(path) === repositoryFilePath
+    )?.[1];
+    return lineChanges ? getChangedSections(headings, lineChanges) : [];
+  }, [gitData, repositoryFilePath, headings]);
+  const { container: gutterContainer, bars: gutterBars } = useSectionGutter({
+    rootRef: documentRef,
+    enabled: isDocumentViewShown,
+    content: renderedContent,
+    headings,
+    sections: changedSections,
+  });
+
+  const viewGitDiff = useCallback(() => {
+    // Unstaged changes are what's shown, so they're the diff to open when there are both
+    const status = gitStatuses.includes('unstaged') ? 'unstaged' : gitStatuses[0];
+    actions.openGitDiff?.(repositoryFilePath, status);
+  }, [actions, repositoryFilePath, gitStatuses]);
+
+  // Untracked files have no revisions to compare with
+  const canCompareRevisions =
+    !!actions.readFileAtRevision && !!repositoryFilePath && !gitStatuses.includes('untracked');
+
+  // The open file, checked when a revision read resolves in case the user switched files
+  const openFilePathRef = useRef<string>(currentFilePath);
+  openFilePathRef.current = currentFilePath;
+
+  /**
+   * Read the open file at a git revision and show the changes since it
+   */
+  const compareWithRevision = useCallback(
+    (ref: string): Promise<{ success: boolean; message: string }> => {
+      if (!actions.readFileAtRevision || !repositoryFilePath) {
+        return Promise.resolve({
+          success: false,
+          message: repositoryFilePath
+            ? 'The host cannot read files at a revision'
+            : 'No document is open',
+        });
+      }
+      const path = currentFilePath;
+      return actions.readFileAtRevision(repositoryFilePath, ref).then(
+        (content) => {
+          if (openFilePathRef.current !== path) {
+            return { success: false, message: `${path} was closed before ${ref} was read` };
+          }
+          setRevisionBase({ path, ref, content });
+          changeViewMode('changes');
+          return { success: true, message: `Showing changes since ${ref}` };
+        },
+        (err: unknown) => {
+          console.warn('[MarkdownPanel] Failed to read file at revision:', ref, err);
+          return {
+            success: false,
+            message: `Could not read ${repositoryFilePath} at ${ref}: ${
+              err instanceof Error ? err.message : String(err)
+            }`,
+          };
+        }
+      );
+    },
+    [actions, currentFilePath, repositoryFilePath, changeViewMode]
+  );
+
+  const closeChanges = useCallback(() => {
+    setRevisionBase(null);
+    changeViewMode('document');
+  }, [changeViewMode]);
+
+  const toggleChanges = useCallback(() => {
+    if (viewMode === 'changes') {
+      closeChanges();
+    } else if (changesPreviousContent !== null) {
+      changeViewMode('changes');
+    } else {
+      compareWithRevision('HEAD');
+    }
+  }, [viewMode, changesPreviousContent, closeChanges, changeViewMode, compareWithRevision]);
+
+  useRenderedDiffTool({
+    events,
+    changesLayout,
+    setChangesLayout,
+    hasChanges: changesPreviousContent !== null,
+    changesRevision,
+    changeViewMode,
+    compareWithRevision,
+  });
+
+  const documentRevision = useMemo(() => getContentRevision(markdownContent), [markdownContent]);
+
+  const toolDocument = useMemo(
+    () => ({ path: currentFilePath, revision: documentRevision }),
+    [currentFilePath, documentRevision]
+  );
+  useDocumentTools({
+    events,
+    document: toolDocument,
+    content: markdownContent,
+    body: markdownBody,
+    title: exportTitle,
+    frontmatter,
+    stats: documentStats,
+    isDirty,
+    headings,
+    resolveHeading,
+    renderedHeadings,
+    findElementById,
+    contentRef,
+    activeSectionSlug,
+    viewMode,
+    slides,
+    currentSlide,
+  });
+
+  useLintTool({ events, document: toolDocument, getDiagnostics });
+
+  useFindTool({ events, content: markdownContent, headings, openFind });
 
   const handleFontSizeIncrease = () => {
     setFontSizeScale((prev) => {
@@ -341,31 +1993,258 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
 
   return (
     <div
+      ref={containerRef}
+      onKeyDown={handleKeyDown}
       style={{
         width: '100%',
         height: '100%',
         backgroundColor: theme.colors.background,
         overflow: 'hidden',
         position: 'relative',
+        display: 'flex',
       }}
     >
-      <DocumentView
-        content={markdownContent}
-        theme={theme}
-        fontSizeScale={fontSizeScale}
-        onCheckboxChange={() => {}}
-        slideIdPrefix="markdown-panel"
-        maxWidth="100%"
-        repositoryInfo={repositoryInfo}
-        width={width}
-      />
+      {isOutlineOpen && !isMobile && (
+        <OutlineSidebar
+          headings={headings}
+          activeSlug={activeSectionSlug}
+          onSelect={(heading) => scrollToSection(heading.slug, 'smooth')}
+          onClose={() => setIsOutlineOpen(false)}
+          theme={theme}
+        />
+      )}
+
+      <div
+        style={{
+          flex: 1,
+          minWidth: 0,
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+        }}
+      >
+        <div style={{ position: 'relative', flex: 1, minHeight: 0 }}>
+          <div ref={contentRef} style={{ height: '100%' }}>
+            {viewMode === 'slides' ? (
+              <SlideView
+                key={renderKey}
+                slides={slides}
+                currentSlide={currentSlide}
+                onSlideChange={changeSlide}
+                theme={theme}
+                fontSizeScale={fontSizeScale}
+                editable={!!actions.writeFile}
+                onCheckboxChange={handleSlideCheckboxChange}
+                onLinkClick={handleLinkClick}
+                repositoryInfo={repositoryInfo}
+                width={width}
+              />
+            ) : isEditing && draft ? (
+              <SplitEditor
+                value={draft.content}
+                onChange={(content) => updateDraft(currentFilePath, { content, saveError: null })}
+                dirty={isDirty}
+                saving={draft.saving}
+                saveError={draft.saveError}
+                hasConflict={draft.conflictContent !== null}
+                onSave={saveDraft}
+                onKeepLocal={() =>
+                  updateDraft(currentFilePath, {
+                    baseContent: draft.conflictContent ?? draft.baseContent,
+                    conflictContent: null,
+                  })
+                }
+                onUseExternal={() =>
+                  updateDraft(currentFilePath, {
+                    content: draft.conflictContent ?? draft.baseContent,
+                    baseContent: draft.conflictContent ?? draft.baseContent,
+                    conflictContent: null,
+                  })
+                }
+                theme={theme}
+                fontSizeScale={fontSizeScale}
+                repositoryInfo={repositoryInfo}
+                width={width}
+              />
+            ) : viewMode === 'changes' && changesPreviousContent !== null ? (
+              <ChangesView
+                previousContent={changesPreviousContent}
+                content={markdownContent}
+                revision={changesRevision}
+                layout={changesLayout}
+                onLayoutChange={setChangesLayout}
+                theme={theme}
+                fontSizeScale={fontSizeScale}
+                repositoryInfo={repositoryInfo}
+                width={width}
+                onLinkClick={handleLinkClick}
+                onClose={closeChanges}
+              />
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+                {frontmatter && <FrontmatterCard frontmatter={frontmatter} theme={theme} />}
+                <div ref={documentRef} style={{ flex: 1, minHeight: 0 }}>
+                  <DocumentView
+                    key={renderKey}
+                    content={renderedContent}
+                    theme={theme}
+                    fontSizeScale={fontSizeScale}
+                    editable={!!actions.writeFile}
+                    onCheckboxChange={handleDocumentCheckboxChange}
+                    onLinkClick={handleLinkClick}
+                    slideIdPrefix="markdown-panel"
+                    maxWidth="100%"
+                    repositoryInfo={repositoryInfo}
+                    width={width}
+                    onSelectionChange={canComment ? handleSelectionChange : undefined}
+                    annotations={isAnnotationViewEnabled ? viewAnnotations : undefined}
+                    activeAnnotationId={activeAnnotationViewId}
+                    renderAnnotation={renderAnnotation}
+                    onAnnotationClick={handleAnnotationClick}
+                    annotationStyle={annotationStyle}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+          {isDocumentViewShown && (
+            <ReadingProgress progress={readingProgress} stats={documentStats} theme={theme} />
+          )}
+        </div>
+
+        {viewMode !== 'slides' && diagnostics.length > 0 && (
+          <DiagnosticsStrip
+            diagnostics={diagnostics}
+            checking={isCheckingLinks}
+            onSelect={jumpToDiagnostic}
+            theme={theme}
+          />
+        )}
+
+        {viewMode !== 'slides' && repositoryFileTree && currentFilePath && (
+          <BacklinksStrip
+            backlinks={backlinks}
+            loading={documentLinks.loading}
+            loaded={documentLinks.loaded}
+            onLoad={documentLinks.load}
+            onSelect={openBacklink}
+            theme={theme}
+          />
+        )}
+      </div>
+
+      {isCommentsSidebarShown && (
+        <CommentsSidebar
+          annotations={sortedAnnotations}
+          activeId={activeAnnotationId}
+          onSelect={(annotation) => {
+            setActiveAnnotationId(annotation.id);
+            if (!annotation.orphaned) scrollToAnnotation(annotation.id);
+          }}
+          onDelete={canComment ? deleteComment : undefined}
+          onClose={() => setIsCommentsOpen(false)}
+          theme={theme}
+        />
+      )}
+
+      {gutterContainer &&
+        gutterBars.length > 0 &&
+        createPortal(
+          <GitChangeGutter
+            bars={gutterBars}
+            onSelect={(sectionId) => {
+              if (sectionId) {
+                scrollToSection(sectionId, 'smooth');
+              } else {
+                gutterContainer.scrollTo({ top: 0, behavior: 'smooth' });
+              }
+            }}
+            theme={theme}
+          />,
+          gutterContainer
+        )}
+
+      {commentSelection && !pendingComment && isDocumentViewShown && (
+        <button
+          // Keep the selection when the button is pressed
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={startComment}
+          title="Comment on Selection"
+          style={{
+            position: 'fixed',
+            top: commentSelection.rect.bottom + 6,
+            left: commentSelection.rect.left,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: '4px 8px',
+            backgroundColor: theme.colors.backgroundLight,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: '4px',
+            boxShadow: theme.shadows[2],
+            cursor: 'pointer',
+            color: theme.colors.text,
+            fontSize: '12px',
+            fontFamily: theme.fonts.body,
+            zIndex: 20,
+          }}
+        >
+          <MessageSquarePlus size={14} />
+          Comment
+        </button>
+      )}
+
+      {pendingComment && (
+        <CommentComposer
+          quote={pendingComment.anchor.exact}
+          rect={pendingComment.rect}
+          onSubmit={addComment}
+          onCancel={() => setPendingComment(null)}
+          theme={theme}
+        />
+      )}
+
+      {hoveredHighlight && (
+        <HighlightCallout
+          highlight={hoveredHighlight.highlight}
+          rect={hoveredHighlight.rect}
+          color={hoveredHighlight.color}
+          theme={theme}
+        />
+      )}
+
+      {isFindOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            top: isMobile ? '8px' : '48px',
+            right: overlayRight,
+            zIndex: 11,
+          }}
+        >
+          <FindBar
+            key={findFocusKey}
+            query={findQuery}
+            options={findOptions}
+            matchCount={find.matchCount}
+            currentIndex={find.currentIndex}
+            error={find.error}
+            onQueryChange={setFindQuery}
+            onOptionsChange={setFindOptions}
+            onNext={find.next}
+            onPrevious={find.previous}
+            onClose={() => setIsFindOpen(false)}
+            theme={theme}
+          />
+        </div>
+      )}
 
       {!isMobile && (
         <div
           style={{
             position: 'absolute',
             top: '8px',
-            right: '8px',
+            right: overlayRight,
             display: 'flex',
             alignItems: 'center',
             gap: '6px',
@@ -376,6 +2255,165 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
             zIndex: 10,
           }}
         >
+          {gitStatuses.length > 0 && (
+            <GitStatusBadge
+              statuses={gitStatuses}
+              onViewDiff={actions.openGitDiff ? viewGitDiff : undefined}
+              theme={theme}
+            />
+          )}
+
+          {(canGoBack || canGoForward) && (
+            <>
+              <button
+                onClick={goBack}
+                disabled={!canGoBack}
+                title="Back (Alt+Left)"
+                style={{
+                  background: 'none',
+                  border: `1px solid ${theme.colors.border}`,
+                  padding: '4px 6px',
+                  cursor: canGoBack ? 'pointer' : 'default',
+                  display: 'flex',
+                  alignItems: 'center',
+                  color: theme.colors.textSecondary,
+                  borderRadius: '4px',
+                  transition: 'all 0.2s',
+                  opacity: canGoBack ? 1 : 0.4,
+                }}
+              >
+                <ArrowLeft size={14} />
+              </button>
+              <button
+                onClick={goForward}
+                disabled={!canGoForward}
+                title="Forward (Alt+Right)"
+                style={{
+                  background: 'none',
+                  border: `1px solid ${theme.colors.border}`,
+                  padding: '4px 6px',
+                  cursor: canGoForward ? 'pointer' : 'default',
+                  display: 'flex',
+                  alignItems: 'center',
+                  color: theme.colors.textSecondary,
+                  borderRadius: '4px',
+                  transition: 'all 0.2s',
+                  opacity: canGoForward ? 1 : 0.4,
+                }}
+              >
+                <ArrowRight size={14} />
+              </button>
+            </>
+          )}
+
+          <button
+            onClick={() => setIsOutlineOpen((open) => !open)}
+            title={isOutlineOpen ? 'Hide Outline' : 'Show Outline'}
+            style={{
+              background: isOutlineOpen ? theme.colors.backgroundHover : 'none',
+              border: `1px solid ${theme.colors.border}`,
+              padding: '4px 6px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              color: isOutlineOpen ? theme.colors.primary : theme.colors.textSecondary,
+              borderRadius: '4px',
+              transition: 'all 0.2s',
+            }}
+          >
+            <ListTree size={14} />
+          </button>
+
+          <button
+            onClick={() => (isFindOpen ? setIsFindOpen(false) : openFind())}
+            title={isFindOpen ? 'Close Find' : 'Find in Document (Ctrl+F)'}
+            style={{
+              background: isFindOpen ? theme.colors.backgroundHover : 'none',
+              border: `1px solid ${theme.colors.border}`,
+              padding: '4px 6px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              color: isFindOpen ? theme.colors.primary : theme.colors.textSecondary,
+              borderRadius: '4px',
+              transition: 'all 0.2s',
+            }}
+          >
+            <Search size={14} />
+          </button>
+
+          {hasComments && (
+            <button
+              onClick={() => setIsCommentsOpen((open) => !open)}
+              title={`${isCommentsOpen ? 'Hide' : 'Show'} Comments (${documentAnnotations.length})`}
+              style={{
+                position: 'relative',
+                background: isCommentsOpen ? theme.colors.backgroundHover : 'none',
+                border: `1px solid ${theme.colors.border}`,
+                padding: '4px 6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                color: isCommentsOpen ? theme.colors.primary : theme.colors.textSecondary,
+                borderRadius: '4px',
+                transition: 'all 0.2s',
+              }}
+            >
+              <MessageSquare size={14} />
+              {documentAnnotations.some((annotation) => annotation.orphaned) && (
+                <span
+                  style={{
+                    position: 'absolute',
+                    top: '2px',
+                    right: '2px',
+                    width: '6px',
+                    height: '6px',
+                    borderRadius: '50%',
+                    backgroundColor: theme.colors.warning,
+                  }}
+                />
+              )}
+            </button>
+          )}
+
+          <button
+            onClick={() => runExport('download')}
+            disabled={isExporting}
+            title="Export as HTML"
+            style={{
+              background: 'none',
+              border: `1px solid ${theme.colors.border}`,
+              padding: '4px 6px',
+              cursor: isExporting ? 'wait' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colors.textSecondary,
+              borderRadius: '4px',
+              transition: 'all 0.2s',
+            }}
+          >
+            <Download size={14} />
+          </button>
+
+          <button
+            onClick={() => runExport('print')}
+            disabled={isExporting}
+            title="Print / Save as PDF"
+            style={{
+              background: 'none',
+              border: `1px solid ${theme.colors.border}`,
+              padding: '4px 6px',
+              cursor: isExporting ? 'wait' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colors.textSecondary,
+              borderRadius: '4px',
+              transition: 'all 0.2s',
+            }}
+          >
+            <Printer size={14} />
+          </button>
+
           <button
             onClick={handleFontSizeDecrease}
             title="Decrease Font Size"
@@ -424,6 +2462,90 @@ export const MarkdownPanel: React.FC<MarkdownPanelProps> = ({
           >
             <Plus size={14} />
           </button>
+
+          {actions.writeFile && (
+            <button
+              onClick={() => changeViewMode(viewMode === 'edit' ? 'document' : 'edit')}
+              title={
+                viewMode === 'edit'
+                  ? 'Close Editor'
+                  : isDirty
+                    ? 'Edit (unsaved changes)'
+                    : 'Edit'
+              }
+              style={{
+                position: 'relative',
+                background: viewMode === 'edit' ? theme.colors.backgroundHover : 'none',
+                border: `1px solid ${theme.colors.border}`,
+                padding: '4px 6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                color: viewMode === 'edit' ? theme.colors.primary : theme.colors.textSecondary,
+                borderRadius: '4px',
+                transition: 'all 0.2s',
+              }}
+            >
+              <Pencil size={14} />
+              {isDirty && (
+                <span
+                  style={{
+                    position: 'absolute',
+                    top: '2px',
+                    right: '2px',
+                    width: '6px',
+                    height: '6px',
+                    borderRadius: '50%',
+                    backgroundColor: theme.colors.warning,
+                  }}
+                />
+              )}
+            </button>
+          )}
+
+          {(changesPreviousContent !== null || canCompareRevisions) && (
+            <button
+              onClick={toggleChanges}
+              title={
+                viewMode === 'changes'
+                  ? 'Hide Changes'
+                  : changesPreviousContent !== null
+                    ? 'Show Changes'
+                    : 'Compare with HEAD'
+              }
+              style={{
+                background: viewMode === 'changes' ? theme.colors.backgroundHover : 'none',
+                border: `1px solid ${theme.colors.border}`,
+                padding: '4px 6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                color: viewMode === 'changes' ? theme.colors.primary : theme.colors.textSecondary,
+                borderRadius: '4px',
+                transition: 'all 0.2s',
+              }}
+            >
+              <GitCompare size={14} />
+            </button>
+          )}
+
+          <button
+            onClick={() => changeViewMode(viewMode === 'slides' ? 'document' : 'slides')}
+            title={viewMode === 'slides' ? 'Document View' : 'Presentation View'}
+            style={{
+              background: 'none',
+              border: `1px solid ${theme.colors.border}`,
+              padding: '4px 6px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              color: theme.colors.textSecondary,
+              borderRadius: '4px',
+              transition: 'all 0.2s',
+            }}
+          >
+            {viewMode === 'slides' ? <FileText size={14} /> : <Presentation size={14} />}
+          </button>
         </div>
       )}
     </div>
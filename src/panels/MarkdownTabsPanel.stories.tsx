@@ -0,0 +1,122 @@
+import { useEffect, useMemo } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { MarkdownTabsPanel } from './MarkdownTabsPanel';
+import { createMockContext, createMockActions, createMockEvents } from '../mocks/panelContext';
+import { ThemeProvider, slateTheme } from '@principal-ade/industry-theme';
+import type { MarkdownPanelContext } from '../types';
+
+const meta = {
+  title: 'Panels/MarkdownTabsPanel',
+  component: MarkdownTabsPanel,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <ThemeProvider theme={slateTheme}>
+        <div style={{ height: '100vh', width: '100vw' }}>
+          <Story />
+        </div>
+      </ThemeProvider>
+    ),
+  ],
+} satisfies Meta<typeof MarkdownTabsPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// In-memory repository for the stories
+const mockFiles: Record<string, string> = {
+  'README.md': `# My Project
+
+See the [architecture notes](docs/architecture.md) and the [changelog](CHANGELOG.md).
+
+## Getting Started
+
+1. Install dependencies
+2. Run the dev server
+`,
+  'docs/architecture.md': `# Architecture
+
+## Overview
+
+The app is split into panels that talk to each other through events.
+
+## Panels
+
+- Markdown viewer
+- Markdown tabs
+`,
+  'CHANGELOG.md': `# Changelog
+
+## 0.3.0
+
+- Tabs for markdown documents
+
+## 0.2.0
+
+- Presentation view
+`,
+};
+
+// Opens a few tabs through markdown-panel:open-file events once mounted
+const TabsDemo = ({ pinnedFile }: { pinnedFile?: string }) => {
+  const props = useMemo(() => {
+    const files = { ...mockFiles };
+    return {
+      context: createMockContext<MarkdownPanelContext>(),
+      actions: {
+        ...createMockActions(),
+        readFile: async (path: string) => {
+          console.log('[Mock] Reading file:', path);
+          if (!(path in files)) throw new Error(`File not found: ${path}`);
+          return files[path];
+        },
+        writeFile: async (path: string, content: string) => {
+          console.log('[Mock] Writing file:', path, `${content.length} chars`);
+          files[path] = content;
+        },
+      },
+      events: createMockEvents(),
+    };
+  }, []);
+
+  useEffect(() => {
+    for (const path of Object.keys(mockFiles)) {
+      props.events.emit({
+        type: 'markdown-panel:open-file',
+        source: 'storybook',
+        timestamp: Date.now(),
+        payload: { path, pinned: path === pinnedFile },
+      });
+    }
+  }, [props, pinnedFile]);
+
+  return <MarkdownTabsPanel {...props} />;
+};
+
+export const Default: Story = {
+  args: {
+    context: createMockContext<MarkdownPanelContext>(),
+    actions: { ...createMockActions(), readFile: async () => '' },
+    events: createMockEvents(),
+  },
+  render: () => <TabsDemo />,
+};
+
+export const PinnedTab: Story = {
+  args: Default.args,
+  render: () => <TabsDemo pinnedFile="CHANGELOG.md" />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'The pinned tab stays at the start of the strip and has no close button.',
+      },
+    },
+  },
+};
+
+export const Empty: Story = {
+  args: Default.args,
+};
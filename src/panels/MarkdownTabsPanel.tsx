@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { FileText } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import type {
+  PanelComponentProps,
+  PanelEvent,
+  PanelEventEmitter,
+  MarkdownPanelActions,
+  MarkdownPanelContext,
+} from '../types';
+import { MarkdownPanel } from './MarkdownPanel';
+import type { ContentChangeInfo } from './MarkdownPanel';
+import { MarkdownTabBar } from '../components/MarkdownTabBar';
+import { useMarkdownTabs } from '../hooks/useMarkdownTabs';
+import { useDocumentLinks } from '../hooks/useDocumentLinks';
+import { isMarkdownPath } from '../utils/markdownLinks';
+import { collectMarkdownPaths } from '../utils/docsTree';
+
+export type MarkdownTabsPanelProps = PanelComponentProps<
+  MarkdownPanelActions,
+  MarkdownPanelContext
+>;
+
+/**
+ * Events delivered to every tab; all other events only reach the active tab,
+ * so tool invocations and requests are answered once
+ */
+const SHARED_EVENTS = new Set(['markdown-panel:set-preferences']);
+
+/**
+ * Event emitter for one tab's MarkdownPanel. Events it emits go to the host
+ * after being passed to onEmit; events it listens for are dropped while the
+ * tab isn't active (except SHARED_EVENTS).
+ */
+const createTabEvents = (
+  events: PanelEventEmitter,
+  tabId: string,
+  isActive: (tabId: string) => boolean,
+  onEmit: (tabId: string, event: PanelEvent<unknown>) => void
+): PanelEventEmitter => {
+  // Listeners registered with the host, by event type and original handler
+  const listeners = new Map<string, Map<unknown, (event: PanelEvent<unknown>) => void>>();
+
+  return {
+    emit: <T,>(event: PanelEvent<T>) => {
+      onEmit(tabId, event);
+      events.emit(event);
+    },
+    on: <T,>(type: string, handler: (event: PanelEvent<T>) => void) => {
+      const listener = (event: PanelEvent<unknown>) => {
+        if (SHARED_EVENTS.has(type) || isActive(tabId)) {
+          handler(event as PanelEvent<T>);
+        }
+      };
+      if (!listeners.has(type)) listeners.set(type, new Map());
+      listeners.get(type)!.set(handler, listener);
+      const unsubscribe = events.on(type, listener);
+      return () => {
+        listeners.get(type)?.delete(handler);
+        unsubscribe();
+      };
+    },
+    off: <T,>(type: string, handler: (event: PanelEvent<T>) => void) => {
+      const listener = listeners.get(type)?.get(handler);
+      if (!listener) return;
+      listeners.get(type)!.delete(handler);
+      events.off(type, listener);
+    },
+  };
+};
+
+/**
+ * MarkdownTabsPanel - Several markdown documents in tabs, each shown by its
+ * own MarkdownPanel
+ *
+ * - Opens (or focuses) a tab for the host's active markdown file and for
+ *   `markdown-panel:open-file` events
+ * - Makes the focused tab's file the host's active file (with actions.openFile),
+ *   so edits to it made elsewhere reach the tab
+ * - Tabs can be closed, reordered by dragging, and pinned to the start of the strip
+ * - Shows which tabs have unsaved edits and which files changed on disk since
+ *   their tab was last shown
+ * - Inactive tabs stay mounted (hidden), so scroll position, view mode and
+ *   unsaved edits survive switching; only the active tab answers tool calls
+ * - A tab follows links to other markdown files, keeping its own back/forward history
+ * - Tabs share one index of the links between documents, for their "Linked from" strips
+ */
+export const MarkdownTabsPanel: React.FC<MarkdownTabsPanelProps> = ({
+  context,
+  actions,
+  events,
+}) => {
+  const { theme } = useTheme();
+  const { tabs, activeTab, open, close, activate, move, togglePin, setPath } = useMarkdownTabs();
+  const [dirtyIds, setDirtyIds] = useState<Set<string>>(() => new Set());
+  const [changedIds, setChangedIds] = useState<Set<string>>(() => new Set());
+
+  const activeId = activeTab?.id ?? null;
+  const activeIdRef = useRef<string | null>(activeId);
+  activeIdRef.current = activeId;
+
+  const updateIdSet = useCallback(
+    (setIds: React.Dispatch<React.SetStateAction<Set<string>>>, id: string, include: boolean) => {
+      setIds((prev) => {
+        if (prev.has(id) === include) return prev;
+        const next = new Set(prev);
+        if (include) {
+          next.add(id);
+        } else {
+          next.delete(id);
+        }
+        return next;
+      });
+    },
+    []
+  );
+
+  // Each tab reports the file it shows (it changes when following a link) and
+  // whether it has unsaved edits with dirty-state-change, and external edits
+  // with content-changed
+  const handleTabEmit = useCallback(
+    (tabId: string, event: PanelEvent<unknown>) => {
+      if (event.type === 'markdown-panel:dirty-state-change') {
+        const { path, dirty } = event.payload as { path: string; dirty: boolean };
+        setPath(tabId, path);
+        updateIdSet(setDirtyIds, tabId, dirty);
+      } else if (event.type === 'markdown-panel:content-changed') {
+        const change = event.payload as ContentChangeInfo;
+        if (change.source === 'external' && activeIdRef.current !== tabId) {
+          updateIdSet(setChangedIds, tabId, true);
+        }
+      }
+    },
+    [setPath, updateIdSet]
+  );
+
+  const handleTabEmitRef = useRef(handleTabEmit);
+  handleTabEmitRef.current = handleTabEmit;
+
+  // Emitters are created once per tab so its panel's subscriptions stay put
+  const tabEventsRef = useRef(new Map<string, PanelEventEmitter>());
+  const getTabEvents = (tabId: string): PanelEventEmitter => {
+    let tabEvents = tabEventsRef.current.get(tabId);
+    if (!tabEvents) {
+      tabEvents = createTabEvents(
+        events,
+        tabId,
+        (id) => activeIdRef.current === id,
+        (id, event) => handleTabEmitRef.current(id, event)
+      );
+      tabEventsRef.current.set(tabId, tabEvents);
+    }
+    return tabEvents;
+  };
+
+  // Forget state kept for closed tabs
+  useEffect(() => {
+    const openIds = new Set(tabs.map((tab) => tab.id));
+    for (const id of tabEventsRef.current.keys()) {
+      if (!openIds.has(id)) tabEventsRef.current.delete(id);
+    }
+    const prune = (prev: Set<string>) =>
+      [...prev].every((id) => openIds.has(id))
+        ? prev
+        : new Set([...prev].filter((id) => openIds.has(id)));
+    setDirtyIds(prune);
+    setChangedIds(prune);
+  }, [tabs]);
+
+  // A tab's changes have been seen once it's shown
+  useEffect(() => {
+    if (activeId) updateIdSet(setChangedIds, activeId, false);
+  }, [activeId, updateIdSet]);
+
+  // Open a tab for the host's active file (set by actions.openFile)
+  const hostPath = context.activeFile?.data?.path;
+  useEffect(() => {
+    if (hostPath && isMarkdownPath(hostPath)) {
+      open(hostPath);
+    }
+  }, [hostPath, open]);
+
+  // Make the shown tab the host's active file too, so the active-file slice
+  // (and the external edits it reports) follows whichever tab is focused.
+  // The host path effect above then finds the tab already open.
+  const hostPathRef = useRef(hostPath);
+  hostPathRef.current = hostPath;
+  const activePath = activeTab?.path;
+  useEffect(() => {
+    if (activePath && activePath !== hostPathRef.current) {
+      actions.openFile?.(activePath);
+    }
+  }, [activePath, actions]);
+
+  // Links between the repository's documents, read once for every tab's "Linked from" strip
+  const fileTree = context.fileTree?.data;
+  const documentPaths = useMemo(() => (fileTree ? collectMarkdownPaths(fileTree) : []), [fileTree]);
+  const documentLinks = useDocumentLinks({
+    paths: documentPaths,
+    readFile: actions.readFile,
+    events,
+    repositoryPath: context.currentScope?.repository?.path,
+    lazy: true,
+  });
+
+  // Open files requested by other panels
+  useEffect(() => {
+    const unsubscribe = events.on('markdown-panel:open-file', (event) => {
+      const { path, pinned } = (event.payload || {}) as { path?: string; pinned?: boolean };
+      if (path) {
+        open(path, { pinned });
+      }
+    });
+    return unsubscribe;
+  }, [events, open]);
+
+  const closeTab = useCallback(
+    (id: string) => {
+      const tab = tabs.find((t) => t.id === id);
+      if (
+        tab &&
+        dirtyIds.has(id) &&
+        !window.confirm(`${tab.path} has unsaved changes. Close it anyway?`)
+      ) {
+        return;
+      }
+      close(id);
+    },
+    [tabs, dirtyIds, close]
+  );
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        height: '100%',
+        backgroundColor: theme.colors.background,
+      }}
+    >
+      {tabs.length > 0 && (
+        <MarkdownTabBar
+          tabs={tabs}
+          activeId={activeId}
+          dirtyIds={dirtyIds}
+          changedIds={changedIds}
+          onActivate={activate}
+          onClose={closeTab}
+          onTogglePin={togglePin}
+          onMove={move}
+          theme={theme}
+        />
+      )}
+
+      <div style={{ flex: 1, minHeight: 0, position: 'relative' }}>
+        {tabs.map((tab) => (
+          <div
+            key={tab.id}
+            role="tabpanel"
+            style={{
+              position: 'absolute',
+              inset: 0,
+              // Hidden rather than display: none, which would reset scroll positions
+              visibility: tab.id === activeId ? 'visible' : 'hidden',
+            }}
+          >
+            <MarkdownPanel
+              context={context}
+              actions={actions}
+              events={getTabEvents(tab.id)}
+              filePath={tab.path}
+              documentLinks={documentLinks}
+            />
+          </div>
+        ))}
+
+        {tabs.length === 0 && (
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '12px',
+              height: '100%',
+              color: theme.colors.textSecondary,
+              fontFamily: theme.fonts.body,
+            }}
+          >
+            <FileText size={32} />
+            <p>Open a markdown file to view it in a tab</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,8 @@
  *
  * UTCP-compatible tools for the Markdown panel extension.
  * These tools can be invoked by AI agents and emit events that panels listen for.
+ * After handling a tool event, the panel emits `<event_type>:result` with a
+ * payload matching the tool's `outputs` schema.
  *
  * IMPORTANT: This file should NOT import any React components to ensure
  * it can be imported server-side without pulling in React dependencies.
@@ -69,6 +71,7 @@ export const navigateSlideTool: PanelTool = {
     type: 'object',
     properties: {
       success: { type: 'boolean' },
+      message: { type: 'string' },
       currentSlide: { type: 'number' },
       totalSlides: { type: 'number' },
     },
@@ -101,6 +104,7 @@ export const changeFontSizeTool: PanelTool = {
     type: 'object',
     properties: {
       success: { type: 'boolean' },
+      message: { type: 'string' },
       currentSize: { type: 'string' },
     },
   },
@@ -111,6 +115,545 @@ export const changeFontSizeTool: PanelTool = {
   },
 };
 
+/**
+ * Tool: Find In Document
+ */
+export const findInDocumentTool: PanelTool = {
+  name: 'find_in_document',
+  description:
+    'Finds text in the markdown document and returns the match count and the sections containing matches',
+  inputs: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'The text (or regular expression) to find',
+      },
+      caseSensitive: {
+        type: 'boolean',
+        description: 'Whether matching is case-sensitive',
+      },
+      wholeWord: {
+        type: 'boolean',
+        description: 'Whether to match whole words only',
+      },
+      regex: {
+        type: 'boolean',
+        description: 'Whether the query is a regular expression',
+      },
+      highlight: {
+        type: 'boolean',
+        description: 'Whether to open the find bar and highlight matches (defaults to true)',
+      },
+    },
+    required: ['query'],
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      matchCount: { type: 'number' },
+      matches: {
+        type: 'array',
+        description: 'Up to 100 matches in document order',
+        items: {
+          type: 'object',
+          properties: {
+            line: { type: 'number' },
+            column: { type: 'number' },
+            text: { type: 'string' },
+            snippet: { type: 'string' },
+            sectionId: { type: 'string' },
+            sectionTitle: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  tags: ['markdown', 'search', 'find'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:find-in-document',
+  },
+};
+
+/**
+ * Tool: Export Document
+ */
+export const exportDocumentTool: PanelTool = {
+  name: 'export_document',
+  description:
+    'Exports the rendered markdown document as a self-contained HTML page (inlined styles, highlighted code, embedded images, print stylesheet)',
+  inputs: {
+    type: 'object',
+    properties: {
+      embedImages: {
+        type: 'boolean',
+        description: 'Whether to embed images as data URLs (defaults to true)',
+      },
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      title: { type: 'string' },
+      html: { type: 'string', description: 'The complete HTML document' },
+    },
+  },
+  tags: ['markdown', 'export', 'html', 'print'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:export-document',
+  },
+};
+
+/**
+ * Input shared by the document-reading tools: a correlation ID echoed in the result
+ */
+const requestIdInput = {
+  type: 'string',
+  description: 'Correlation ID echoed in the result so it can be matched to this request',
+} as const;
+
+/**
+ * Output shared by the document-reading tools, identifying the answer and what it describes
+ */
+const documentResultOutputs: PanelTool['outputs']['properties'] = {
+  success: { type: 'boolean' },
+  message: { type: 'string' },
+  requestId: {
+    type: 'string',
+    description: 'The correlation ID from the request, or one generated when none was given',
+  },
+  path: { type: ['string', 'null'], description: 'The file the answer describes' },
+  revision: {
+    type: ['string', 'null'],
+    description: 'Hash of the document content, which changes whenever the content does',
+  },
+};
+
+/**
+ * Tool: Get Document Outline
+ */
+export const getDocumentOutlineTool: PanelTool = {
+  name: 'get_document_outline',
+  description: 'Returns the heading tree of the markdown document shown in the panel',
+  inputs: {
+    type: 'object',
+    properties: {
+      maxLevel: {
+        type: 'number',
+        description: 'Deepest heading level to include (1-6, defaults to all)',
+      },
+      requestId: requestIdInput,
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      ...documentResultOutputs,
+      headings: {
+        type: 'array',
+        description: 'Top-level headings, each with nested children',
+        items: {
+          type: 'object',
+          properties: {
+            level: { type: 'number' },
+            text: { type: 'string' },
+            id: { type: 'string' },
+            line: { type: 'number' },
+            children: { type: 'array' },
+          },
+        },
+      },
+    },
+  },
+  tags: ['markdown', 'read', 'outline'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:get-document-outline',
+  },
+};
+
+/**
+ * Tool: Get Section Content
+ */
+export const getSectionContentTool: PanelTool = {
+  name: 'get_section_content',
+  description: 'Returns the markdown under a heading of the document shown in the panel',
+  inputs: {
+    type: 'object',
+    properties: {
+      sectionId: {
+        type: 'string',
+        description: 'The ID, slug or text of the section heading',
+      },
+      includeSubsections: {
+        type: 'boolean',
+        description: 'Whether to include nested sections (defaults to true)',
+      },
+      requestId: requestIdInput,
+    },
+    required: ['sectionId'],
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      ...documentResultOutputs,
+      sectionId: { type: 'string' },
+      title: { type: 'string' },
+      level: { type: 'number' },
+      breadcrumb: { type: 'array', items: { type: 'string' } },
+      startLine: { type: 'number' },
+      endLine: { type: 'number' },
+      content: { type: 'string' },
+    },
+  },
+  tags: ['markdown', 'read', 'section'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:get-section-content',
+  },
+};
+
+/**
+ * Tool: Get Visible Section
+ */
+export const getVisibleSectionTool: PanelTool = {
+  name: 'get_visible_section',
+  description:
+    'Returns what the user is looking at in the markdown panel: the current section or slide, the headings in view and any selected text',
+  inputs: {
+    type: 'object',
+    properties: {
+      includeContent: {
+        type: 'boolean',
+        description:
+          'Whether to include the markdown of the current section or slide (defaults to true)',
+      },
+      requestId: requestIdInput,
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      ...documentResultOutputs,
+      viewMode: { type: 'string' },
+      sectionId: { type: ['string', 'null'] },
+      title: { type: ['string', 'null'] },
+      breadcrumb: { type: 'array', items: { type: 'string' } },
+      visibleSectionIds: { type: 'array', items: { type: 'string' } },
+      slide: {
+        type: ['object', 'null'],
+        properties: {
+          index: { type: 'number' },
+          total: { type: 'number' },
+        },
+      },
+      selectedText: { type: ['string', 'null'] },
+      content: { type: 'string' },
+    },
+  },
+  tags: ['markdown', 'read', 'viewport'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:get-visible-section',
+  },
+};
+
+/**
+ * Tool: Get Active Document
+ */
+export const getActiveDocumentTool: PanelTool = {
+  name: 'get_active_document',
+  description:
+    'Returns the path, title, frontmatter and size (word count, reading time, sections, code blocks) of the markdown document shown in the panel',
+  inputs: {
+    type: 'object',
+    properties: {
+      requestId: requestIdInput,
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      ...documentResultOutputs,
+      title: { type: 'string' },
+      frontmatter: { type: ['object', 'null'] },
+      frontmatterFormat: { type: ['string', 'null'], enum: ['yaml', 'toml', null] },
+      wordCount: { type: 'number' },
+      lineCount: { type: 'number' },
+      headingCount: { type: 'number' },
+      stats: {
+        type: 'object',
+        description: 'Size of the document, for tracking it over time',
+        properties: {
+          wordCount: { type: 'number' },
+          readingTimeMinutes: { type: 'number', description: 'Estimated minutes to read' },
+          sectionCount: { type: 'number' },
+          codeBlockCount: { type: 'number' },
+        },
+      },
+      viewMode: { type: 'string' },
+      isDirty: { type: 'boolean', description: 'Whether the editor has unsaved changes' },
+    },
+  },
+  tags: ['markdown', 'read', 'document'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:get-active-document',
+  },
+};
+
+/**
+ * Tool: Highlight Text
+ */
+export const highlightTextTool: PanelTool = {
+  name: 'highlight_text',
+  description:
+    'Highlights a section or a quoted span of text in the rendered markdown document, with an optional note shown on hover, and scrolls it into view',
+  inputs: {
+    type: 'object',
+    properties: {
+      sectionId: {
+        type: 'string',
+        description:
+          'Section ID, slug or heading text. Highlights the whole section, or limits the search for text to it',
+      },
+      text: {
+        type: 'string',
+        description: 'Text to highlight, quoted from the rendered document',
+      },
+      occurrence: {
+        type: 'number',
+        description: 'Which match of the text to highlight (0-based, defaults to the first)',
+      },
+      note: {
+        type: 'string',
+        description: 'Note shown when hovering the highlight',
+      },
+      source: {
+        type: 'string',
+        description:
+          'Who is adding the highlight, shown in its note and used by clear_highlights (defaults to "agent")',
+      },
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      highlightId: { type: 'string', description: 'ID for removing this highlight' },
+      path: { type: 'string' },
+    },
+  },
+  tags: ['markdown', 'highlight', 'annotation'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:highlight-text',
+  },
+};
+
+/**
+ * Tool: Clear Highlights
+ */
+export const clearHighlightsTool: PanelTool = {
+  name: 'clear_highlights',
+  description:
+    'Removes highlights from the markdown document: all of them, those from one source, or a single highlight',
+  inputs: {
+    type: 'object',
+    properties: {
+      source: {
+        type: 'string',
+        description: 'Only remove highlights added by this source',
+      },
+      highlightId: {
+        type: 'string',
+        description: 'Only remove the highlight with this ID',
+      },
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      cleared: { type: 'number', description: 'Number of highlights removed' },
+    },
+  },
+  tags: ['markdown', 'highlight', 'annotation'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:clear-highlights',
+  },
+};
+
+/**
+ * Tool: Lint Document
+ */
+export const lintDocumentTool: PanelTool = {
+  name: 'lint_document',
+  description:
+    'Checks the markdown document for broken anchors, relative links to files that cannot be loaded, images without alt text, skipped heading levels and duplicate heading slugs',
+  inputs: {
+    type: 'object',
+    properties: {
+      requestId: requestIdInput,
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      ...documentResultOutputs,
+      counts: {
+        type: 'object',
+        properties: {
+          error: { type: 'number' },
+          warning: { type: 'number' },
+        },
+      },
+      diagnostics: {
+        type: 'array',
+        description: 'Problems found, in document order',
+        items: {
+          type: 'object',
+          properties: {
+            rule: {
+              type: 'string',
+              enum: [
+                'broken-anchor',
+                'broken-link',
+                'missing-alt-text',
+                'skipped-heading-level',
+                'duplicate-slug',
+              ],
+            },
+            severity: { type: 'string', enum: ['error', 'warning'] },
+            message: { type: 'string' },
+            line: { type: 'number', description: '1-based line in the source' },
+            column: { type: 'number', description: '0-based column in the line' },
+            sectionId: { type: 'string', description: 'Slug of the section with the problem' },
+            target: { type: 'string', description: 'Link target or heading slug' },
+          },
+        },
+      },
+    },
+  },
+  tags: ['markdown', 'read', 'lint'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:lint-document',
+  },
+};
+
+/**
+ * Tool: Show Rendered Diff
+ */
+export const showRenderedDiffTool: PanelTool = {
+  name: 'show_rendered_diff',
+  description:
+    'Shows the rendered document with the blocks and words changed since a git revision (or since the last external edit) highlighted, in one document or side by side',
+  inputs: {
+    type: 'object',
+    properties: {
+      ref: {
+        type: 'string',
+        description:
+          'Git revision to compare with, e.g. HEAD or main. Defaults to the last external edit if there is one, otherwise HEAD',
+      },
+      layout: {
+        type: 'string',
+        enum: ['unified', 'side-by-side'],
+        description: 'Show both versions in one document or side by side',
+      },
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      ref: { type: 'string', description: 'Revision compared with (null for an external edit)' },
+      layout: { type: 'string', enum: ['unified', 'side-by-side'] },
+    },
+  },
+  tags: ['markdown', 'git', 'diff'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:show-rendered-diff',
+  },
+};
+
+/**
+ * Tool: Search Docs
+ */
+export const searchDocsTool: PanelTool = {
+  name: 'search_docs',
+  description:
+    'Searches every markdown file in the repository and returns the best matching sections, ranked with heading matches above body text and code',
+  inputs: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Words to search for; the last word also matches words starting with it',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results (defaults to 20)',
+      },
+      requestId: requestIdInput,
+    },
+    required: ['query'],
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      requestId: {
+        type: 'string',
+        description: 'The correlation ID from the request, or one generated when none was given',
+      },
+      query: { type: 'string' },
+      indexedDocuments: { type: 'number', description: 'Number of documents searched' },
+      results: {
+        type: 'array',
+        description: 'Matching sections, best first',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string' },
+            title: { type: 'string', description: 'Document title, if it has one' },
+            sectionId: {
+              type: 'string',
+              description: 'Slug of the section heading (null for text before the first heading)',
+            },
+            breadcrumb: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Headings enclosing the section, outermost first',
+            },
+            line: { type: 'number', description: '1-based line where the section starts' },
+            score: { type: 'number' },
+            snippet: { type: 'string', description: 'Text of the section around the first match' },
+          },
+        },
+      },
+    },
+  },
+  tags: ['markdown', 'search', 'repository'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.markdown-panels:search-docs',
+  },
+};
+
 /**
  * All tools exported as an array.
  */
@@ -118,8 +661,23 @@ export const markdownPanelTools: PanelTool[] = [
   scrollToSectionTool,
   navigateSlideTool,
   changeFontSizeTool,
+  findInDocumentTool,
+  exportDocumentTool,
+  getDocumentOutlineTool,
+  getSectionContentTool,
+  getVisibleSectionTool,
+  getActiveDocumentTool,
+  highlightTextTool,
+  clearHighlightsTool,
+  lintDocumentTool,
+  showRenderedDiffTool,
 ];
 
+/**
+ * Tools provided by the Docs Search panel.
+ */
+export const docsSearchPanelTools: PanelTool[] = [searchDocsTool];
+
 /**
  * Panel tools metadata for registration with PanelToolRegistry.
  */
@@ -127,5 +685,5 @@ export const markdownPanelToolsMetadata: PanelToolsMetadata = {
   id: 'industry-theme.markdown-panels',
   name: 'Markdown Panel',
   description: 'Tools provided by the markdown rendering panel extension',
-  tools: markdownPanelTools,
+  tools: [...markdownPanelTools, ...docsSearchPanelTools],
 };
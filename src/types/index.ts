@@ -19,6 +19,7 @@ export type {
 import type {
   PanelActions,
   ActiveFileContext,
+  DataSlice,
 } from '@principal-ade/panel-framework-core';
 
 /**
@@ -36,6 +37,33 @@ export interface GitStatus {
   deleted: string[];
 }
 
+/**
+ * Lines of a file changed since HEAD, as in a diff hunk.
+ */
+export interface GitLineChange {
+  kind: 'added' | 'modified' | 'deleted';
+  /**
+   * First changed line in the working copy (1-based).
+   * For deletions, the line that followed the removed lines.
+   */
+  startLine: number;
+  /** Last changed line in the working copy (inclusive); startLine for deletions */
+  endLine: number;
+}
+
+/**
+ * Git information for the Markdown Panel's git slice.
+ */
+export interface MarkdownGitData {
+  /** Working tree status of the repository */
+  status: GitStatus;
+  /**
+   * Lines changed since HEAD, by repository path.
+   * Optional - files without an entry get no change gutter.
+   */
+  lineChanges?: Record<string, GitLineChange[]>;
+}
+
 /**
  * File tree node structure.
  */
@@ -73,6 +101,56 @@ export interface QualityMetrics {
   complexity?: number;
 }
 
+/**
+ * How the panel presents the document
+ * - document: the whole file in a single scrollable view
+ * - slides: one slide at a time, split on `---` or headings
+ * - changes: the document with what changed since the last external edit, or since
+ *   a git revision, highlighted
+ * - edit: source editor with a live preview (requires the writeFile action)
+ */
+export type MarkdownViewMode = 'document' | 'slides' | 'changes' | 'edit';
+
+/**
+ * How a file was last viewed
+ */
+export interface MarkdownViewState {
+  /** Scroll offset (px) of the document view */
+  scrollTop: number;
+  /** Slug of the section in view, if any */
+  sectionId: string | null;
+  viewMode: MarkdownViewMode;
+  /** 0-based slide index in slides mode */
+  slideIndex: number;
+  fontSizeScale: number;
+}
+
+/**
+ * Where a comment is attached
+ */
+export interface MarkdownAnnotationAnchor {
+  /** Slug of the heading whose section holds the quote (null before the first heading) */
+  sectionId: string | null;
+  /** The commented text, as rendered */
+  exact: string;
+  /** Text just before the quote, used to tell repeated quotes apart */
+  prefix?: string;
+  /** Text just after the quote */
+  suffix?: string;
+}
+
+/**
+ * A comment on a document
+ */
+export interface MarkdownAnnotation {
+  id: string;
+  anchor: MarkdownAnnotationAnchor;
+  body: string;
+  createdAt: number;
+  /** Whether the anchor couldn't be found the last time the document was shown */
+  orphaned: boolean;
+}
+
 /**
  * Actions interface for Markdown Panel
  * Defines the actions this panel requires from the host
@@ -83,6 +161,55 @@ export interface MarkdownPanelActions extends PanelActions {
    * Required for loading markdown files (both filePath prop and active-file slice modes).
    */
   readFile: (path: string) => Promise<string>;
+  /**
+   * Write string contents to a file.
+   * Optional - when provided, task list checkboxes become interactive and
+   * toggling one rewrites the matching line in the source file, and the
+   * panel offers an edit mode that saves through this action.
+   */
+  writeFile?: (path: string, content: string) => Promise<void>;
+  /**
+   * Resolve a repository path to a URL the browser can load (http(s), blob or data).
+   * Optional - when provided, relative images and other assets are loaded
+   * through it instead of raw GitHub URLs. Takes precedence over readBinaryFile.
+   */
+  resolveAssetUrl?: (path: string) => string | Promise<string>;
+  /**
+   * Read file contents as binary data.
+   * Optional - when provided (and resolveAssetUrl isn't), relative images and
+   * other assets are read through it and shown via blob URLs.
+   */
+  readBinaryFile?: (path: string) => Promise<ArrayBuffer | Uint8Array | Blob>;
+  /**
+   * Load how a file was last viewed (scroll offset, section, view mode, slide, font scale).
+   * Optional - when provided together with saveViewState, view state is kept
+   * by the host instead of in localStorage. Resolve null for files never viewed.
+   */
+  loadViewState?: (path: string) => Promise<MarkdownViewState | null>;
+  /**
+   * Store how a file is being viewed.
+   * Optional - called (debounced) as the view changes and when switching files.
+   */
+  saveViewState?: (path: string, state: MarkdownViewState) => Promise<void>;
+  /**
+   * Load the comments left on a file.
+   * Optional - when provided, a file's comments are shown as margin markers
+   * and in a comments sidebar. Resolve an empty array for files without comments.
+   */
+  loadAnnotations?: (path: string) => Promise<MarkdownAnnotation[]>;
+  /**
+   * Store the comments on a file.
+   * Optional - when provided, text in the document can be selected and
+   * commented on. Called with all of the file's comments whenever they change,
+   * including when comments are flagged as orphaned.
+   */
+  saveAnnotations?: (path: string, annotations: MarkdownAnnotation[]) => Promise<void>;
+  /**
+   * Read a file's contents at a git revision (a commit, branch or tag).
+   * Optional - when provided, the changes view can compare the document with
+   * a revision, HEAD by default. The path is relative to the repository root.
+   */
+  readFileAtRevision?: (path: string, ref: string) => Promise<string>;
 }
 
 /**
@@ -92,4 +219,46 @@ export interface MarkdownPanelActions extends PanelActions {
 export interface MarkdownPanelContext extends ActiveFileContext {
   // Markdown panel uses:
   // - activeFile: For rendering markdown content
+  /**
+   * Repository file tree.
+   * Optional - when provided, the markdown files in it are read to list the
+   * documents linking to the open one.
+   */
+  fileTree?: DataSlice<FileTree>;
+  /**
+   * Git status and changed lines.
+   * Optional - when provided, the panel shows the open file's git status with
+   * a button to view its diff, and marks the sections changed since HEAD.
+   */
+  git?: DataSlice<MarkdownGitData>;
+}
+
+/**
+ * Context interface for the Docs Browser panel
+ * Defines the typed data slices this panel reads
+ */
+export interface DocsBrowserContext extends MarkdownPanelContext {
+  /**
+   * Repository file tree.
+   * Every markdown file in it is listed.
+   */
+  fileTree?: DataSlice<FileTree>;
+  /**
+   * Markdown files with their titles and modification times.
+   * Optional - merged with the file tree; titles missing from both are read
+   * from the documents, and files without a modification time sort last.
+   */
+  markdownFiles?: DataSlice<MarkdownFile[]>;
+}
+
+/**
+ * Context interface for the Docs Search panel
+ * Defines the typed data slices this panel reads
+ */
+export interface DocsSearchContext extends MarkdownPanelContext {
+  /**
+   * Repository file tree.
+   * Every markdown file in it is read and indexed for search.
+   */
+  fileTree?: DataSlice<FileTree>;
 }
@@ -0,0 +1,54 @@
+/**
+ * Comment annotations
+ *
+ * Reviewers' comments on a document, left without editing it. Each comment is
+ * anchored by the quoted text (with a little context either side), so the
+ * document view can find it again after the document is edited, and records
+ * the section it was made in. A comment whose anchor can't be found any more
+ * is flagged as orphaned rather than dropped. Hosts store comments through the
+ * loadAnnotations/saveAnnotations actions.
+ */
+
+import type { MarkdownAnnotation, MarkdownAnnotationAnchor } from '../types';
+
+/**
+ * Unique ID for a new comment (comments are stored, so IDs must stay unique across sessions)
+ */
+export const createAnnotationId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Check stored comments, which may come from an older version or a host.
+ * Entries that aren't valid comments are dropped.
+ */
+export const normalizeAnnotations = (value: unknown): MarkdownAnnotation[] => {
+  if (!Array.isArray(value)) return [];
+  const isString = (s: unknown): s is string => typeof s === 'string';
+
+  return value.flatMap((item): MarkdownAnnotation[] => {
+    if (typeof item !== 'object' || item === null) return [];
+    const annotation = item as Partial<Record<keyof MarkdownAnnotation, unknown>>;
+    const anchor = (annotation.anchor ?? {}) as Partial<
+      Record<keyof MarkdownAnnotationAnchor, unknown>
+    >;
+    if (!isString(annotation.id) || !isString(annotation.body) || !isString(anchor.exact)) {
+      return [];
+    }
+    return [
+      {
+        id: annotation.id,
+        anchor: {
+          sectionId: isString(anchor.sectionId) ? anchor.sectionId : null,
+          exact: anchor.exact,
+          ...(isString(anchor.prefix) && { prefix: anchor.prefix }),
+          ...(isString(anchor.suffix) && { suffix: anchor.suffix }),
+        },
+        body: annotation.body,
+        createdAt: typeof annotation.createdAt === 'number' ? annotation.createdAt : 0,
+        orphaned: annotation.orphaned === true,
+      },
+    ];
+  });
+};
@@ -0,0 +1,128 @@
+/**
+ * Documentation tree utilities
+ *
+ * Builds the Docs Browser's tree of markdown files out of the repository's
+ * file tree and the metadata known for each file. Recently modified
+ * documents are listed first, and directories are ordered by their most
+ * recently modified document.
+ */
+
+import type { FileTree, MarkdownFile } from '../types';
+import { extractFrontmatter, getFrontmatterTitle } from './frontmatter';
+import { extractHeadings } from './markdownHeadings';
+import { isMarkdownPath } from './markdownLinks';
+
+/**
+ * A file or directory in the documentation tree
+ */
+export interface DocsTreeNode {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  /** Document title, when known (files only) */
+  title?: string;
+  /**
+   * Last modification time (ms since epoch, 0 if unknown). For directories,
+   * that of the most recently modified document inside.
+   */
+  lastModified: number;
+  children?: DocsTreeNode[];
+}
+
+/**
+ * Paths of all markdown files in a file tree
+ */
+export const collectMarkdownPaths = (tree: FileTree): string[] => {
+  if (tree.type === 'file') {
+    return isMarkdownPath(tree.path) ? [tree.path] : [];
+  }
+  return (tree.children ?? []).flatMap(collectMarkdownPaths);
+};
+
+/**
+ * A document's title: the frontmatter title, or else the text of its first heading
+ */
+export const getDocumentTitle = (content: string): string | undefined => {
+  const { frontmatter, body } = extractFrontmatter(content);
+  return getFrontmatterTitle(frontmatter) ?? (extractHeadings(body)[0]?.text || undefined);
+};
+
+const compareNodes = (a: DocsTreeNode, b: DocsTreeNode): number =>
+  b.lastModified - a.lastModified || a.path.localeCompare(b.path);
+
+/**
+ * Arrange markdown files into a tree by their directories, most recently
+ * modified first
+ *
+ * @returns The top-level files and directories
+ */
+export const buildDocsTree = (files: MarkdownFile[]): DocsTreeNode[] => {
+  const root: DocsTreeNode = {
+    name: '',
+    path: '',
+    type: 'directory',
+    lastModified: 0,
+    children: [],
+  };
+  const directories = new Map<string, DocsTreeNode>([['', root]]);
+
+  const getDirectory = (path: string): DocsTreeNode => {
+    const existing = directories.get(path);
+    if (existing) return existing;
+    const separator = path.lastIndexOf('/');
+    const parent = getDirectory(separator === -1 ? '' : path.slice(0, separator));
+    const directory: DocsTreeNode = {
+      name: path.slice(separator + 1),
+      path,
+      type: 'directory',
+      lastModified: 0,
+      children: [],
+    };
+    parent.children!.push(directory);
+    directories.set(path, directory);
+    return directory;
+  };
+
+  for (const file of files) {
+    const path = file.path.replace(/^\/+/, '');
+    const separator = path.lastIndexOf('/');
+    getDirectory(separator === -1 ? '' : path.slice(0, separator)).children!.push({
+      name: path.slice(separator + 1),
+      path: file.path,
+      type: 'file',
+      title: file.title,
+      lastModified: file.lastModified,
+    });
+  }
+
+  // Directories take the time of their newest document, then everything is sorted
+  const sortTree = (node: DocsTreeNode): void => {
+    for (const child of node.children ?? []) {
+      if (child.type === 'directory') sortTree(child);
+      node.lastModified = Math.max(node.lastModified, child.lastModified);
+    }
+    node.children?.sort(compareNodes);
+  };
+  sortTree(root);
+
+  return root.children!;
+};
+
+/**
+ * Keep the documents whose title or path contains the query (case-insensitive),
+ * along with the directories leading to them
+ */
+export const filterDocsTree = (nodes: DocsTreeNode[], query: string): DocsTreeNode[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return nodes;
+
+  return nodes.flatMap((node): DocsTreeNode[] => {
+    if (node.type === 'file') {
+      const matches =
+        node.path.toLowerCase().includes(needle) || !!node.title?.toLowerCase().includes(needle);
+      return matches ? [node] : [];
+    }
+    const children = filterDocsTree(node.children ?? [], query);
+    return children.length > 0 ? [{ ...node, children }] : [];
+  });
+};
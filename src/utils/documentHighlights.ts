@@ -0,0 +1,144 @@
+/**
+ * Document highlights
+ *
+ * A highlight marks a section or a quoted span of the rendered document, e.g.
+ * the passage an agent is talking about. Highlights are stored as targets and
+ * located in the rendered DOM whenever it changes, so they survive re-renders
+ * without touching React-managed markup.
+ */
+
+import { collectTextMatchRanges } from './findInDocument';
+
+/**
+ * A highlight in one document
+ */
+export interface DocumentHighlight {
+  id: string;
+  /** Who added the highlight (e.g. an agent's name); colors and clearing go by source */
+  source: string;
+  /** DOM id of the heading whose section is highlighted (or searched for `text`) */
+  sectionId: string | null;
+  /** Quoted text to highlight; whitespace differences are ignored */
+  text: string | null;
+  /** Which match of `text` to highlight (0-based) */
+  occurrence: number;
+  /** Note shown when hovering the highlight */
+  note: string | null;
+  createdAt: number;
+}
+
+/**
+ * What to highlight, from the highlight_text tool or a `markdown-panel:highlight` event
+ */
+export interface HighlightRequest {
+  /** Section ID, slug or heading text; the whole section unless `text` is given */
+  sectionId?: string;
+  /** Quoted text to highlight */
+  text?: string;
+  /** Which match of `text` to highlight (0-based, defaults to the first) */
+  occurrence?: number;
+  note?: string;
+  /** Who is adding the highlight (defaults to "agent") */
+  source?: string;
+}
+
+export type DocumentHighlightTarget = Pick<DocumentHighlight, 'sectionId' | 'text' | 'occurrence'>;
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+const getHeadingLevel = (element: Element): number => {
+  const match = element.tagName.match(/^H([1-6])$/);
+  return match ? Number(match[1]) : 6;
+};
+
+/**
+ * Build a regex for quoted text, letting any run of whitespace in the quote
+ * match any (or no) whitespace, as block boundaries don't always render as spaces
+ */
+const buildQuoteRegex = (text: string, caseSensitive: boolean): RegExp =>
+  new RegExp(
+    text
+      .trim()
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\s+/g, '\\s*'),
+    `gu${caseSensitive ? '' : 'i'}`
+  );
+
+/**
+ * Range covering a heading and everything below it up to the next heading of
+ * the same or a higher level
+ */
+export const getSectionDomRange = (root: HTMLElement, sectionId: string): Range | null => {
+  const heading = root.querySelector(`[id="${CSS.escape(sectionId)}"]`);
+  if (!heading) return null;
+  const level = getHeadingLevel(heading);
+  const next = Array.from(root.querySelectorAll(HEADING_SELECTOR)).find(
+    (element) =>
+      heading.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING &&
+      !heading.contains(element) &&
+      getHeadingLevel(element) <= level
+  );
+
+  const range = document.createRange();
+  range.setStartBefore(heading);
+  if (next) {
+    range.setEndBefore(next);
+  } else {
+    range.setEnd(root, root.childNodes.length);
+  }
+  return range;
+};
+
+/**
+ * Locate a highlight's target in the rendered document. Quoted text is matched
+ * case-sensitively first, then ignoring case.
+ *
+ * @returns The range to highlight, or null when the target isn't rendered
+ */
+export const resolveHighlightRange = (
+  root: HTMLElement,
+  { sectionId, text, occurrence }: DocumentHighlightTarget
+): Range | null => {
+  const section = sectionId ? getSectionDomRange(root, sectionId) : null;
+  if (sectionId && !section) return null;
+  if (!text?.trim()) return section;
+
+  const isInSection = (range: Range) =>
+    !section ||
+    (section.compareBoundaryPoints(Range.START_TO_START, range) <= 0 &&
+      section.compareBoundaryPoints(Range.END_TO_END, range) >= 0);
+
+  for (const caseSensitive of [true, false]) {
+    const matches = collectTextMatchRanges(root, buildQuoteRegex(text, caseSensitive)).filter(
+      isInSection
+    );
+    if (matches.length > occurrence) return matches[occurrence];
+  }
+  return null;
+};
+
+/**
+ * DOM id of the heading whose section a range starts in
+ */
+export const getSectionIdAt = (root: HTMLElement, range: Range): string | null => {
+  let sectionId: string | null = null;
+  for (const heading of Array.from(root.querySelectorAll(HEADING_SELECTOR))) {
+    const position = range.comparePoint(heading, 0);
+    // Headings at or after the range start (unless the range starts inside one)
+    if (position > 0 || (position === 0 && !heading.contains(range.startContainer))) break;
+    if (heading.id) sectionId = heading.id;
+  }
+  return sectionId;
+};
+
+/**
+ * The element a range starts in (or at), for scrolling it into view
+ */
+export const getRangeStartElement = (range: Range): Element | null => {
+  const { startContainer, startOffset } = range;
+  const node =
+    startContainer.nodeType === Node.ELEMENT_NODE
+      ? (startContainer.childNodes[startOffset] ?? startContainer)
+      : startContainer;
+  return node instanceof Element ? node : node.parentElement;
+};
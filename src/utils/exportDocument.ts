@@ -0,0 +1,265 @@
+/**
+ * Document export utilities
+ *
+ * Turns the rendered document into a standalone HTML file: the DOM
+ * DocumentView rendered (highlighted code, diagrams and math included) with
+ * the stylesheet rules it uses inlined and images embedded as data URLs, plus
+ * a print stylesheet so printing to PDF gives clean pages.
+ */
+
+import type { Theme } from '@principal-ade/industry-theme';
+
+export interface ExportDocumentOptions {
+  /** Title of the exported page */
+  title: string;
+  theme: Theme;
+  /** Embed images as data URLs (defaults to true); otherwise they are linked */
+  embedImages?: boolean;
+}
+
+export interface ExportedDocument {
+  title: string;
+  html: string;
+  /** Images embedded as data URLs */
+  imagesEmbedded: number;
+  /** Images that couldn't be read (e.g. cross-origin) and are linked instead */
+  imagesLinked: number;
+}
+
+/**
+ * Pseudo-elements and state pseudo-classes removed from selectors before
+ * checking whether a rule applies to the document
+ */
+const DYNAMIC_PSEUDO_REGEX =
+  /::?(?:before|after|marker|placeholder|selection|first-line|first-letter|-webkit-[\w-]+|-moz-[\w-]+)|:(?:hover|focus|focus-visible|focus-within|active|visited)/g;
+
+const PRINT_CSS = `
+@media print {
+  @page { margin: 18mm 16mm; }
+  html, body { background: #fff !important; }
+  main.markdown-export { max-width: none; padding: 0; }
+  main.markdown-export :not(pre):not(pre *):not(svg):not(svg *) {
+    color: #000 !important;
+    background-color: transparent !important;
+    border-color: #ccc !important;
+    box-shadow: none !important;
+  }
+  pre { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  pre, pre code { white-space: pre-wrap !important; word-break: break-word; overflow: visible !important; }
+  h1, h2, h3, h4, h5, h6 { break-after: avoid; page-break-after: avoid; }
+  pre, blockquote, table, figure, img, svg { break-inside: avoid; page-break-inside: avoid; }
+  img, svg { max-width: 100% !important; }
+  a[href^="http"]::after { content: " (" attr(href) ")"; font-size: 0.85em; }
+}
+`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Whether a style rule's selector matches anything in the document
+ */
+const selectorApplies = (selectorText: string, root: HTMLElement): boolean => {
+  if (/(^|[\s,(]):root\b/.test(selectorText)) return true;
+  const selector = selectorText.replace(DYNAMIC_PSEUDO_REGEX, '').trim() || '*';
+  try {
+    return root.matches(selector) || root.querySelector(selector) !== null;
+  } catch {
+    // Selectors the browser can't query (vendor extensions) are kept
+    return true;
+  }
+};
+
+/**
+ * CSS text of the rules that apply to the document
+ */
+const filterRules = (rules: CSSRuleList, root: HTMLElement): string =>
+  Array.from(rules)
+    .map((rule) => {
+      if (rule instanceof CSSStyleRule) {
+        return selectorApplies(rule.selectorText, root) ? rule.cssText : '';
+      }
+      if (rule instanceof CSSMediaRule || rule instanceof CSSSupportsRule) {
+        const inner = filterRules(rule.cssRules, root);
+        if (!inner) return '';
+        const prelude =
+          rule instanceof CSSMediaRule
+            ? `@media ${rule.media.mediaText}`
+            : `@supports ${rule.conditionText}`;
+        return `${prelude} {\n${inner}\n}`;
+      }
+      if (rule instanceof CSSFontFaceRule || rule instanceof CSSKeyframesRule) {
+        return rule.cssText;
+      }
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * Collect the page's stylesheet rules used by the document, with relative
+ * URLs (fonts, backgrounds) made absolute so they still resolve
+ */
+const collectCss = (root: HTMLElement): string => {
+  const parts: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Cross-origin stylesheets can't be read
+      continue;
+    }
+    const css = filterRules(rules, root);
+    if (!css) continue;
+    const baseUrl = sheet.href ?? document.baseURI;
+    parts.push(
+      css.replace(/url\((['"]?)(?!data:|blob:|#)([^'")]+)\1\)/g, (match, quote, url) => {
+        try {
+          return `url(${quote}${new URL(url, baseUrl).href}${quote})`;
+        } catch {
+          return match;
+        }
+      })
+    );
+  }
+  return parts.join('\n');
+};
+
+/**
+ * Read an image into a data URL
+ */
+const toDataUrl = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Build a standalone HTML page from rendered markdown.
+ *
+ * @param root - DocumentView's outer element
+ */
+export const exportDocumentHtml = async (
+  root: HTMLElement,
+  { title, theme, embedImages = true }: ExportDocumentOptions
+): Promise<ExportedDocument> => {
+  const clone = root.cloneNode(true) as HTMLElement;
+  // The view's scroll container becomes a plain block in the page
+  Object.assign(clone.style, { height: 'auto', maxHeight: 'none', overflow: 'visible' });
+  // Copy and expand buttons do nothing outside the panel
+  clone.querySelectorAll('button').forEach((button) => button.remove());
+  clone.querySelectorAll<HTMLInputElement>('input[type="checkbox"]').forEach((checkbox) => {
+    checkbox.disabled = true;
+    if (checkbox.checked) checkbox.setAttribute('checked', '');
+  });
+
+  let imagesEmbedded = 0;
+  let imagesLinked = 0;
+  const originals = Array.from(root.querySelectorAll('img'));
+  const copies = Array.from(clone.querySelectorAll('img'));
+  await Promise.all(
+    copies.map(async (image, index) => {
+      const source = originals[index]?.currentSrc || originals[index]?.src;
+      image.removeAttribute('srcset');
+      image.removeAttribute('loading');
+      if (!source) return;
+      if (!embedImages || source.startsWith('data:')) {
+        image.src = source;
+        return;
+      }
+      try {
+        image.src = await toDataUrl(source);
+        imagesEmbedded++;
+      } catch (err) {
+        console.warn('[MarkdownPanel] Could not embed image, linking it instead:', source, err);
+        image.src = source;
+        imagesLinked++;
+      }
+    })
+  );
+
+  const baseCss = `
+html, body { margin: 0; background: ${theme.colors.background}; color: ${theme.colors.text}; }
+body { font-family: ${theme.fonts.body}; }
+main.markdown-export { max-width: 960px; margin: 0 auto; padding: 32px 24px; box-sizing: border-box; }
+`;
+  // Keep stylesheet text from closing its <style> element
+  const styles = [baseCss, collectCss(root), PRINT_CSS]
+    .map((css) => `<style>${css.replace(/<\/(style)/gi, '<\\/$1')}</style>`)
+    .join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="@industry-theme/markdown-panels">
+<title>${escapeHtml(title)}</title>
+${styles}
+</head>
+<body>
+<main class="markdown-export">
+${clone.outerHTML}
+</main>
+</body>
+</html>
+`;
+
+  return { title, html, imagesEmbedded, imagesLinked };
+};
+
+/**
+ * File name for an exported markdown file (README.md -> README.html)
+ */
+export const getExportFileName = (path: string): string => {
+  const name = path.split('/').pop() || 'document';
+  return `${name.replace(/\.(md|mdx|markdown)$/i, '') || 'document'}.html`;
+};
+
+/**
+ * Save HTML as a file through the browser
+ */
+export const downloadHtml = (html: string, fileName: string): void => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Open the browser's print dialog (and its "Save as PDF") for HTML
+ */
+export const printHtml = (html: string): void => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  Object.assign(frame.style, {
+    position: 'fixed',
+    right: '0',
+    bottom: '0',
+    width: '0',
+    height: '0',
+    border: '0',
+  });
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.addEventListener('afterprint', () => frame.remove());
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
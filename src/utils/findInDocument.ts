@@ -0,0 +1,150 @@
+/**
+ * Find-in-document utilities
+ *
+ * Shared by the find bar (which searches the rendered text) and the
+ * find_in_document tool (which searches the markdown source). Document
+ * highlights also locate their quoted text in the rendered text.
+ */
+
+import type { MarkdownHeading } from './markdownHeadings';
+
+/**
+ * Options controlling how a find query is matched
+ */
+export interface FindOptions {
+  /** Match letter case exactly */
+  caseSensitive?: boolean;
+  /** Only match whole words */
+  wholeWord?: boolean;
+  /** Treat the query as a regular expression */
+  regex?: boolean;
+}
+
+/**
+ * A match found in the markdown source
+ */
+export interface DocumentFindMatch {
+  /** 1-based line number of the match */
+  line: number;
+  /** 0-based column of the match within the line */
+  column: number;
+  /** The matched text */
+  text: string;
+  /** The source line containing the match (trimmed) */
+  snippet: string;
+  /** Slug of the section (nearest preceding heading) containing the match */
+  sectionId: string | null;
+  /** Title of the section containing the match */
+  sectionTitle: string | null;
+}
+
+/**
+ * Build a global regular expression for a query.
+ * Throws a SyntaxError when `regex` is set and the query is not a valid pattern.
+ */
+export const buildFindRegex = (query: string, options: FindOptions = {}): RegExp => {
+  let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (options.wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+  return new RegExp(source, `gu${options.caseSensitive ? '' : 'i'}`);
+};
+
+/**
+ * Find all non-empty match ranges of a regex in a string
+ */
+export const findTextMatches = (
+  text: string,
+  regex: RegExp
+): Array<{ start: number; end: number }> => {
+  const matches: Array<{ start: number; end: number }> = [];
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      // Skip empty matches (e.g. `a*`) without looping forever
+      regex.lastIndex++;
+      continue;
+    }
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return matches;
+};
+
+/**
+ * Search the markdown source line by line and report the section of each match
+ */
+export const findInMarkdown = (
+  markdown: string,
+  query: string,
+  options: FindOptions,
+  headings: MarkdownHeading[]
+): DocumentFindMatch[] => {
+  if (!query) return [];
+  const regex = buildFindRegex(query, options);
+  const results: DocumentFindMatch[] = [];
+
+  let headingIndex = -1;
+  markdown.split('\n').forEach((line, index) => {
+    while (headingIndex + 1 < headings.length && headings[headingIndex + 1].line <= index) {
+      headingIndex++;
+    }
+    const section = headings[headingIndex];
+    for (const { start, end } of findTextMatches(line, regex)) {
+      results.push({
+        line: index + 1,
+        column: start,
+        text: line.slice(start, end),
+        snippet: line.trim(),
+        sectionId: section?.slug ?? null,
+        sectionTitle: section?.text ?? null,
+      });
+    }
+  });
+
+  return results;
+};
+
+/**
+ * Collect DOM ranges for every regex match in an element's visible text.
+ * Text inside buttons (e.g. code block "Copy" labels) is ignored.
+ */
+export const collectTextMatchRanges = (root: HTMLElement, regex: RegExp): Range[] => {
+  const segments: Array<{ node: Text; start: number }> = [];
+  let text = '';
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest('button, style, script')
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    segments.push({ node: node as Text, start: text.length });
+    text += node.textContent || '';
+  }
+
+  // Find the text node containing an offset (matches arrive in ascending order)
+  let segmentIndex = 0;
+  const locate = (offset: number, isEnd: boolean) => {
+    while (
+      segmentIndex + 1 < segments.length &&
+      (isEnd
+        ? segments[segmentIndex + 1].start < offset
+        : segments[segmentIndex + 1].start <= offset)
+    ) {
+      segmentIndex++;
+    }
+    const segment = segments[segmentIndex];
+    return { node: segment.node, offset: offset - segment.start };
+  };
+
+  return findTextMatches(text, regex).map(({ start, end }) => {
+    const range = document.createRange();
+    const startPoint = locate(start, false);
+    range.setStart(startPoint.node, startPoint.offset);
+    const endPoint = locate(end, true);
+    range.setEnd(endPoint.node, endPoint.offset);
+    return range;
+  });
+};
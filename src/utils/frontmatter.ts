@@ -0,0 +1,96 @@
+/**
+ * Frontmatter utilities
+ *
+ * Detects YAML (`---`) and TOML (`+++`) frontmatter at the top of a markdown
+ * file, parses it, and blanks it out of the markdown that gets rendered. The
+ * frontmatter lines are replaced with empty lines rather than removed, so line
+ * numbers in the rendered markdown still match the source file.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { load as parseToml } from 'js-toml';
+
+export type FrontmatterFormat = 'yaml' | 'toml';
+
+/**
+ * Frontmatter found at the top of a markdown file
+ */
+export interface MarkdownFrontmatter {
+  format: FrontmatterFormat;
+  /** Parsed fields, or null if the frontmatter couldn't be parsed */
+  data: Record<string, unknown> | null;
+  /** Parse error message, if any */
+  error: string | null;
+  /** Frontmatter text between the delimiters */
+  raw: string;
+  /** Number of source lines the frontmatter occupies, delimiters included */
+  lineCount: number;
+}
+
+const DELIMITERS: Record<FrontmatterFormat, RegExp> = {
+  yaml: /^---[ \t]*\r?$/,
+  toml: /^\+\+\+[ \t]*\r?$/,
+};
+// YAML documents may also end with `...`
+const YAML_END_REGEX = /^(?:---|\.\.\.)[ \t]*\r?$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Find and parse frontmatter at the very start of the markdown.
+ *
+ * @returns The frontmatter and the markdown with its lines blanked, or a null
+ * frontmatter and the unchanged markdown if there is none
+ */
+export const extractFrontmatter = (
+  markdown: string
+): { frontmatter: MarkdownFrontmatter | null; body: string } => {
+  const lines = markdown.replace(/^\uFEFF/, '').split('\n');
+  const format = (Object.keys(DELIMITERS) as FrontmatterFormat[]).find((key) =>
+    DELIMITERS[key].test(lines[0] ?? '')
+  );
+  if (!format) return { frontmatter: null, body: markdown };
+
+  const endRegex = format === 'yaml' ? YAML_END_REGEX : DELIMITERS.toml;
+  const endLine = lines.findIndex((line, index) => index > 0 && endRegex.test(line));
+  if (endLine === -1) return { frontmatter: null, body: markdown };
+
+  const raw = lines.slice(1, endLine).join('\n');
+  // A `---` line followed by `---` is two thematic breaks, not empty frontmatter
+  if (format === 'yaml' && !raw.trim()) return { frontmatter: null, body: markdown };
+
+  let data: Record<string, unknown> | null = null;
+  let error: string | null = null;
+  try {
+    const parsed: unknown = format === 'yaml' ? parseYaml(raw) : parseToml(raw);
+    if (isPlainObject(parsed)) {
+      data = parsed;
+    } else {
+      error = 'Frontmatter is not a set of key/value fields';
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const lineCount = endLine + 1;
+  return {
+    frontmatter: { format, data, error, raw, lineCount },
+    body: '\n'.repeat(lineCount) + lines.slice(lineCount).join('\n'),
+  };
+};
+
+/**
+ * Blank out frontmatter, keeping line numbers (for views that don't show it)
+ */
+export const stripFrontmatter = (markdown: string): string => extractFrontmatter(markdown).body;
+
+/**
+ * The document title from frontmatter (`title`, falling back to `name`)
+ */
+export const getFrontmatterTitle = (
+  frontmatter: MarkdownFrontmatter | null
+): string | undefined => {
+  const title = frontmatter?.data?.title ?? frontmatter?.data?.name;
+  return typeof title === 'string' && title.trim() ? title.trim() : undefined;
+};
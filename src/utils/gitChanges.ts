@@ -0,0 +1,82 @@
+/**
+ * Git change utilities
+ *
+ * Matches the open file against the git slice's status lists and finds the
+ * sections of a document touched by the lines changed since HEAD.
+ */
+
+import type { GitChangeSelectionStatus, GitLineChange, GitStatus } from '../types';
+import type { MarkdownHeading } from './markdownHeadings';
+
+/**
+ * A section of the document with lines changed since HEAD
+ */
+export interface ChangedSection {
+  /** Slug of the section's heading (null for text before the first heading) */
+  sectionId: string | null;
+  /** 'modified' when the section has more than one kind of change */
+  kind: GitLineChange['kind'];
+}
+
+/**
+ * A file path relative to the repository root, as git reports it
+ *
+ * @param repositoryPath - Absolute path of the repository, stripped from absolute file paths
+ */
+export const toRepositoryPath = (path: string, repositoryPath?: string): string => {
+  const root = repositoryPath?.replace(/\/+$/, '');
+  if (root && path.startsWith(`${root}/`)) {
+    return path.slice(root.length + 1);
+  }
+  return path.replace(/^\.\//, '');
+};
+
+/**
+ * The statuses a file has, in the order staged, unstaged, untracked. A
+ * partially staged file is both staged and unstaged.
+ */
+export const getFileGitStatuses = (
+  status: GitStatus,
+  repositoryFilePath: string
+): GitChangeSelectionStatus[] =>
+  (['staged', 'unstaged', 'untracked'] as const).filter((kind) =>
+    status[kind].some((path) => toRepositoryPath(path) === repositoryFilePath)
+  );
+
+/**
+ * Sections touched by changed lines, in document order
+ *
+ * @param headings - Headings of the working copy, with their source lines
+ */
+export const getChangedSections = (
+  headings: MarkdownHeading[],
+  changes: GitLineChange[]
+): ChangedSection[] => {
+  // Index into [text before the first heading, ...headings] of the section holding a 0-based line
+  const sectionIndexAt = (line: number): number => {
+    let index = 0;
+    while (index < headings.length && headings[index].line <= line) index++;
+    return index;
+  };
+
+  const kinds = new Map<number, GitLineChange['kind']>();
+  for (const change of changes) {
+    // A deletion belongs to the section holding the line before the removed lines
+    const first = sectionIndexAt(
+      Math.max(change.kind === 'deleted' ? change.startLine - 2 : change.startLine - 1, 0)
+    );
+    const last =
+      change.kind === 'deleted' ? first : sectionIndexAt(Math.max(change.endLine - 1, 0));
+    for (let index = first; index <= last; index++) {
+      const existing = kinds.get(index);
+      kinds.set(index, existing && existing !== change.kind ? 'modified' : change.kind);
+    }
+  }
+
+  return [...kinds]
+    .sort(([a], [b]) => a - b)
+    .map(([index, kind]) => ({
+      sectionId: index === 0 ? null : headings[index - 1].slug,
+      kind,
+    }));
+};
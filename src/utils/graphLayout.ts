@@ -0,0 +1,120 @@
+/**
+ * Graph layout
+ *
+ * Places the nodes of a graph with a force-directed layout: every pair of
+ * nodes pushes apart and every edge pulls its ends together, so linked
+ * documents settle into clusters. The layout is deterministic, so the same
+ * graph is always drawn the same way.
+ */
+
+/**
+ * Where a node is placed, in layout units
+ */
+export interface GraphNodePosition {
+  x: number;
+  y: number;
+}
+
+export interface GraphLayout {
+  positions: Map<string, GraphNodePosition>;
+  /** Size of the box holding every node, padding included */
+  width: number;
+  height: number;
+}
+
+/** Preferred distance between linked nodes */
+const NODE_SPACING = 120;
+/** Space left around the outermost nodes (room for labels) */
+const LAYOUT_PADDING = 80;
+const ITERATIONS = 200;
+/** Pull towards the center, so unlinked nodes don't drift away */
+const GRAVITY = 0.05;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * Lay out a graph's nodes
+ *
+ * @param nodes - Node IDs
+ * @param edges - Pairs of node IDs; edges naming unknown nodes are ignored
+ */
+export const layoutGraph = (nodes: string[], edges: Array<[string, string]>): GraphLayout => {
+  const count = nodes.length;
+  const indexById = new Map(nodes.map((id, index) => [id, index]));
+  const edgeIndices = edges.flatMap(([from, to]): Array<[number, number]> => {
+    const a = indexById.get(from);
+    const b = indexById.get(to);
+    return a === undefined || b === undefined || a === b ? [] : [[a, b]];
+  });
+
+  // Start on a spiral, which has no symmetry for the forces to get stuck in
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const radius = NODE_SPACING * 0.5 * Math.sqrt(i + 0.5);
+    xs[i] = radius * Math.cos(i * GOLDEN_ANGLE);
+    ys[i] = radius * Math.sin(i * GOLDEN_ANGLE);
+  }
+
+  const k = NODE_SPACING;
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+  const initialTemperature = NODE_SPACING * Math.sqrt(count) * 0.2;
+
+  for (let iteration = 0; iteration < ITERATIONS && count > 1; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const ox = xs[i] - xs[j];
+        const oy = ys[i] - ys[j];
+        const distance = Math.max(Math.hypot(ox, oy), 0.01);
+        const force = (k * k) / distance;
+        dx[i] += (ox / distance) * force;
+        dy[i] += (oy / distance) * force;
+        dx[j] -= (ox / distance) * force;
+        dy[j] -= (oy / distance) * force;
+      }
+    }
+
+    for (const [a, b] of edgeIndices) {
+      const ox = xs[a] - xs[b];
+      const oy = ys[a] - ys[b];
+      const distance = Math.max(Math.hypot(ox, oy), 0.01);
+      const force = (distance * distance) / k;
+      dx[a] -= (ox / distance) * force;
+      dy[a] -= (oy / distance) * force;
+      dx[b] += (ox / distance) * force;
+      dy[b] += (oy / distance) * force;
+    }
+
+    // Nodes move less each iteration, so the layout settles
+    const temperature = initialTemperature * (1 - iteration / ITERATIONS);
+    for (let i = 0; i < count; i++) {
+      dx[i] -= xs[i] * GRAVITY * k * 0.1;
+      dy[i] -= ys[i] * GRAVITY * k * 0.1;
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length > 0) {
+        const step = Math.min(length, temperature);
+        xs[i] += (dx[i] / length) * step;
+        ys[i] += (dy[i] / length) * step;
+      }
+    }
+  }
+
+  const minX = count > 0 ? Math.min(...xs) : 0;
+  const minY = count > 0 ? Math.min(...ys) : 0;
+  const maxX = count > 0 ? Math.max(...xs) : 0;
+  const maxY = count > 0 ? Math.max(...ys) : 0;
+
+  return {
+    positions: new Map(
+      nodes.map((id, i) => [
+        id,
+        { x: xs[i] - minX + LAYOUT_PADDING, y: ys[i] - minY + LAYOUT_PADDING },
+      ])
+    ),
+    width: maxX - minX + LAYOUT_PADDING * 2,
+    height: maxY - minY + LAYOUT_PADDING * 2,
+  };
+};
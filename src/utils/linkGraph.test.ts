@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test';
+import { buildLinkGraph, getBacklinks, parseLinkedDocument } from './linkGraph';
+
+const documents = {
+  'README.md': parseLinkedDocument(
+    'README.md',
+    '# Project\n\nSee [the guide](docs/guide.md) and [again](docs/guide.md#setup).'
+  ),
+  'docs/guide.md': parseLinkedDocument(
+    'docs/guide.md',
+    '---\ntitle: Guide\n---\n\n## Setup\n\nBack to [the readme](../README.md), [missing](gone.md).'
+  ),
+  'docs/orphan.md': parseLinkedDocument('docs/orphan.md', 'Links to [the guide](guide.md).'),
+};
+
+describe('parseLinkedDocument', () => {
+  it('finds the title and links with their sections', () => {
+    expect(documents['docs/guide.md']).toEqual({
+      title: 'Guide',
+      links: [
+        {
+          source: 'docs/guide.md',
+          target: 'README.md',
+          fragment: null,
+          text: 'the readme',
+          line: 7,
+          sectionId: 'setup',
+        },
+        {
+          source: 'docs/guide.md',
+          target: 'docs/gone.md',
+          fragment: null,
+          text: 'missing',
+          line: 7,
+          sectionId: 'setup',
+        },
+      ],
+    });
+  });
+
+  it('leaves out links within the document, external links and other files', () => {
+    const document = parseLinkedDocument(
+      'docs/a.md',
+      '[self](#top) [same](a.md) [web](https://example.com/b.md) [image](diagram.png)'
+    );
+    expect(document.links).toEqual([]);
+  });
+
+  it('resolves /-rooted links against the repository root', () => {
+    const document = parseLinkedDocument(
+      '/home/me/repo/docs/a.md',
+      '[readme](/README.md)',
+      '/home/me/repo'
+    );
+    expect(document.links.map((link) => link.target)).toEqual(['/home/me/repo/README.md']);
+  });
+});
+
+describe('buildLinkGraph', () => {
+  it('lists each link once and separates dangling links and orphans', () => {
+    const graph = buildLinkGraph(documents);
+
+    expect(graph.documents).toEqual(['README.md', 'docs/guide.md', 'docs/orphan.md']);
+    expect(graph.links.map((link) => [link.source, link.target])).toEqual([
+      ['README.md', 'docs/guide.md'],
+      ['docs/guide.md', 'README.md'],
+      ['docs/orphan.md', 'docs/guide.md'],
+    ]);
+    expect(graph.danglingLinks.map((link) => link.target)).toEqual(['docs/gone.md']);
+    expect(graph.orphans).toEqual(['docs/orphan.md']);
+  });
+});
+
+describe('getBacklinks', () => {
+  it('groups the links to a document by the document they are in', () => {
+    const backlinks = getBacklinks(documents, 'docs/guide.md');
+
+    expect(backlinks.map(({ source, title, links }) => [source, title, links.length])).toEqual([
+      ['README.md', 'Project', 2],
+      ['docs/orphan.md', null, 1],
+    ]);
+  });
+});
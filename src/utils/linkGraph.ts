@@ -0,0 +1,154 @@
+/**
+ * Document link graph
+ *
+ * Finds the relative links between a repository's markdown documents, so a
+ * document can list the documents linking to it (backlinks) and the whole
+ * set can be drawn as a graph. Documents nothing links to are orphans, and
+ * links to documents that don't exist are dangling.
+ */
+
+import { getDocumentTitle } from './docsTree';
+import { extractFrontmatter } from './frontmatter';
+import { extractHeadings } from './markdownHeadings';
+import { extractMarkdownLinks, isMarkdownPath, resolveLink } from './markdownLinks';
+
+/**
+ * A link from one markdown document to another
+ */
+export interface DocumentLink {
+  /** Document containing the link */
+  source: string;
+  /** Repository path of the linked document */
+  target: string;
+  /** Heading fragment of the target (without `#`), if any */
+  fragment: string | null;
+  /** Link text */
+  text: string | null;
+  /** 1-based line of the link in the source */
+  line: number;
+  /** Slug of the source section containing the link (null before the first heading) */
+  sectionId: string | null;
+}
+
+/**
+ * What the link graph needs to know about a document
+ */
+export interface LinkedDocument {
+  /** Frontmatter title or first heading, if the document has one */
+  title: string | null;
+  /** Links to other markdown documents, in document order */
+  links: DocumentLink[];
+}
+
+/**
+ * Links between a set of documents
+ */
+export interface DocumentLinkGraph {
+  /** Every document in the graph, sorted by path */
+  documents: string[];
+  /** Links between documents (each source and target pair once, in document order) */
+  links: DocumentLink[];
+  /** Links to documents that don't exist */
+  danglingLinks: DocumentLink[];
+  /** Documents no other document links to */
+  orphans: string[];
+}
+
+/**
+ * Find a document's title and its links to other markdown documents.
+ * Links within the document, and to other kinds of files, are left out.
+ *
+ * @param repositoryPath - Absolute path of the repository, for links starting with `/`
+ */
+export const parseLinkedDocument = (
+  path: string,
+  content: string,
+  repositoryPath?: string
+): LinkedDocument => {
+  const { body } = extractFrontmatter(content);
+  const headings = extractHeadings(body);
+
+  const links = extractMarkdownLinks(body).flatMap((reference): DocumentLink[] => {
+    if (reference.kind !== 'link') return [];
+    const link = resolveLink(reference.href, path, repositoryPath);
+    if (!link?.path || link.path === path || !isMarkdownPath(link.path)) return [];
+
+    let sectionId: string | null = null;
+    for (const heading of headings) {
+      if (heading.line > reference.line) break;
+      sectionId = heading.slug;
+    }
+    return [
+      {
+        source: path,
+        target: link.path,
+        fragment: link.fragment,
+        text: reference.text,
+        line: reference.line + 1,
+        sectionId,
+      },
+    ];
+  });
+
+  return { title: getDocumentTitle(content) ?? null, links };
+};
+
+/**
+ * Build the link graph of a set of documents
+ *
+ * @param documentsByPath - Every document, from parseLinkedDocument
+ */
+export const buildLinkGraph = (
+  documentsByPath: Record<string, LinkedDocument>
+): DocumentLinkGraph => {
+  const documents = Object.keys(documentsByPath).sort();
+  const known = new Set(documents);
+  const linked = new Set<string>();
+  const links: DocumentLink[] = [];
+  const danglingLinks: DocumentLink[] = [];
+
+  for (const path of documents) {
+    const seen = new Set<string>();
+    for (const link of documentsByPath[path].links) {
+      if (!known.has(link.target)) {
+        danglingLinks.push(link);
+      } else if (!seen.has(link.target)) {
+        seen.add(link.target);
+        linked.add(link.target);
+        links.push(link);
+      }
+    }
+  }
+
+  return {
+    documents,
+    links,
+    danglingLinks,
+    orphans: documents.filter((path) => !linked.has(path)),
+  };
+};
+
+/**
+ * The links to a document from one other document
+ */
+export interface DocumentBacklinks {
+  source: string;
+  /** Title of the linking document, if it has one */
+  title: string | null;
+  links: DocumentLink[];
+}
+
+/**
+ * Every link pointing at a document, grouped by the document it's in (sorted by path)
+ */
+export const getBacklinks = (
+  documentsByPath: Record<string, LinkedDocument>,
+  path: string
+): DocumentBacklinks[] =>
+  Object.keys(documentsByPath)
+    .sort()
+    .flatMap((source) => {
+      const { title, links } = documentsByPath[source];
+      const matching = links.filter((link) => link.target === path);
+      return matching.length > 0 ? [{ source, title, links: matching }] : [];
+    });
@@ -0,0 +1,274 @@
+/**
+ * Document diagnostics
+ *
+ * Checks a markdown document for problems a reader would trip over: links to
+ * headings or files that don't exist, images without alt text, heading levels
+ * that skip a level, and headings whose slugs collide. The checks that only
+ * need the document itself run synchronously; links to other files are checked
+ * by reading them through the host.
+ */
+
+import { extractFrontmatter } from './frontmatter';
+import { extractHeadings, slugify } from './markdownHeadings';
+import type { MarkdownHeading } from './markdownHeadings';
+import { extractMarkdownLinks, isMarkdownPath, resolveLink } from './markdownLinks';
+import type { MarkdownLinkReference } from './markdownLinks';
+
+export type MarkdownDiagnosticRule =
+  'broken-anchor' | 'broken-link' | 'missing-alt-text' | 'skipped-heading-level' | 'duplicate-slug';
+
+export type MarkdownDiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in a document
+ */
+export interface MarkdownDiagnostic {
+  rule: MarkdownDiagnosticRule;
+  severity: MarkdownDiagnosticSeverity;
+  message: string;
+  /** 1-based line of the problem in the source */
+  line: number;
+  /** 0-based column of the problem within the line */
+  column: number;
+  /** Slug of the heading whose section holds the problem (null before the first heading) */
+  sectionId: string | null;
+  /** The link target (links and images) or heading slug (headings) the problem is about */
+  target: string;
+}
+
+const SEVERITIES: Record<MarkdownDiagnosticRule, MarkdownDiagnosticSeverity> = {
+  'broken-anchor': 'error',
+  'broken-link': 'error',
+  'missing-alt-text': 'warning',
+  'skipped-heading-level': 'warning',
+  'duplicate-slug': 'warning',
+};
+
+// Footnote references and back-references generated by remark-gfm
+const FOOTNOTE_FRAGMENT_REGEX = /^(?:user-content-)?fn(?:ref)?-/;
+// Anchors defined in raw HTML, e.g. <a id="install"></a>
+const HTML_ANCHOR_REGEX = /<[a-z][a-z0-9-]*\b[^>]*?\s(?:id|name)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+
+/**
+ * Whether a fragment points at a heading or an HTML anchor, matched the same
+ * way the panel resolves section IDs when a link is clicked
+ */
+const isKnownFragment = (
+  fragment: string,
+  headings: MarkdownHeading[],
+  htmlAnchors: Set<string>
+): boolean =>
+  FOOTNOTE_FRAGMENT_REGEX.test(fragment) ||
+  htmlAnchors.has(fragment) ||
+  headings.some(
+    (h) =>
+      h.slug === fragment ||
+      h.slug === slugify(fragment) ||
+      h.text.toLowerCase() === fragment.toLowerCase()
+  );
+
+const getHtmlAnchors = (markdown: string): Set<string> =>
+  new Set(Array.from(markdown.matchAll(HTML_ANCHOR_REGEX), (match) => match[1] ?? match[2]));
+
+/**
+ * Slug of the section a 0-based source line is in
+ */
+const getSectionId = (headings: MarkdownHeading[], line: number): string | null => {
+  let sectionId: string | null = null;
+  for (const heading of headings) {
+    if (heading.line > line) break;
+    sectionId = heading.slug;
+  }
+  return sectionId;
+};
+
+const createDiagnostic = (
+  rule: MarkdownDiagnosticRule,
+  message: string,
+  line: number,
+  column: number,
+  headings: MarkdownHeading[],
+  target: string
+): MarkdownDiagnostic => ({
+  rule,
+  severity: SEVERITIES[rule],
+  message,
+  line: line + 1,
+  column,
+  sectionId: getSectionId(headings, line),
+  target,
+});
+
+/**
+ * Sort diagnostics into document order
+ */
+export const sortDiagnostics = (diagnostics: MarkdownDiagnostic[]): MarkdownDiagnostic[] =>
+  [...diagnostics].sort((a, b) => a.line - b.line || a.column - b.column);
+
+/**
+ * Run the checks that only need the document itself: broken in-document
+ * anchors, images without alt text, skipped heading levels and duplicate slugs
+ *
+ * @param headings - The document's headings, as extracted from the same markdown
+ */
+export const lintMarkdown = (
+  markdown: string,
+  headings: MarkdownHeading[]
+): MarkdownDiagnostic[] => {
+  const diagnostics: MarkdownDiagnostic[] = [];
+  const htmlAnchors = getHtmlAnchors(markdown);
+
+  for (const link of extractMarkdownLinks(markdown)) {
+    if (link.kind === 'image' && !link.text?.trim()) {
+      diagnostics.push(
+        createDiagnostic(
+          'missing-alt-text',
+          `Image "${link.href}" has no alt text`,
+          link.line,
+          link.column,
+          headings,
+          link.href
+        )
+      );
+    }
+
+    if (link.kind === 'link' && link.href.startsWith('#')) {
+      const resolved = resolveLink(link.href, '');
+      if (resolved?.fragment && !isKnownFragment(resolved.fragment, headings, htmlAnchors)) {
+        diagnostics.push(
+          createDiagnostic(
+            'broken-anchor',
+            `No heading matches "${link.href}"`,
+            link.line,
+            link.column,
+            headings,
+            link.href
+          )
+        );
+      }
+    }
+  }
+
+  const seenSlugs = new Map<string, MarkdownHeading>();
+  headings.forEach((heading, index) => {
+    const previous = headings[index - 1];
+    if (previous && heading.level > previous.level + 1) {
+      diagnostics.push(
+        createDiagnostic(
+          'skipped-heading-level',
+          `Heading level skips from h${previous.level} to h${heading.level}`,
+          heading.line,
+          0,
+          headings,
+          heading.slug
+        )
+      );
+    }
+
+    // Repeated headings get numbered slugs, so links written for one may land on another
+    const slug = slugify(heading.text);
+    const first = seenSlugs.get(slug);
+    if (first) {
+      diagnostics.push(
+        createDiagnostic(
+          'duplicate-slug',
+          `Heading "${heading.text}" has the same slug as the heading on line ${first.line + 1}`,
+          heading.line,
+          0,
+          headings,
+          heading.slug
+        )
+      );
+    } else {
+      seenSlugs.set(slug, heading);
+    }
+  });
+
+  return sortDiagnostics(diagnostics);
+};
+
+/**
+ * Check links to other files in the repository by reading each target once.
+ * Links to markdown files with a `#fragment` are also checked against the
+ * target's headings. Links to directories aren't checked.
+ *
+ * @param headings - The document's headings, used to place problems in sections
+ * @param repositoryPath - Absolute path of the repository, for links starting with `/`
+ */
+export const checkRelativeLinks = async (
+  markdown: string,
+  headings: MarkdownHeading[],
+  currentFilePath: string,
+  readFile: (path: string) => Promise<string>,
+  repositoryPath?: string
+): Promise<MarkdownDiagnostic[]> => {
+  const linksByPath = new Map<
+    string,
+    Array<{ link: MarkdownLinkReference; fragment: string | null }>
+  >();
+  for (const link of extractMarkdownLinks(markdown)) {
+    if (link.kind !== 'link') continue;
+    const resolved = resolveLink(link.href, currentFilePath, repositoryPath);
+    if (
+      !resolved?.path ||
+      resolved.path === currentFilePath ||
+      link.href.split('#')[0].endsWith('/')
+    ) {
+      continue;
+    }
+    const links = linksByPath.get(resolved.path) ?? [];
+    links.push({ link, fragment: resolved.fragment });
+    linksByPath.set(resolved.path, links);
+  }
+
+  const results = await Promise.all(
+    [...linksByPath].map(async ([path, links]) => {
+      let content: string;
+      try {
+        content = await readFile(path);
+      } catch {
+        return links.map(({ link }) =>
+          createDiagnostic(
+            'broken-link',
+            `Linked file "${path}" could not be loaded`,
+            link.line,
+            link.column,
+            headings,
+            link.href
+          )
+        );
+      }
+
+      if (!isMarkdownPath(path) || !links.some(({ fragment }) => fragment)) return [];
+      const body = extractFrontmatter(content).body;
+      const targetHeadings = extractHeadings(body);
+      const targetAnchors = getHtmlAnchors(body);
+      return links
+        .filter(
+          ({ fragment }) => fragment && !isKnownFragment(fragment, targetHeadings, targetAnchors)
+        )
+        .map(({ link, fragment }) =>
+          createDiagnostic(
+            'broken-anchor',
+            `No heading in "${path}" matches "#${fragment}"`,
+            link.line,
+            link.column,
+            headings,
+            link.href
+          )
+        );
+    })
+  );
+
+  return sortDiagnostics(results.flat());
+};
+
+/**
+ * Number of diagnostics of each severity
+ */
+export const countDiagnostics = (
+  diagnostics: MarkdownDiagnostic[]
+): Record<MarkdownDiagnosticSeverity, number> => ({
+  error: diagnostics.filter((d) => d.severity === 'error').length,
+  warning: diagnostics.filter((d) => d.severity === 'warning').length,
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'bun:test';
+import { computeChangeHunks, diffMarkdownBlocks, splitMarkdownBlocks } from './markdownDiff';
+
+const paragraphs = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i}`).join('\n\n');
+
+describe('splitMarkdownBlocks', () => {
+  it('splits headings, paragraphs, list items and code fences', () => {
+    const blocks = splitMarkdownBlocks(
+      [
+        '# Title',
+        '',
+        'Some text',
+        'more text',
+        '',
+        '- one',
+        '- two',
+        '',
+        '```',
+        'code',
+        '```',
+      ].join('\n')
+    );
+
+    expect(blocks.map((block) => [block.kind, block.startLine, block.endLine])).toEqual([
+      ['heading', 0, 0],
+      ['paragraph', 2, 3],
+      ['list-item', 5, 5],
+      ['list-item', 6, 6],
+      ['code', 8, 10],
+    ]);
+  });
+});
+
+describe('diffMarkdownBlocks', () => {
+  it('reports identical documents as unchanged', () => {
+    const content = '# Title\n\nText';
+    expect(diffMarkdownBlocks(content, content).map((change) => change.type)).toEqual([
+      'unchanged',
+      'unchanged',
+    ]);
+  });
+
+  it('ignores indentation and trailing whitespace', () => {
+    const changes = diffMarkdownBlocks('Text  \nmore', 'Text\n  more');
+    expect(changes.map((change) => change.type)).toEqual(['unchanged']);
+  });
+
+  it('pairs a removed and an added block of the same kind as a modification', () => {
+    const changes = diffMarkdownBlocks('# Title\n\nOld text', '# Title\n\nNew text');
+
+    expect(changes.map((change) => change.type)).toEqual(['unchanged', 'modified']);
+    expect(changes[1].previous?.lines).toEqual(['Old text']);
+    expect(changes[1].current?.lines).toEqual(['New text']);
+  });
+
+  it('reports blocks of different kinds as removed and added', () => {
+    const changes = diffMarkdownBlocks('Intro\n\nText', 'Intro\n\n## Heading');
+    expect(changes.map((change) => change.type)).toEqual(['unchanged', 'added', 'removed']);
+  });
+
+  it('only pairs blocks within a run of changes', () => {
+    const changes = diffMarkdownBlocks('A\n\nB\n\nC', 'A\n\nC\n\nD');
+    expect(changes.map((change) => change.type)).toEqual([
+      'unchanged',
+      'removed',
+      'unchanged',
+      'added',
+    ]);
+    expect(changes[1].previous?.lines).toEqual(['B']);
+    expect(changes[3].current?.lines).toEqual(['D']);
+  });
+
+  it('replaces the differing middle of documents too large to diff', () => {
+    const middle = (prefix: string) => paragraphs(prefix, 1001).replace(`${prefix} 500`, 'Shared');
+    const previous = ['# Start', middle('Old'), '# End'].join('\n\n');
+    const current = ['# Start', middle('New'), '# End'].join('\n\n');
+    const changes = diffMarkdownBlocks(previous, current);
+
+    expect(changes).toHaveLength(1003);
+    expect(changes.map((change) => change.type).lastIndexOf('unchanged', 1001)).toBe(0);
+    expect(changes[1002].type).toBe('unchanged');
+    expect(changes.slice(1, 1002).every((change) => change.type === 'modified')).toBe(true);
+    expect(changes[1].previous?.lines).toEqual(['Old 0']);
+    expect(changes[1].current?.lines).toEqual(['New 0']);
+  });
+
+  it('still diffs large documents whose changes are few', () => {
+    const previous = paragraphs('Text', 3000);
+    const current = previous.replace('Text 1500', 'Changed');
+    const changes = diffMarkdownBlocks(previous, current);
+
+    expect(changes.filter((change) => change.type !== 'unchanged')).toEqual([
+      { type: 'modified', previous: changes[1500].previous, current: changes[1500].current },
+    ]);
+  });
+});
+
+describe('computeChangeHunks', () => {
+  it('groups contiguous changes with their line ranges and sections', () => {
+    const previous = '# Intro\n\nOne\n\n# Usage\n\nTwo';
+    const current = '# Intro\n\nOne\n\n# Usage\n\nTwo changed\n\nThree';
+    const changes = diffMarkdownBlocks(previous, current);
+    const headings = [
+      { level: 1, text: 'Intro', slug: 'intro', line: 0 },
+      { level: 1, text: 'Usage', slug: 'usage', line: 4 },
+    ];
+
+    expect(computeChangeHunks(changes, headings, headings)).toEqual([
+      {
+        previousLines: { start: 7, end: 7 },
+        newLines: { start: 7, end: 9 },
+        added: 1,
+        removed: 0,
+        modified: 1,
+        sections: [{ id: 'usage', title: 'Usage' }],
+      },
+    ]);
+  });
+});
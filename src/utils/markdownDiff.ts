@@ -0,0 +1,803 @@
+/**
+ * Block-level markdown diff utilities
+ *
+ * Splits markdown into blocks (paragraphs, headings, code fences, list items,
+ * table rows, ...) and diffs two documents block by block. The result is used
+ * both for the structured hunks reported with content changes and for the
+ * highlighted "changes" view, where modified blocks are also diffed word by word.
+ */
+
+import type { MarkdownHeading } from './markdownHeadings';
+
+/**
+ * Kinds of markdown blocks compared by the diff
+ */
+export type MarkdownBlockKind =
+  | 'heading'
+  | 'paragraph'
+  | 'code'
+  | 'list-item'
+  | 'table-header'
+  | 'table-row'
+  | 'blockquote'
+  | 'html'
+  | 'thematic-break';
+
+/**
+ * A block of markdown and its location in the source
+ */
+export interface MarkdownBlock {
+  kind: MarkdownBlockKind;
+  /** 0-based first line of the block */
+  startLine: number;
+  /** 0-based last line of the block (inclusive) */
+  endLine: number;
+  /** Raw source lines of the block */
+  lines: string[];
+}
+
+/**
+ * A block in the merged diff between two documents
+ * - unchanged/added/modified blocks carry the block from the new document
+ * - removed/modified blocks carry the block from the previous document
+ */
+export interface MarkdownBlockChange {
+  type: 'unchanged' | 'added' | 'removed' | 'modified';
+  previous?: MarkdownBlock;
+  current?: MarkdownBlock;
+}
+
+/**
+ * A 1-based, inclusive line range
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A contiguous run of changed blocks
+ */
+export interface ContentChangeHunk {
+  /** Lines of the previous content covered by the hunk (null for pure additions) */
+  previousLines: LineRange | null;
+  /** Lines of the new content covered by the hunk (null for pure removals) */
+  newLines: LineRange | null;
+  /** Number of blocks added, removed and modified in the hunk */
+  added: number;
+  removed: number;
+  modified: number;
+  /** Heading sections containing the changed blocks */
+  sections: Array<{ id: string; title: string }>;
+}
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_REGEX = /^ {0,3}#{1,6}(?:[ \t]|$)/;
+const SETEXT_REGEX = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK_REGEX = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])(?:[ \t]+|$)/;
+const BLOCKQUOTE_REGEX = /^ {0,3}>/;
+const HTML_REGEX = /^ {0,3}<[a-zA-Z/!?]/;
+const TABLE_DELIMITER_REGEX = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string | undefined) => !line || !line.trim();
+
+const getIndent = (line: string) => line.match(/^\s*/)?.[0].length ?? 0;
+
+/**
+ * Find the closing line of a fenced code block (or the last line if unclosed)
+ */
+const findFenceEnd = (lines: string[], start: number): number => {
+  const open = lines[start].trim().match(/^(`{3,}|~{3,})/)?.[1] ?? '```';
+  for (let i = start + 1; i < lines.length; i++) {
+    const close = lines[i].trim().match(/^(`{3,}|~{3,})\s*$/);
+    if (close && close[1][0] === open[0] && close[1].length >= open.length) {
+      return i;
+    }
+  }
+  return lines.length - 1;
+};
+
+/**
+ * Whether a line starts a block that interrupts a paragraph
+ */
+const startsBlock = (line: string) =>
+  FENCE_REGEX.test(line) ||
+  ATX_REGEX.test(line) ||
+  THEMATIC_BREAK_REGEX.test(line) ||
+  BLOCKQUOTE_REGEX.test(line) ||
+  HTML_REGEX.test(line) ||
+  /^\s*[-*+][ \t]+\S/.test(line);
+
+/**
+ * Split markdown into top-level blocks. List items (including nested ones)
+ * and table rows are separate blocks so they can be diffed individually.
+ */
+export const splitMarkdownBlocks = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  const push = (kind: MarkdownBlockKind, startLine: number, endLine: number) => {
+    blocks.push({ kind, startLine, endLine, lines: lines.slice(startLine, endLine + 1) });
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    if (FENCE_REGEX.test(line)) {
+      const end = findFenceEnd(lines, i);
+      push('code', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (ATX_REGEX.test(line)) {
+      push('heading', i, i);
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK_REGEX.test(line)) {
+      push('thematic-break', i, i);
+      i++;
+      continue;
+    }
+
+    const listMatch = line.match(LIST_ITEM_REGEX);
+    if (listMatch) {
+      const contentIndent = listMatch[0].length;
+      let end = i;
+      let j = i + 1;
+      while (j < lines.length) {
+        const next = lines[j];
+        if (isBlank(next)) {
+          // Blank lines belong to the item only if indented content follows
+          let k = j + 1;
+          while (k < lines.length && isBlank(lines[k])) k++;
+          if (
+            k < lines.length &&
+            getIndent(lines[k]) >= contentIndent &&
+            !LIST_ITEM_REGEX.test(lines[k])
+          ) {
+            j = k;
+            continue;
+          }
+          break;
+        }
+        if (LIST_ITEM_REGEX.test(next)) break;
+        const indented = getIndent(next) >= contentIndent;
+        if (indented && FENCE_REGEX.test(next.trimStart())) {
+          end = findFenceEnd(lines, j);
+          j = end + 1;
+          continue;
+        }
+        // Lazy continuation lines directly follow the item text
+        if (!indented && (startsBlock(next) || isBlank(lines[j - 1]))) break;
+        end = j;
+        j++;
+      }
+      push('list-item', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (
+      line.includes('|') &&
+      TABLE_DELIMITER_REGEX.test(lines[i + 1] ?? '') &&
+      lines[i + 1].includes('|')
+    ) {
+      push('table-header', i, i + 1);
+      let j = i + 2;
+      while (j < lines.length && !isBlank(lines[j]) && !startsBlock(lines[j])) {
+        push('table-row', j, j);
+        j++;
+      }
+      i = j;
+      continue;
+    }
+
+    if (BLOCKQUOTE_REGEX.test(line)) {
+      let j = i + 1;
+      while (j < lines.length && !isBlank(lines[j])) j++;
+      push('blockquote', i, j - 1);
+      i = j;
+      continue;
+    }
+
+    if (HTML_REGEX.test(line)) {
+      let j = i + 1;
+      while (j < lines.length && !isBlank(lines[j])) j++;
+      push('html', i, j - 1);
+      i = j;
+      continue;
+    }
+
+    // Paragraph, possibly turned into a heading by a setext underline
+    let j = i + 1;
+    let kind: MarkdownBlockKind = 'paragraph';
+    while (j < lines.length && !isBlank(lines[j])) {
+      if (SETEXT_REGEX.test(lines[j])) {
+        kind = 'heading';
+        j++;
+        break;
+      }
+      if (startsBlock(lines[j])) break;
+      j++;
+    }
+    push(kind, i, j - 1);
+    i = j;
+  }
+
+  return blocks;
+};
+
+/**
+ * Comparison key for a block: its kind and whitespace-normalized text
+ */
+const blockKey = (block: MarkdownBlock) =>
+  `${block.kind}\n${block.lines.map((line) => line.trim()).join('\n')}`;
+
+type BlockOp =
+  | { type: 'equal'; previous: MarkdownBlock; current: MarkdownBlock }
+  | { type: 'removed'; previous: MarkdownBlock }
+  | { type: 'added'; current: MarkdownBlock };
+
+/**
+ * Largest block diff (differing blocks in one document times those in the
+ * other) worth computing; the LCS table takes four bytes per pair
+ */
+const MAX_BLOCK_DIFF_SIZE = 1_000_000;
+
+/**
+ * Longest-common-subsequence diff over block keys. When the blocks left
+ * after trimming the common prefix and suffix are too many to diff, they
+ * are reported as all removed and then all added.
+ */
+const diffBlockSequences = (previous: MarkdownBlock[], current: MarkdownBlock[]): BlockOp[] => {
+  const a = previous.map(blockKey);
+  const b = current.map(blockKey);
+
+  // Trim the common prefix and suffix so the LCS table stays small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const table = n * m <= MAX_BLOCK_DIFF_SIZE ? new Uint32Array((n + 1) * (m + 1)) : null;
+  if (table) {
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        table[i * (m + 1) + j] =
+          a[prefix + i] === b[prefix + j]
+            ? table[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+      }
+    }
+  }
+
+  const ops: BlockOp[] = [];
+  for (let k = 0; k < prefix; k++) {
+    ops.push({ type: 'equal', previous: previous[k], current: current[k] });
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (table && i < n && j < m && a[prefix + i] === b[prefix + j]) {
+      ops.push({ type: 'equal', previous: previous[prefix + i], current: current[prefix + j] });
+      i++;
+      j++;
+    } else if (
+      j < m &&
+      (i >= n || (table && table[i * (m + 1) + j + 1] >= table[(i + 1) * (m + 1) + j]))
+    ) {
+      ops.push({ type: 'added', current: current[prefix + j] });
+      j++;
+    } else {
+      ops.push({ type: 'removed', previous: previous[prefix + i] });
+      i++;
+    }
+  }
+  for (let k = suffix; k > 0; k--) {
+    ops.push({
+      type: 'equal',
+      previous: previous[previous.length - k],
+      current: current[current.length - k],
+    });
+  }
+  return ops;
+};
+
+/**
+ * Turn a run of removed and added blocks into changes, pairing removed and
+ * added blocks of the same kind (in order) as modifications
+ */
+const pairRun = (removed: MarkdownBlock[], added: MarkdownBlock[]): MarkdownBlockChange[] => {
+  const pairs = new Map<number, number>(); // added index -> removed index
+  let nextAdded = 0;
+  removed.forEach((block, removedIndex) => {
+    for (let k = nextAdded; k < added.length; k++) {
+      if (added[k].kind === block.kind) {
+        pairs.set(k, removedIndex);
+        nextAdded = k + 1;
+        return;
+      }
+    }
+  });
+
+  const paired = new Set(pairs.values());
+  const changes: MarkdownBlockChange[] = [];
+  let nextRemoved = 0;
+  const flushRemoved = (until: number) => {
+    for (; nextRemoved < until; nextRemoved++) {
+      if (!paired.has(nextRemoved)) {
+        changes.push({ type: 'removed', previous: removed[nextRemoved] });
+      }
+    }
+  };
+
+  added.forEach((block, addedIndex) => {
+    const removedIndex = pairs.get(addedIndex);
+    if (removedIndex === undefined) {
+      changes.push({ type: 'added', current: block });
+    } else {
+      flushRemoved(removedIndex);
+      changes.push({ type: 'modified', previous: removed[removedIndex], current: block });
+      nextRemoved = Math.max(nextRemoved, removedIndex + 1);
+    }
+  });
+  flushRemoved(removed.length);
+
+  return changes;
+};
+
+/**
+ * Diff two markdown documents block by block
+ */
+export const diffMarkdownBlocks = (
+  previousContent: string,
+  newContent: string
+): MarkdownBlockChange[] => {
+  const ops = diffBlockSequences(
+    splitMarkdownBlocks(previousContent),
+    splitMarkdownBlocks(newContent)
+  );
+
+  const changes: MarkdownBlockChange[] = [];
+  let removed: MarkdownBlock[] = [];
+  let added: MarkdownBlock[] = [];
+  const flushRun = () => {
+    changes.push(...pairRun(removed, added));
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flushRun();
+      changes.push({ type: 'unchanged', previous: op.previous, current: op.current });
+    } else if (op.type === 'removed') {
+      removed.push(op.previous);
+    } else {
+      added.push(op.current);
+    }
+  }
+  flushRun();
+
+  return changes;
+};
+
+/**
+ * Find the section (nearest preceding heading) containing a line
+ */
+const findSection = (headings: MarkdownHeading[], line: number) => {
+  let section: MarkdownHeading | undefined;
+  for (const heading of headings) {
+    if (heading.line > line) break;
+    section = heading;
+  }
+  return section;
+};
+
+/**
+ * Group block changes into hunks of contiguous changed blocks
+ *
+ * @param previousHeadings - Headings of the previous content (for removed blocks)
+ * @param newHeadings - Headings of the new content
+ */
+export const computeChangeHunks = (
+  changes: MarkdownBlockChange[],
+  previousHeadings: MarkdownHeading[],
+  newHeadings: MarkdownHeading[]
+): ContentChangeHunk[] => {
+  const hunks: ContentChangeHunk[] = [];
+  let hunk: ContentChangeHunk | null = null;
+
+  const extend = (range: LineRange | null, block: MarkdownBlock): LineRange => ({
+    start: Math.min(range?.start ?? Infinity, block.startLine + 1),
+    end: Math.max(range?.end ?? 0, block.endLine + 1),
+  });
+
+  for (const change of changes) {
+    if (change.type === 'unchanged') {
+      hunk = null;
+      continue;
+    }
+    if (!hunk) {
+      hunk = {
+        previousLines: null,
+        newLines: null,
+        added: 0,
+        removed: 0,
+        modified: 0,
+        sections: [],
+      };
+      hunks.push(hunk);
+    }
+
+    hunk[change.type]++;
+    if (change.previous) {
+      hunk.previousLines = extend(hunk.previousLines, change.previous);
+    }
+    if (change.current) {
+      hunk.newLines = extend(hunk.newLines, change.current);
+    }
+
+    const section = change.current
+      ? findSection(newHeadings, change.current.startLine)
+      : findSection(previousHeadings, change.previous!.startLine);
+    if (section && !hunk.sections.some((s) => s.id === section.slug)) {
+      hunk.sections.push({ id: section.slug, title: section.text });
+    }
+  }
+
+  return hunks;
+};
+
+/**
+ * CSS class names used to mark changed blocks in the rendered changes view
+ */
+export const CHANGE_MARKER_CLASS = 'markdown-panel-change';
+
+const markerClass = (type: MarkdownBlockChange['type']) =>
+  `${CHANGE_MARKER_CLASS} ${CHANGE_MARKER_CLASS}-${type}`;
+
+/**
+ * CSS class names used to mark words inserted and deleted inside a modified block
+ */
+export const INLINE_CHANGE_CLASSES = {
+  added: `${CHANGE_MARKER_CLASS}-inserted`,
+  removed: `${CHANGE_MARKER_CLASS}-deleted`,
+} as const;
+
+/**
+ * Block kinds whose modifications are shown word by word. Code and HTML are
+ * shown as whole blocks, as markers inside them would show up as text.
+ */
+const INLINE_DIFF_KINDS = new Set<MarkdownBlockKind>([
+  'heading',
+  'paragraph',
+  'list-item',
+  'blockquote',
+  'table-row',
+]);
+
+/**
+ * Largest word diff (tokens in one block times tokens in the other) worth computing
+ */
+const MAX_INLINE_DIFF_SIZE = 250_000;
+
+/**
+ * Share of words two versions of a block must have in common to be diffed
+ * word by word; less similar blocks are shown as removed and added instead
+ */
+const MIN_INLINE_SIMILARITY = 0.4;
+
+/**
+ * List, heading and blockquote markers at the start of a line, and setext underlines
+ */
+const LINE_PREFIX_REGEX =
+  /^[ \t]*(?:(?:>|#{1,6}(?=[ \t]|$)|(?:[-*+]|\d{1,9}[.)])(?=[ \t]|$))[ \t]*(?:\[[ xX]\][ \t]*)?)*/;
+
+/**
+ * Inline tokens: code spans, links and images, HTML tags, emphasis and table
+ * delimiters, escapes, whitespace, words, and runs of other punctuation
+ */
+const INLINE_TOKEN_REGEX =
+  /(`+)[^`]*?\1|!?\[[^\]\n]*\]\([^)\n]*\)|<[^>\n]+>|[*_~|]+|\\\S|\s+|[\p{L}\p{N}]+|[^\s`*_~|\\<[\p{L}\p{N}]+|[\s\S]/gu;
+
+const SYNTAX_TOKEN_REGEX = /^(?:[*_~|]+|<[^>\n]+>)$/;
+
+interface InlineToken {
+  text: string;
+  /**
+   * Markdown syntax rather than text, never wrapped in a marker so emphasis,
+   * HTML and table cells stay balanced
+   */
+  syntax: boolean;
+  whitespace: boolean;
+}
+
+const tokenizeInline = (lines: string[]): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  lines.forEach((line, index) => {
+    if (index > 0) {
+      tokens.push({ text: '\n', syntax: false, whitespace: true });
+    }
+    const prefix = SETEXT_REGEX.test(line) ? line : (line.match(LINE_PREFIX_REGEX)?.[0] ?? '');
+    if (prefix) {
+      tokens.push({ text: prefix, syntax: true, whitespace: false });
+    }
+    for (const [text] of line.slice(prefix.length).matchAll(INLINE_TOKEN_REGEX)) {
+      const whitespace = !text.trim();
+      tokens.push({ text, syntax: !whitespace && SYNTAX_TOKEN_REGEX.test(text), whitespace });
+    }
+  });
+  return tokens;
+};
+
+/**
+ * Comparison key for a token; any whitespace matches any other, so reflowed text is unchanged
+ */
+const tokenKey = (token: InlineToken) => (token.whitespace ? ' ' : token.text);
+
+type InlineOp =
+  | { type: 'equal'; previous: InlineToken; current: InlineToken }
+  | { type: 'removed'; previous: InlineToken }
+  | { type: 'added'; current: InlineToken };
+
+/**
+ * Longest-common-subsequence diff over the tokens of two versions of a block,
+ * or null when the versions are too large or too different to diff word by word
+ */
+const diffInlineTokens = (previous: InlineToken[], current: InlineToken[]): InlineOp[] | null => {
+  const n = previous.length;
+  const m = current.length;
+  if (n * m > MAX_INLINE_DIFF_SIZE) return null;
+
+  const a = previous.map(tokenKey);
+  const b = current.map(tokenKey);
+  const table = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: InlineOp[] = [];
+  let common = 0;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      ops.push({ type: 'equal', previous: previous[i], current: current[j] });
+      if (!current[j].whitespace) common++;
+      i++;
+      j++;
+    } else if (j < m && (i >= n || table[i * (m + 1) + j + 1] >= table[(i + 1) * (m + 1) + j])) {
+      ops.push({ type: 'added', current: current[j] });
+      j++;
+    } else {
+      ops.push({ type: 'removed', previous: previous[i] });
+      i++;
+    }
+  }
+
+  const words = (tokens: InlineToken[]) => tokens.filter((token) => !token.whitespace).length;
+  const longest = Math.max(words(previous), words(current));
+  return longest > 0 && common / longest >= MIN_INLINE_SIMILARITY ? ops : null;
+};
+
+/**
+ * Which document a changes markdown shows
+ * - unified: both documents merged, with removed text struck out in place
+ * - previous: the previous document, for the left of a side-by-side diff
+ * - current: the current document, for the right of a side-by-side diff
+ */
+export type ChangesMarkdownSide = 'unified' | 'previous' | 'current';
+
+/**
+ * Mark the words inserted and deleted between two versions of a block.
+ * Markdown syntax that changed is never marked: the unified and current
+ * sides keep the current syntax, the previous side keeps the previous one.
+ *
+ * @returns The marked block lines, or null when the block can't be diffed word by word
+ */
+const buildInlineChanges = (
+  previous: MarkdownBlock,
+  current: MarkdownBlock,
+  side: ChangesMarkdownSide
+): string[] | null => {
+  if (
+    !INLINE_DIFF_KINDS.has(current.kind) ||
+    [...previous.lines, ...current.lines].some((line) => FENCE_REGEX.test(line.trimStart()))
+  ) {
+    return null;
+  }
+  const ops = diffInlineTokens(tokenizeInline(previous.lines), tokenizeInline(current.lines));
+  if (!ops) return null;
+
+  const showRemoved = side !== 'current';
+  const showAdded = side !== 'previous';
+  let output = '';
+  let removed = '';
+  let added = '';
+  const flush = () => {
+    if (removed) output += `<span class="${INLINE_CHANGE_CLASSES.removed}">${removed}</span>`;
+    if (added) output += `<span class="${INLINE_CHANGE_CLASSES.added}">${added}</span>`;
+    removed = '';
+    added = '';
+  };
+
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') {
+      const next = ops[index + 1];
+      if (op.current.whitespace && (removed || added) && next && next.type !== 'equal') {
+        // Space between changed words is part of the change on both sides
+        if (showRemoved) removed += op.previous.text;
+        if (showAdded) added += op.current.text;
+        return;
+      }
+      flush();
+      output += side === 'previous' ? op.previous.text : op.current.text;
+    } else if (op.type === 'removed') {
+      if (!showRemoved) return;
+      const { text, syntax } = op.previous;
+      if (syntax) {
+        flush();
+        if (side === 'previous') output += text;
+      } else {
+        // Removed line breaks would change the current block's lines in the unified view
+        removed += side === 'unified' && text.includes('\n') ? ' ' : text;
+      }
+    } else {
+      if (!showAdded) return;
+      const { text, syntax } = op.current;
+      if (syntax) {
+        flush();
+        output += text;
+      } else {
+        added += text;
+      }
+    }
+  });
+  flush();
+
+  return output.split('\n');
+};
+
+/**
+ * Grouping used to decide whether two adjacent blocks need a blank line between them
+ */
+const blockGroup = (kind: MarkdownBlockKind) =>
+  kind === 'list-item' ? 'list' : kind === 'table-header' || kind === 'table-row' ? 'table' : kind;
+
+/**
+ * A block shown in a changes document, marked with the change it belongs to
+ */
+interface ChangesEntry {
+  type: MarkdownBlockChange['type'];
+  block: MarkdownBlock;
+  fromCurrent: boolean;
+  /** Lines to show, with inline changes marked */
+  lines: string[];
+}
+
+/**
+ * Build a single markdown document showing the blocks of a diff, with
+ * changed blocks marked by CSS classes.
+ *
+ * Whole blocks are wrapped in `<div>` elements. List items and table rows
+ * can't be wrapped without breaking their list or table, so an empty marker
+ * `<span>` is inserted at the start of the item (or first cell) instead.
+ * Inside modified prose blocks, inserted and deleted words are marked too;
+ * in the unified document, modified blocks that can't be compared word by
+ * word are shown as removed and added.
+ *
+ * @param side - Which document to show; a side-by-side diff builds both sides
+ * @returns The markdown and the number of changed blocks marked in it
+ */
+export const buildChangesMarkdown = (
+  changes: MarkdownBlockChange[],
+  side: ChangesMarkdownSide = 'unified'
+): { markdown: string; changeCount: number } => {
+  const entries = changes.flatMap((change): ChangesEntry[] => {
+    const { type, previous, current } = change;
+    if (type === 'added') {
+      return side === 'previous'
+        ? []
+        : [{ type, block: current!, fromCurrent: true, lines: current!.lines }];
+    }
+    if (type === 'removed') {
+      return side === 'current'
+        ? []
+        : [{ type, block: previous!, fromCurrent: false, lines: previous!.lines }];
+    }
+
+    const fromCurrent = side !== 'previous';
+    const block = (fromCurrent ? current : previous)!;
+    if (type === 'unchanged') {
+      return [{ type, block, fromCurrent, lines: block.lines }];
+    }
+    const inline = buildInlineChanges(previous!, current!, side);
+    if (inline || side !== 'unified') {
+      return [{ type, block, fromCurrent, lines: inline ?? block.lines }];
+    }
+    return [
+      { type: 'removed', block: previous!, fromCurrent: false, lines: previous!.lines },
+      { type: 'added', block: current!, fromCurrent: true, lines: current!.lines },
+    ];
+  });
+
+  const output: string[] = [];
+  let changeCount = 0;
+  let last: { block: MarkdownBlock; fromCurrent: boolean; wrapped: boolean } | null = null;
+
+  const ensureBlankLine = () => {
+    if (output.length > 0 && !isBlank(output[output.length - 1])) {
+      output.push('');
+    }
+  };
+
+  for (const { type, block, fromCurrent, lines: blockLines } of entries) {
+    const group = blockGroup(block.kind);
+    const isMarkedInline = group === 'list' || group === 'table';
+    const wrapped = type !== 'unchanged' && !isMarkedInline;
+
+    if (last) {
+      const sameGroup = blockGroup(last.block.kind) === group;
+      let needsBlankLine: boolean;
+      if (wrapped || last.wrapped) {
+        // HTML blocks only end at a blank line
+        needsBlankLine = true;
+      } else if (sameGroup && group === 'table') {
+        // A blank line would end the table
+        needsBlankLine = false;
+      } else if (last.fromCurrent === fromCurrent) {
+        // Keep the spacing of the source document
+        needsBlankLine = block.startLine > last.block.endLine + 1;
+      } else {
+        needsBlankLine = !(sameGroup && group === 'list');
+      }
+      if (needsBlankLine) {
+        ensureBlankLine();
+      }
+    }
+
+    let lines = blockLines;
+    if (type !== 'unchanged') {
+      changeCount++;
+      const marker = `<span class="${markerClass(type)}"></span>`;
+      if (group === 'list') {
+        lines = [
+          lines[0].replace(/^(\s*(?:[-*+]|\d{1,9}[.)])(?:[ \t]+\[[ xX]\])?[ \t]*)/, `$1${marker}`),
+          ...lines.slice(1),
+        ];
+      } else if (group === 'table') {
+        lines = [lines[0].replace(/^(\s*\|?\s*)/, `$1${marker}`), ...lines.slice(1)];
+      } else {
+        lines = [`<div class="${markerClass(type)}">`, '', ...lines, '', '</div>'];
+      }
+    }
+
+    output.push(...lines);
+    last = { block, fromCurrent, wrapped };
+  }
+
+  return { markdown: output.join('\n'), changeCount };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import { createSlugger, extractHeadings, slugify, stripInlineMarkdown } from './markdownHeadings';
+
+describe('slugify', () => {
+  it('lowercases, drops punctuation and joins words with hyphens', () => {
+    expect(slugify('Getting Started')).toBe('getting-started');
+    expect(slugify('What’s new in v2.0?')).toBe('whats-new-in-v20');
+    expect(slugify('snake_case & kebab-case')).toBe('snake_case--kebab-case');
+    expect(slugify('Café Überblick')).toBe('café-überblick');
+  });
+});
+
+describe('createSlugger', () => {
+  it('numbers repeated slugs like github-slugger', () => {
+    const slug = createSlugger();
+    expect(['Intro', 'Intro', 'Intro 1', 'Intro'].map(slug)).toEqual([
+      'intro',
+      'intro-1',
+      'intro-1-1',
+      'intro-2',
+    ]);
+  });
+});
+
+describe('stripInlineMarkdown', () => {
+  it('keeps the text of links, code and emphasis', () => {
+    expect(stripInlineMarkdown('Use [the API](api.md) with `fetch()` **now**')).toBe(
+      'Use the API with fetch() now'
+    );
+    expect(stripInlineMarkdown('_Optional_ <sup>beta</sup> ~~old~~ \\*')).toBe(
+      'Optional beta old *'
+    );
+  });
+});
+
+describe('extractHeadings', () => {
+  it('finds ATX and setext headings with their levels and lines', () => {
+    const markdown = ['# Title #', '', 'Overview', '========', '', 'Details', '---', '### '].join(
+      '\n'
+    );
+
+    expect(extractHeadings(markdown)).toEqual([
+      { level: 1, text: 'Title', slug: 'title', line: 0 },
+      { level: 1, text: 'Overview', slug: 'overview', line: 2 },
+      { level: 2, text: 'Details', slug: 'details', line: 5 },
+      { level: 3, text: '', slug: '', line: 7 },
+    ]);
+  });
+
+  it('skips headings in code fences and list items above dashes', () => {
+    const markdown = ['```', '# Not a heading', '```', '- item', '---', '## Real'].join('\n');
+    expect(extractHeadings(markdown).map((heading) => heading.text)).toEqual(['Real']);
+  });
+
+  it('restarts slug numbering after a mermaid diagram', () => {
+    const markdown = ['# Setup', '# Setup', '```mermaid', 'graph TD', '```', '# Setup'].join('\n');
+    expect(extractHeadings(markdown).map((heading) => heading.slug)).toEqual([
+      'setup',
+      'setup-1',
+      'setup',
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Heading extraction utilities
+ *
+ * Parses ATX and setext headings out of raw markdown and assigns them the same
+ * IDs that rehype-slug (github-slugger) generates inside DocumentView, so the
+ * panel can locate rendered headings by ID.
+ */
+
+/**
+ * A heading found in the markdown source
+ */
+export interface MarkdownHeading {
+  /** Heading level (1-6) */
+  level: number;
+  /** Plain text of the heading (inline markdown stripped) */
+  text: string;
+  /** The DOM id rehype-slug assigns to the rendered heading */
+  slug: string;
+  /** 0-based line number of the heading in the source */
+  line: number;
+}
+
+// Everything github-slugger keeps: letters, marks, numbers, connector punctuation, hyphen and space
+const SLUG_STRIP_REGEX = /[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu;
+
+/**
+ * Convert heading text to a slug (without de-duplication)
+ */
+export const slugify = (value: string): string =>
+  value.toLowerCase().replace(SLUG_STRIP_REGEX, '').replace(/ /g, '-');
+
+/**
+ * Create a stateful slugger that de-duplicates repeated slugs the way
+ * github-slugger does (`intro`, `intro-1`, `intro-2`, ...)
+ */
+export const createSlugger = () => {
+  const occurrences = new Map<string, number>();
+
+  return (value: string): string => {
+    const original = slugify(value);
+    let result = original;
+    while (occurrences.has(result)) {
+      const count = (occurrences.get(original) ?? 0) + 1;
+      occurrences.set(original, count);
+      result = `${original}-${count}`;
+    }
+    occurrences.set(result, 0);
+    return result;
+  };
+};
+
+/**
+ * Strip inline markdown so the text matches the rendered heading's text content
+ */
+export const stripInlineMarkdown = (value: string): string =>
+  value
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // inline links
+    .replace(/\[([^\]]*)\]\[[^\]]*\]/g, '$1') // reference links
+    .replace(/<[^>]+>/g, '') // raw HTML tags
+    .replace(/`([^`]*)`/g, '$1') // inline code
+    .replace(/(\*\*|__)(.+?)\1/g, '$2') // bold
+    .replace(/(^|\W)(\*|_)(.+?)\2(?=\W|$)/g, '$1$3') // italic
+    .replace(/~~(.+?)~~/g, '$1') // strikethrough
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~])/g, '$1') // escapes
+    .trim();
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const ATX_REGEX = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?[ \t]*$/;
+const SETEXT_REGEX = /^ {0,3}(=+|-+)[ \t]*$/;
+const NON_PARAGRAPH_REGEX = /^ {0,3}(?:[-*+]\s|\d+[.)]\s|>|#|\||`{3,}|~{3,})/;
+
+/**
+ * Extract all headings from markdown, skipping fenced code blocks.
+ *
+ * DocumentView renders mermaid fences as separate chunks, each with its own
+ * rehype-slug pass, so slug de-duplication restarts after every mermaid block.
+ */
+export const extractHeadings = (markdown: string): MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = [];
+  const lines = markdown.split('\n');
+  let slug = createSlugger();
+  let openFence: { marker: string; isMermaid: boolean } | null = null;
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (openFence) {
+      if (
+        fenceMatch &&
+        fenceMatch[1][0] === openFence.marker[0] &&
+        fenceMatch[1].length >= openFence.marker.length &&
+        !fenceMatch[2].trim()
+      ) {
+        if (openFence.isMermaid) {
+          slug = createSlugger();
+        }
+        openFence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      openFence = {
+        marker: fenceMatch[1],
+        isMermaid: line === '```mermaid',
+      };
+      return;
+    }
+
+    const atxMatch = line.match(ATX_REGEX);
+    if (atxMatch) {
+      const text = stripInlineMarkdown((atxMatch[2] || '').replace(/(?:^|[ \t]+)#+$/, ''));
+      headings.push({ level: atxMatch[1].length, text, slug: slug(text), line: index });
+      return;
+    }
+
+    const setextMatch = line.match(SETEXT_REGEX);
+    const previous = index > 0 ? lines[index - 1] : '';
+    const previousIsHeading = headings.length > 0 && headings[headings.length - 1].line === index - 1;
+    if (
+      setextMatch &&
+      previous.trim() &&
+      !previousIsHeading &&
+      !NON_PARAGRAPH_REGEX.test(previous) &&
+      !SETEXT_REGEX.test(previous)
+    ) {
+      const text = stripInlineMarkdown(previous);
+      headings.push({
+        level: setextMatch[1][0] === '=' ? 1 : 2,
+        text,
+        slug: slug(text),
+        line: index - 1,
+      });
+    }
+  });
+
+  return headings;
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  extractMarkdownLinks,
+  getBasePath,
+  isExternalHref,
+  resolveLink,
+  resolveRelativePath,
+} from './markdownLinks';
+
+describe('resolveRelativePath', () => {
+  it('joins relative paths onto a relative directory', () => {
+    expect(resolveRelativePath('docs/guide', 'setup.md')).toBe('docs/guide/setup.md');
+    expect(resolveRelativePath('docs/guide', './images/../setup.md')).toBe('docs/guide/setup.md');
+    expect(resolveRelativePath('docs/guide', '../api/index.md')).toBe('docs/api/index.md');
+    expect(resolveRelativePath('', 'README.md')).toBe('README.md');
+  });
+
+  it('keeps paths resolved from an absolute directory absolute', () => {
+    expect(resolveRelativePath('/repo/docs', 'setup.md')).toBe('/repo/docs/setup.md');
+    expect(resolveRelativePath('/repo/docs', '../README.md')).toBe('/repo/README.md');
+  });
+
+  it('does not climb above the top of the path', () => {
+    expect(resolveRelativePath('docs', '../../../README.md')).toBe('README.md');
+    expect(resolveRelativePath('/repo/docs', '../../../README.md')).toBe('/README.md');
+  });
+
+  it('resolves rooted paths from the repository root', () => {
+    expect(resolveRelativePath('docs/guide', '/README.md')).toBe('README.md');
+    expect(resolveRelativePath('/repo/docs', '/README.md', '/repo')).toBe('/repo/README.md');
+    expect(resolveRelativePath('/repo/docs', '/README.md', '/repo/')).toBe('/repo/README.md');
+    expect(resolveRelativePath('/repo', '/docs/setup.md', '/repo')).toBe('/repo/docs/setup.md');
+  });
+
+  it('does not climb above the repository root from rooted paths', () => {
+    expect(resolveRelativePath('/repo/docs', '/../README.md', '/repo')).toBe('/repo/README.md');
+    expect(resolveRelativePath('docs', '/../../README.md')).toBe('README.md');
+  });
+
+  it('ignores a repository path that does not contain the directory', () => {
+    expect(resolveRelativePath('docs', '/README.md', '/repo')).toBe('README.md');
+    expect(resolveRelativePath('/repository/docs', '/README.md', '/repo')).toBe('README.md');
+  });
+});
+
+describe('resolveLink', () => {
+  it('returns null for external links', () => {
+    expect(resolveLink('https://example.com/a.md', 'docs/index.md')).toBeNull();
+    expect(resolveLink('mailto:someone@example.com', 'docs/index.md')).toBeNull();
+    expect(resolveLink('//example.com/a.md', 'docs/index.md')).toBeNull();
+  });
+
+  it('resolves fragments within the current file', () => {
+    expect(resolveLink('#getting-started', 'docs/index.md')).toEqual({
+      path: null,
+      fragment: 'getting-started',
+    });
+  });
+
+  it('resolves paths with a fragment and query, decoding both', () => {
+    expect(resolveLink('../My%20Notes.md?plain=1#caf%C3%A9', 'docs/guide/index.md')).toEqual({
+      path: 'docs/My Notes.md',
+      fragment: 'café',
+    });
+  });
+
+  it('resolves rooted links against the repository root', () => {
+    expect(
+      resolveLink('/CONTRIBUTING.md#setup', '/home/me/repo/docs/index.md', '/home/me/repo')
+    ).toEqual({ path: '/home/me/repo/CONTRIBUTING.md', fragment: 'setup' });
+  });
+});
+
+describe('getBasePath', () => {
+  it('drops the file name', () => {
+    expect(getBasePath('docs/guide/setup.md')).toBe('docs/guide');
+    expect(getBasePath('/repo/README.md')).toBe('/repo');
+    expect(getBasePath('README.md')).toBe('');
+  });
+});
+
+describe('isExternalHref', () => {
+  it('detects schemes and protocol-relative links', () => {
+    expect(isExternalHref('https://example.com')).toBe(true);
+    expect(isExternalHref('vscode:extension/foo')).toBe(true);
+    expect(isExternalHref('//cdn.example.com/x.png')).toBe(true);
+    expect(isExternalHref('docs/setup.md')).toBe(false);
+    expect(isExternalHref('/docs/setup.md')).toBe(false);
+  });
+});
+
+describe('extractMarkdownLinks', () => {
+  it('finds inline, reference and HTML links and images in order', () => {
+    const markdown = [
+      'See [the guide](docs/guide.md "Guide") and ![logo](<img/logo 1.png>).',
+      '[![badge](badge.svg)](https://ci.example.com)',
+      'Read [the API][api] or <a href="api.md">this</a> <img src="x.png">',
+      '',
+      '[api]: docs/api.md',
+    ].join('\n');
+
+    expect(
+      extractMarkdownLinks(markdown).map(({ kind, href, text, line }) => [kind, href, text, line])
+    ).toEqual([
+      ['link', 'docs/guide.md', 'the guide', 0],
+      ['image', 'img/logo 1.png', 'logo', 0],
+      ['link', 'https://ci.example.com', '![badge](badge.svg)', 1],
+      ['image', 'badge.svg', 'badge', 1],
+      ['link', 'docs/api.md', 'the API', 2],
+      ['link', 'api.md', '', 2],
+      ['image', 'x.png', null, 2],
+    ]);
+  });
+
+  it('skips links in code', () => {
+    const markdown = ['`[not](a.md)`', '```', '[not](b.md)', '```', '[yes](c.md)'].join('\n');
+    expect(extractMarkdownLinks(markdown).map((link) => link.href)).toEqual(['c.md']);
+  });
+});
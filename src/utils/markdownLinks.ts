@@ -0,0 +1,255 @@
+/**
+ * Link resolution utilities
+ *
+ * Resolves links inside a rendered document against the path of the file
+ * being shown, so relative links to other markdown files can be opened in
+ * the panel, and finds the links and images in markdown source.
+ */
+
+/**
+ * Get the directory path (everything except the filename)
+ */
+export const getBasePath = (filePath: string): string => {
+  const parts = filePath.split('/');
+  parts.pop(); // Remove filename
+  return parts.join('/');
+};
+
+/**
+ * Whether a link points outside the repository (has a scheme such as
+ * `https:` or `mailto:`, or is protocol-relative)
+ */
+export const isExternalHref = (href: string): boolean =>
+  /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('//');
+
+/**
+ * Whether a path points to a markdown file
+ */
+export const isMarkdownPath = (path: string): boolean => /\.(md|mdx|markdown)$/i.test(path);
+
+/**
+ * Join a relative path onto a directory, resolving `.` and `..` segments.
+ * Paths starting with `/` are resolved from the repository root. Results
+ * are absolute when the directory (or root) they're resolved from is, and
+ * `..` never climbs above it.
+ *
+ * @param repositoryPath - Absolute path of the repository, the root of
+ * `/` paths when basePath is inside it
+ */
+export const resolveRelativePath = (
+  basePath: string,
+  relativePath: string,
+  repositoryPath?: string
+): string => {
+  const rooted = relativePath.startsWith('/');
+  let rootPath = basePath;
+  if (rooted) {
+    const repositoryRoot = repositoryPath?.replace(/\/+$/, '');
+    const inRepository =
+      repositoryRoot && (basePath === repositoryRoot || basePath.startsWith(`${repositoryRoot}/`));
+    rootPath = inRepository ? repositoryRoot : '';
+  }
+  const segments = rootPath.split('/').filter((segment) => segment);
+  const minDepth = rooted ? segments.length : 0;
+
+  for (const segment of relativePath.split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length > minDepth) segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  const path = segments.join('/');
+  return rootPath.startsWith('/') ? `/${path}` : path;
+};
+
+/**
+ * A link resolved against the current file
+ */
+export interface ResolvedLink {
+  /** Repository path of the target file, or null for links within the current file */
+  path: string | null;
+  /** Heading fragment (without `#`), if any */
+  fragment: string | null;
+}
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Resolve an internal link (relative path and/or `#fragment`) against the current file.
+ * Returns null for external links.
+ *
+ * @param repositoryPath - Absolute path of the repository, for links starting with `/`
+ */
+export const resolveLink = (
+  href: string,
+  currentFilePath: string,
+  repositoryPath?: string
+): ResolvedLink | null => {
+  if (!href || isExternalHref(href)) return null;
+
+  const hashIndex = href.indexOf('#');
+  const target = hashIndex === -1 ? href : href.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? null : safeDecode(href.slice(hashIndex + 1)) || null;
+  const pathPart = target.split('?')[0];
+
+  if (!pathPart) {
+    return { path: null, fragment };
+  }
+
+  return {
+    path: resolveRelativePath(getBasePath(currentFilePath), safeDecode(pathPart), repositoryPath),
+    fragment,
+  };
+};
+
+/**
+ * A link or image found in the markdown source
+ */
+export interface MarkdownLinkReference {
+  kind: 'link' | 'image';
+  /** Target as written (angle brackets removed) */
+  href: string;
+  /** Link text or image alt text; null for an HTML image without an alt attribute */
+  text: string | null;
+  /** 0-based line of the link */
+  line: number;
+  /** 0-based column of the link within the line */
+  column: number;
+}
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const INLINE_LINK_REGEX =
+  /(!?)\[((?:[^[\]\\]|\\.|\[(?:[^[\]\\]|\\.)*\])*)\]\(\s*(<[^>]*>|(?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g;
+const REFERENCE_LINK_REGEX = /(!?)\[((?:[^[\]\\]|\\.)+)\]\[((?:[^[\]\\]|\\.)*)\]/g;
+const DEFINITION_REGEX = /^ {0,3}\[((?:[^[\]\\]|\\.)+)\]:\s*(<[^>]*>|\S+)/;
+const HTML_TAG_REGEX = /<(a|img)\b([^>]*)>/gi;
+
+const normalizeLabel = (label: string): string => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const unwrapHref = (href: string): string =>
+  href.startsWith('<') && href.endsWith('>') ? href.slice(1, -1) : href;
+
+/**
+ * Read an attribute from the attribute text of an HTML tag
+ */
+export const getHtmlAttribute = (attributes: string, name: string): string | null => {
+  const match = attributes.match(
+    new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i')
+  );
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+};
+
+/**
+ * Blank out inline code spans and HTML comments, keeping columns in place
+ */
+const maskCode = (line: string): string =>
+  line
+    .replace(/(`+)(?!`)[\s\S]*?[^`]\1(?!`)/g, (match) => ' '.repeat(match.length))
+    .replace(/<!--[\s\S]*?-->/g, (match) => ' '.repeat(match.length));
+
+/**
+ * Find the links and images in markdown: inline and reference-style links,
+ * images (including images inside link text) and HTML `<a>` and `<img>` tags.
+ * Fenced code, inline code and HTML comments are skipped.
+ */
+export const extractMarkdownLinks = (markdown: string): MarkdownLinkReference[] => {
+  const lines = markdown.split('\n');
+  const references: MarkdownLinkReference[] = [];
+
+  // Reference definitions can appear anywhere, so collect them first
+  const definitions = new Map<string, string>();
+  let openFence: string | null = null;
+  const proseLines: Array<string | null> = lines.map((line) => {
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (openFence) {
+      if (
+        fenceMatch &&
+        fenceMatch[1][0] === openFence[0] &&
+        fenceMatch[1].length >= openFence.length &&
+        !fenceMatch[2].trim()
+      ) {
+        openFence = null;
+      }
+      return null;
+    }
+    if (fenceMatch) {
+      openFence = fenceMatch[1];
+      return null;
+    }
+    const definition = line.match(DEFINITION_REGEX);
+    if (definition) {
+      const label = normalizeLabel(definition[1]);
+      if (!definitions.has(label)) definitions.set(label, unwrapHref(definition[2]));
+      return null;
+    }
+    return maskCode(line);
+  });
+
+  const collectInline = (text: string, line: number, offset: number): string => {
+    let remaining = text;
+    for (const match of text.matchAll(INLINE_LINK_REGEX)) {
+      const [whole, bang, label, href] = match;
+      const column = offset + match.index;
+      references.push({
+        kind: bang ? 'image' : 'link',
+        href: unwrapHref(href),
+        text: label,
+        line,
+        column,
+      });
+      if (!bang) {
+        // Images used as link text, e.g. badges
+        collectInline(label, line, column + 1);
+      }
+      remaining =
+        remaining.slice(0, match.index) +
+        ' '.repeat(whole.length) +
+        remaining.slice(match.index + whole.length);
+    }
+    return remaining;
+  };
+
+  proseLines.forEach((masked, line) => {
+    if (masked === null) return;
+    const rest = collectInline(masked, line, 0);
+
+    for (const match of rest.matchAll(REFERENCE_LINK_REGEX)) {
+      const [, bang, label, reference] = match;
+      const href = definitions.get(normalizeLabel(reference || label));
+      if (href !== undefined) {
+        references.push({
+          kind: bang ? 'image' : 'link',
+          href,
+          text: label,
+          line,
+          column: match.index,
+        });
+      }
+    }
+
+    for (const match of rest.matchAll(HTML_TAG_REGEX)) {
+      const [, tag, attributes] = match;
+      const isImage = tag.toLowerCase() === 'img';
+      const href = getHtmlAttribute(attributes, isImage ? 'src' : 'href');
+      if (href === null) continue;
+      references.push({
+        kind: isImage ? 'image' : 'link',
+        href,
+        text: isImage ? getHtmlAttribute(attributes, 'alt') : '',
+        line,
+        column: match.index,
+      });
+    }
+  });
+
+  return references.sort((a, b) => a.line - b.line || a.column - b.column);
+};
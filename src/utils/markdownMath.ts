@@ -0,0 +1,201 @@
+/**
+ * Math utilities
+ *
+ * DocumentView has no math support and its sanitizer strips the markup KaTeX
+ * produces, so `$...$` and `$$...$$` are rewritten into placeholder elements
+ * that carry the TeX source; useMathRenderer then renders each placeholder
+ * with KaTeX after DocumentView has rendered. Rewrites never change the number
+ * of lines, so line numbers reported by DocumentView still map onto the source.
+ */
+
+/**
+ * Class on every math placeholder
+ */
+export const MATH_CLASS = 'markdown-panel-math';
+/**
+ * Class added to placeholders for display (`$$...$$`) math
+ */
+export const MATH_DISPLAY_CLASS = 'markdown-panel-math-display';
+/**
+ * Class on the hidden element holding the TeX source
+ */
+export const MATH_SOURCE_CLASS = 'markdown-panel-math-source';
+/**
+ * Class on the (initially empty) element KaTeX renders into
+ */
+export const MATH_OUTPUT_CLASS = 'markdown-panel-math-output';
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+// Raw HTML blocks whose content is never markdown (they end at their closing tag)
+const RAW_HTML_BLOCK_REGEX = /^ {0,3}<(pre|script|style|textarea)(?=[\s>]|$)/i;
+const ASCII_PUNCTUATION_REGEX = /[!"#$%'()*+,\-./:;=>?@[\\\]^_`{|}~]/g;
+
+/**
+ * Escape TeX source so markdown and HTML parsing both give back the exact text
+ */
+const escapeSource = (source: string): string =>
+  source
+    .replace(ASCII_PUNCTUATION_REGEX, (char) => `\\${char}`)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;');
+
+/**
+ * Build the inline HTML placeholder for an equation
+ */
+const buildPlaceholder = (source: string, display: boolean): string => {
+  const className = display ? `${MATH_CLASS} ${MATH_DISPLAY_CLASS}` : MATH_CLASS;
+  const style = display ? ' style="display: block; overflow-x: auto; overflow-y: hidden"' : '';
+  return (
+    `<span class="${className}"${style}>` +
+    `<span class="${MATH_SOURCE_CLASS}" style="display: none">${escapeSource(source)}</span>` +
+    `<span class="${MATH_OUTPUT_CLASS}"></span>` +
+    '</span>'
+  );
+};
+
+/**
+ * Find the closing `$` of inline math starting at `start` (the opening `$`).
+ * Like pandoc, the content can't start or end with whitespace and the closing
+ * `$` can't be followed by a digit. The first unescaped `$` must be a valid
+ * closing one, so prices such as "$5 and $10" stay text.
+ */
+const findInlineMathEnd = (text: string, start: number): number => {
+  if (/\s|\$/.test(text[start + 1] ?? ' ')) return -1;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') return -1;
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '$') {
+      return !/\s/.test(text[i - 1]) && !/\d/.test(text[i + 1] ?? '') ? i : -1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Replace math in a run of prose lines (no fenced code or raw HTML blocks)
+ */
+const replaceMathInProse = (text: string): string => {
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\') {
+      result += text.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+
+    // Skip code spans
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)?.[0] ?? '`';
+      const close = text.slice(i + run.length).search(new RegExp(`(?<!\`)${run}(?!\`)`));
+      const end = close === -1 ? i + run.length : i + run.length + close + run.length;
+      result += text.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === '$' && text[i + 1] === '$') {
+      const close = text.indexOf('$$', i + 2);
+      const source = close === -1 ? '' : text.slice(i + 2, close);
+      // Display math can span lines but not paragraphs
+      if (source.trim() && !/\n[ \t]*\n/.test(source)) {
+        result += buildPlaceholder(source, true);
+        i = close + 2;
+        continue;
+      }
+      result += '$$';
+      i += 2;
+      continue;
+    }
+
+    if (char === '$') {
+      const close = findInlineMathEnd(text, i);
+      if (close !== -1) {
+        result += buildPlaceholder(text.slice(i + 1, close), false);
+        i = close + 1;
+        continue;
+      }
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+};
+
+/**
+ * Whether markdown contains anything that might be math
+ */
+export const hasMath = (markdown: string): boolean => markdown.includes('$');
+
+/**
+ * Rewrite `$...$` (inline) and `$$...$$` (display) math into placeholders for
+ * useMathRenderer, leaving code blocks, code spans and escaped `\$` alone.
+ *
+ * @returns Markdown with the same number of lines as the input
+ */
+export const prepareMath = (markdown: string): string => {
+  if (!hasMath(markdown)) return markdown;
+
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  let prose: string[] = [];
+  let openFence: string | null = null;
+  let rawHtmlTag: string | null = null;
+
+  const flushProse = () => {
+    if (prose.length > 0) {
+      output.push(replaceMathInProse(prose.join('\n')));
+      prose = [];
+    }
+  };
+
+  for (const line of lines) {
+    if (openFence) {
+      const fenceMatch = line.match(FENCE_REGEX);
+      if (
+        fenceMatch &&
+        fenceMatch[1][0] === openFence[0] &&
+        fenceMatch[1].length >= openFence.length &&
+        !fenceMatch[2].trim()
+      ) {
+        openFence = null;
+      }
+      output.push(line);
+      continue;
+    }
+    if (rawHtmlTag) {
+      if (line.toLowerCase().includes(`</${rawHtmlTag}>`)) {
+        rawHtmlTag = null;
+      }
+      output.push(line);
+      continue;
+    }
+
+    const fenceMatch = line.match(FENCE_REGEX);
+    const rawHtmlMatch = line.match(RAW_HTML_BLOCK_REGEX);
+    if (fenceMatch || rawHtmlMatch) {
+      flushProse();
+      if (fenceMatch) {
+        openFence = fenceMatch[1];
+      } else if (rawHtmlMatch && !line.toLowerCase().includes(`</${rawHtmlMatch[1]}>`)) {
+        rawHtmlTag = rawHtmlMatch[1].toLowerCase();
+      }
+      output.push(line);
+      continue;
+    }
+
+    prose.push(line);
+  }
+  flushProse();
+
+  return output.join('\n');
+};
@@ -0,0 +1,107 @@
+/**
+ * Section utilities
+ *
+ * A section is a heading and everything below it up to the next heading of
+ * the same or a higher level. These helpers build the heading tree and read
+ * section content for the document-reading tools.
+ */
+
+import type { MarkdownHeading } from './markdownHeadings';
+
+/**
+ * A heading with the headings nested under it
+ */
+export interface MarkdownOutlineNode {
+  level: number;
+  text: string;
+  /** DOM id of the rendered heading */
+  id: string;
+  /** 1-based line of the heading in the source */
+  line: number;
+  children: MarkdownOutlineNode[];
+}
+
+/**
+ * The source lines a section covers
+ */
+export interface MarkdownSectionRange {
+  heading: MarkdownHeading;
+  /** 0-based line of the heading */
+  startLine: number;
+  /** 0-based line of the section's last line */
+  endLine: number;
+}
+
+/**
+ * Nest headings into a tree. A heading becomes a child of the closest
+ * preceding heading with a lower level, so skipped levels are tolerated.
+ */
+export const buildOutlineTree = (headings: MarkdownHeading[]): MarkdownOutlineNode[] => {
+  const roots: MarkdownOutlineNode[] = [];
+  const stack: MarkdownOutlineNode[] = [];
+
+  for (const heading of headings) {
+    const node: MarkdownOutlineNode = {
+      level: heading.level,
+      text: heading.text,
+      id: heading.slug,
+      line: heading.line + 1,
+      children: [],
+    };
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+
+  return roots;
+};
+
+/**
+ * Find the lines a heading's section covers
+ *
+ * @param includeSubsections - Whether the section runs on through nested
+ * headings (the default) or stops at the next heading of any level
+ */
+export const getSectionRange = (
+  headings: MarkdownHeading[],
+  heading: MarkdownHeading,
+  lineCount: number,
+  includeSubsections = true
+): MarkdownSectionRange => {
+  const next = headings.find(
+    (h) => h.line > heading.line && (!includeSubsections || h.level <= heading.level)
+  );
+  return {
+    heading,
+    startLine: heading.line,
+    endLine: next ? next.line - 1 : lineCount - 1,
+  };
+};
+
+/**
+ * Read the markdown of a section, without trailing blank lines
+ */
+export const getSectionContent = (markdown: string, range: MarkdownSectionRange): string =>
+  markdown
+    .split('\n')
+    .slice(range.startLine, range.endLine + 1)
+    .join('\n')
+    .replace(/\s+$/, '');
+
+/**
+ * The headings enclosing a heading, outermost first, ending with the heading itself
+ */
+export const getHeadingPath = (
+  headings: MarkdownHeading[],
+  heading: MarkdownHeading
+): MarkdownHeading[] => {
+  const path: MarkdownHeading[] = [heading];
+  for (let i = headings.indexOf(heading) - 1; i >= 0; i--) {
+    if (headings[i].level < path[0].level) {
+      path.unshift(headings[i]);
+    }
+  }
+  return path;
+};
@@ -0,0 +1,93 @@
+/**
+ * Slide splitting utilities
+ *
+ * Splits a markdown document into presentation slides. Thematic breaks
+ * (`---`, `***`, `___`) are used as slide separators when the document has
+ * any; otherwise a new slide starts at every h1/h2 heading.
+ */
+
+/**
+ * A slide and its location in the source document
+ */
+export interface MarkdownSlideRange {
+  /** Markdown content of the slide */
+  content: string;
+  /** Title taken from the first heading (or first line) of the slide */
+  title: string;
+  /** 0-based line where the slide content starts */
+  startLine: number;
+  /** 0-based line where the slide content ends (inclusive) */
+  endLine: number;
+}
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+const THEMATIC_BREAK_REGEX = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SLIDE_HEADING_REGEX = /^ {0,3}#{1,2}(?:[ \t]|$)/;
+
+const getSlideTitle = (content: string): string => {
+  const lines = content.split('\n').filter((line) => line.trim());
+  const heading = lines.find((line) => /^ {0,3}#{1,6}[ \t]+/.test(line));
+  if (heading) {
+    return heading.replace(/^ {0,3}#{1,6}[ \t]+/, '').replace(/[ \t]+#+[ \t]*$/, '').trim();
+  }
+  const first = lines[0]?.trim() || 'Untitled Slide';
+  return first.length > 50 ? `${first.substring(0, 47)}...` : first;
+};
+
+/**
+ * Split markdown into slides on thematic breaks, falling back to h1/h2 headings
+ */
+export const splitMarkdownIntoSlides = (markdown: string): MarkdownSlideRange[] => {
+  if (!markdown.trim()) return [];
+
+  const lines = markdown.split('\n');
+  const breakLines = new Set<number>();
+  const headingLines = new Set<number>();
+  let openFence: string | null = null;
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (openFence) {
+      if (fenceMatch && fenceMatch[1][0] === openFence[0] && fenceMatch[1].length >= openFence.length) {
+        openFence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      openFence = fenceMatch[1];
+      return;
+    }
+
+    // A `---` directly under paragraph text is a setext heading, not a break
+    const previousIsBlank = index === 0 || !lines[index - 1].trim();
+    if (THEMATIC_BREAK_REGEX.test(line) && previousIsBlank) {
+      breakLines.add(index);
+    } else if (SLIDE_HEADING_REGEX.test(line)) {
+      headingLines.add(index);
+    }
+  });
+
+  const useBreaks = breakLines.size > 0;
+  const slides: MarkdownSlideRange[] = [];
+  let startLine = 0;
+
+  const pushSlide = (endLine: number) => {
+    const content = lines.slice(startLine, endLine + 1).join('\n');
+    if (content.trim()) {
+      slides.push({ content, title: getSlideTitle(content), startLine, endLine });
+    }
+  };
+
+  lines.forEach((_line, index) => {
+    if (useBreaks && breakLines.has(index)) {
+      pushSlide(index - 1);
+      startLine = index + 1;
+    } else if (!useBreaks && headingLines.has(index) && index > startLine) {
+      pushSlide(index - 1);
+      startLine = index;
+    }
+  });
+  pushSlide(lines.length - 1);
+
+  return slides;
+};
@@ -0,0 +1,95 @@
+/**
+ * Document statistics
+ *
+ * Counts for the rendered text of a markdown document. Code blocks, HTML
+ * tags, link targets and markdown syntax aren't counted as words.
+ */
+
+import { extractFrontmatter } from './frontmatter';
+import { extractHeadings } from './markdownHeadings';
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+/**
+ * Reading speed used to estimate reading time
+ */
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * Size of a markdown document
+ */
+export interface DocumentStats {
+  /** Words in the prose (code blocks excluded) */
+  wordCount: number;
+  /** Estimated minutes to read the prose, rounded up */
+  readingTimeMinutes: number;
+  /** Number of headings */
+  sectionCount: number;
+  /** Number of fenced code blocks (mermaid diagrams excluded) */
+  codeBlockCount: number;
+}
+
+/**
+ * Split fenced code blocks out of markdown
+ *
+ * @returns The markdown without code blocks (surrounding lines kept) and the
+ * language of each code block ('' when none is given)
+ */
+const splitFencedCode = (markdown: string): { prose: string; languages: string[] } => {
+  const output: string[] = [];
+  const languages: string[] = [];
+  let openFence: string | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (openFence) {
+      if (
+        fenceMatch &&
+        fenceMatch[1][0] === openFence[0] &&
+        fenceMatch[1].length >= openFence.length &&
+        !fenceMatch[2].trim()
+      ) {
+        openFence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      openFence = fenceMatch[1];
+      languages.push(fenceMatch[2].trim().split(/\s/)[0].toLowerCase());
+      continue;
+    }
+    output.push(line);
+  }
+
+  return { prose: output.join('\n'), languages };
+};
+
+/**
+ * Count the words in a markdown document's prose
+ *
+ * @param markdown - Markdown without frontmatter
+ */
+export const countWords = (markdown: string): number => {
+  const { prose } = splitFencedCode(markdown);
+  const text = prose
+    .replace(/<[^>]+>/g, ' ') // HTML tags
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // link and image targets
+    .replace(/^ {0,3}\[[^\]]+\]:.*$/gm, '') // link reference definitions
+    .replace(/[#>*_~`|]+/g, ' '); // markdown syntax
+  return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’.-]*/gu)?.length ?? 0;
+};
+
+/**
+ * Compute a markdown file's statistics (frontmatter is ignored)
+ */
+export const getDocumentStats = (markdown: string): DocumentStats => {
+  const { body } = extractFrontmatter(markdown);
+  const wordCount = countWords(body);
+  const { languages } = splitFencedCode(body);
+  return {
+    wordCount,
+    readingTimeMinutes: Math.ceil(wordCount / WORDS_PER_MINUTE),
+    sectionCount: extractHeadings(body).length,
+    codeBlockCount: languages.filter((language) => language !== 'mermaid').length,
+  };
+};
@@ -0,0 +1,182 @@
+/**
+ * Mermaid block utilities
+ *
+ * DocumentView renders a block as a diagram only when it is fenced exactly as
+ * "```mermaid" ... "```". These helpers find every mermaid fence in the source
+ * and rewrite it for rendering: valid diagrams get the canonical fence, while
+ * diagrams that fail to parse become an inline error that keeps the source
+ * visible. Rewrites never change the number of lines, so line numbers reported
+ * by DocumentView (task list checkboxes) still map onto the source.
+ */
+
+import type { Theme } from '@principal-ade/industry-theme';
+
+/**
+ * A fenced mermaid block in the markdown source
+ */
+export interface MermaidBlock {
+  /** Diagram source (without the fences) */
+  code: string;
+  /** 0-based line of the opening fence */
+  startLine: number;
+  /** 0-based line of the closing fence */
+  endLine: number;
+}
+
+/**
+ * How a mermaid block should be rendered
+ */
+export type MermaidBlockState =
+  /** Render as a diagram */
+  | { status: 'valid' }
+  /** Render an inline error above the source */
+  | { status: 'invalid'; message: string }
+  /** Not parsed yet (or mermaid isn't available) - render the source as code */
+  | { status: 'pending' };
+
+// Only unindented fences: an indented fence belongs to a list item or quote
+const FENCE_REGEX = /^(`{3,}|~{3,})(.*)$/;
+const NESTED_FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+const MAX_ERROR_LENGTH = 300;
+
+/**
+ * Find all top-level fenced mermaid blocks, skipping fences inside other code blocks
+ */
+export const findMermaidBlocks = (markdown: string): MermaidBlock[] => {
+  const blocks: MermaidBlock[] = [];
+  const lines = markdown.split('\n');
+  let openFence: { marker: string; isMermaid: boolean; startLine: number } | null = null;
+
+  lines.forEach((line, index) => {
+    if (openFence) {
+      const closeMatch = line.match(NESTED_FENCE_REGEX);
+      if (
+        closeMatch &&
+        closeMatch[1][0] === openFence.marker[0] &&
+        closeMatch[1].length >= openFence.marker.length &&
+        !closeMatch[2].trim()
+      ) {
+        if (openFence.isMermaid) {
+          blocks.push({
+            code: lines.slice(openFence.startLine + 1, index).join('\n'),
+            startLine: openFence.startLine,
+            endLine: index,
+          });
+        }
+        openFence = null;
+      }
+      return;
+    }
+
+    const fenceMatch = line.match(NESTED_FENCE_REGEX);
+    if (fenceMatch) {
+      const isTopLevel = FENCE_REGEX.test(line);
+      const language = fenceMatch[2].trim().split(/\s+/)[0].toLowerCase();
+      openFence = {
+        marker: fenceMatch[1],
+        isMermaid: isTopLevel && language === 'mermaid',
+        startLine: index,
+      };
+    }
+  });
+
+  return blocks;
+};
+
+/**
+ * Reduce a mermaid parse error to a single line. Parse errors repeat the
+ * offending source line with a caret under it, which only makes sense in a
+ * multi-line monospace block.
+ */
+export const summarizeMermaidError = (message: string): string => {
+  const lines = message
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line);
+  const summary = lines.length > 2 ? `${lines[0]} ${lines[lines.length - 1]}` : lines.join(' ');
+  return summary.length > MAX_ERROR_LENGTH ? `${summary.slice(0, MAX_ERROR_LENGTH)}…` : summary;
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Class on the inline error shown in place of a diagram that failed to parse
+ */
+export const DIAGRAM_ERROR_CLASS = 'markdown-panel-diagram-error';
+
+/**
+ * Build the lines of an inline diagram error.
+ *
+ * A raw `<pre>` HTML block runs until its closing tag, blank lines included,
+ * so the error header takes the opening fence's line, each source line keeps
+ * its own line and `</pre>` takes the closing fence's line.
+ */
+const buildErrorLines = (sourceLines: string[], message: string, theme: Theme): string[] => {
+  const { colors, fonts } = theme;
+  const tint = `color-mix(in srgb, ${colors.error} 10%, transparent)`;
+  const preStyle = [
+    `border-left: 3px solid ${colors.error}`,
+    `background-color: ${tint}`,
+    `color: ${colors.text}`,
+    `font-family: ${fonts.monospace}`,
+    'font-size: 0.85em',
+    'padding: 12px 16px',
+    'margin: 16px 0',
+    'border-radius: 4px',
+    'overflow-x: auto',
+  ].join('; ');
+  const headerStyle = [
+    'display: inline-block',
+    'margin-bottom: 8px',
+    `color: ${colors.error}`,
+    `font-family: ${fonts.body}`,
+    'font-weight: 600',
+    'white-space: pre-wrap',
+  ].join('; ');
+
+  return [
+    `<pre class="${DIAGRAM_ERROR_CLASS}" style="${escapeHtml(preStyle)}"><span style="${escapeHtml(headerStyle)}">Mermaid diagram error: ${escapeHtml(summarizeMermaidError(message))}</span>`,
+    ...sourceLines.map(escapeHtml),
+    '</pre>',
+  ];
+};
+
+/**
+ * Rewrite mermaid blocks for rendering according to their state.
+ *
+ * @param markdown - The markdown source
+ * @param blocks - Blocks found by findMermaidBlocks
+ * @param getState - State of each block's diagram source
+ * @param theme - Theme used to style inline errors
+ * @returns Markdown with the same number of lines as the source
+ */
+export const prepareMermaidBlocks = (
+  markdown: string,
+  blocks: MermaidBlock[],
+  getState: (code: string) => MermaidBlockState,
+  theme: Theme
+): string => {
+  if (blocks.length === 0) return markdown;
+
+  const lines = markdown.split('\n');
+  for (const block of blocks) {
+    const state = getState(block.code);
+    const sourceLines = lines.slice(block.startLine + 1, block.endLine);
+    // A ``` line inside a ~~~ fence would end the canonical fence early
+    const canBeDiagram = !sourceLines.some((line) => line.startsWith('```'));
+    let replacement: string[];
+    if (state.status === 'valid' && canBeDiagram) {
+      replacement = ['```mermaid', ...sourceLines, '```'];
+    } else if (state.status === 'invalid') {
+      replacement = buildErrorLines(sourceLines, state.message, theme);
+    } else {
+      // The trailing space keeps DocumentView from treating the fence as a diagram
+      const fence = lines[block.startLine].match(FENCE_REGEX)?.[1] ?? '```';
+      replacement = [`${fence}mermaid `, ...sourceLines, fence];
+    }
+    lines.splice(block.startLine, replacement.length, ...replacement);
+  }
+  return lines.join('\n');
+};
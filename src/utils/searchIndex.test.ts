@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'bun:test';
+import { createSearchIndex } from './searchIndex';
+
+const createIndex = () => {
+  const index = createSearchIndex();
+  index.addDocument(
+    'docs/install.md',
+    [
+      '---',
+      'title: Installing',
+      '---',
+      '',
+      '# Install',
+      '',
+      'Run the installer.',
+      '',
+      '## Configuration',
+      '',
+      'Set the cache directory.',
+    ].join('\n')
+  );
+  index.addDocument(
+    'docs/usage.md',
+    ['# Usage', '', 'The configuration file is read at startup.', '', '```', 'cache()', '```'].join(
+      '\n'
+    )
+  );
+  return index;
+};
+
+describe('createSearchIndex', () => {
+  it('ranks matches in headings above body text, and body text above code', () => {
+    const results = createIndex().search('configuration');
+    expect(results.map((result) => [result.path, result.sectionId])).toEqual([
+      ['docs/install.md', 'configuration'],
+      ['docs/usage.md', 'usage'],
+    ]);
+
+    expect(
+      createIndex()
+        .search('cache')
+        .map((result) => result.path)
+    ).toEqual(['docs/install.md', 'docs/usage.md']);
+  });
+
+  it('ranks sections with more of the query words higher', () => {
+    const results = createIndex().search('configuration cache directory');
+    expect(results[0].sectionId).toBe('configuration');
+  });
+
+  it('returns each section with its title, breadcrumb, line and marked snippet', () => {
+    const [result] = createIndex().search('installer');
+    expect(result).toMatchObject({
+      path: 'docs/install.md',
+      title: 'Installing',
+      sectionId: 'install',
+      heading: 'Install',
+      breadcrumb: ['Install'],
+      line: 5,
+      snippet: { text: 'Run the installer.', highlights: [[8, 17]] },
+    });
+  });
+
+  it('matches longer words starting with the last query word', () => {
+    expect(
+      createIndex()
+        .search('config')
+        .map((result) => result.sectionId)
+    ).toEqual(['configuration', 'usage']);
+    expect(createIndex().search('installer conf')[0].sectionId).toBe('install');
+  });
+
+  it('replaces and removes documents', () => {
+    const index = createIndex();
+    index.addDocument('docs/usage.md', '# Usage\n\nNothing here.');
+    expect(index.search('startup')).toEqual([]);
+
+    index.removeDocument('docs/install.md');
+    expect(index.has('docs/install.md')).toBe(false);
+    expect(index.size).toBe(1);
+    expect(index.search('installer')).toEqual([]);
+  });
+
+  it('limits the number of results', () => {
+    expect(createIndex().search('the', 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Full-text search index
+ *
+ * An in-memory inverted index over the sections of markdown documents, used
+ * to search all of a repository's docs. Every heading starts a section, and
+ * words are weighted by where they appear: in the heading, the prose, or a
+ * code block. Documents can be added, replaced and removed one at a time, so
+ * the index can follow edits without being rebuilt.
+ */
+
+import { extractFrontmatter, getFrontmatterTitle } from './frontmatter';
+import { extractHeadings, stripInlineMarkdown } from './markdownHeadings';
+import { getHeadingPath } from './markdownSections';
+
+/**
+ * How much a word counts towards a section's score, by where it appears
+ */
+const FIELD_WEIGHTS = {
+  heading: 3,
+  body: 1,
+  code: 0.5,
+} as const;
+
+/** Score multiplier for words that only start with the last query word */
+const PREFIX_MATCH_WEIGHT = 0.6;
+/** Characters of context shown before the first match in a snippet */
+const SNIPPET_LEAD = 40;
+const SNIPPET_LENGTH = 160;
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Part of a section's text shown with a search result
+ */
+export interface SearchSnippet {
+  text: string;
+  /** [start, end) offsets in `text` of the words that matched */
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * A section that matched a search
+ */
+export interface DocsSearchResult {
+  path: string;
+  /** Document title (frontmatter title or first heading), if it has one */
+  title: string | null;
+  /** Slug of the section's heading (null for text before the first heading) */
+  sectionId: string | null;
+  /** Text of the section's heading */
+  heading: string | null;
+  /** Headings enclosing the section, outermost first, ending with its own */
+  breadcrumb: string[];
+  /** 1-based line where the section starts */
+  line: number;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+interface IndexedSection {
+  path: string;
+  title: string | null;
+  sectionId: string | null;
+  heading: string | null;
+  breadcrumb: string[];
+  line: number;
+  /** Plain text of the section (prose then code), for snippets */
+  text: string;
+  /** Weighted number of times each word appears */
+  terms: Map<string, number>;
+}
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(WORD_REGEX) ?? [];
+
+const addTerms = (terms: Map<string, number>, text: string, weight: number) => {
+  for (const term of tokenize(text)) {
+    terms.set(term, (terms.get(term) ?? 0) + weight);
+  }
+};
+
+/**
+ * Split a document into sections, one per heading, with the words in each
+ */
+const parseSections = (path: string, content: string): IndexedSection[] => {
+  const { frontmatter, body } = extractFrontmatter(content);
+  const headings = extractHeadings(body);
+  const title = getFrontmatterTitle(frontmatter) ?? headings[0]?.text ?? null;
+  const headingLines = new Set(headings.map((heading) => heading.line));
+  const lines = body.split('\n');
+
+  const sections: IndexedSection[] = [];
+  // Text before the first heading, then one section per heading
+  [null, ...headings].forEach((heading, index) => {
+    const startLine = heading ? heading.line : 0;
+    const endLine = headings[index]?.line ?? lines.length;
+
+    const prose: string[] = [];
+    const code: string[] = [];
+    let openFence: string | null = null;
+    for (let i = startLine; i < endLine; i++) {
+      const line = lines[i];
+      const fenceMatch = line.match(FENCE_REGEX);
+      if (openFence) {
+        if (
+          fenceMatch &&
+          fenceMatch[1][0] === openFence[0] &&
+          fenceMatch[1].length >= openFence.length &&
+          !fenceMatch[2].trim()
+        ) {
+          openFence = null;
+        } else {
+          code.push(line);
+        }
+      } else if (fenceMatch) {
+        openFence = fenceMatch[1];
+      } else if (!headingLines.has(i)) {
+        prose.push(stripInlineMarkdown(line.replace(/^ {0,3}(?:[-*+]|\d+[.)]|>)\s+/, '')));
+      }
+    }
+
+    const proseText = prose.filter(Boolean).join(' ');
+    const codeText = code.join(' ');
+    if (!heading && !proseText && !codeText) return;
+
+    const terms = new Map<string, number>();
+    if (heading) addTerms(terms, heading.text, FIELD_WEIGHTS.heading);
+    addTerms(terms, proseText, FIELD_WEIGHTS.body);
+    addTerms(terms, codeText, FIELD_WEIGHTS.code);
+
+    sections.push({
+      path,
+      title,
+      sectionId: heading?.slug ?? null,
+      heading: heading?.text ?? null,
+      breadcrumb: heading ? getHeadingPath(headings, heading).map((h) => h.text) : [],
+      line: startLine + 1,
+      text: [proseText, codeText].filter(Boolean).join(' ').replace(/\s+/g, ' '),
+      terms,
+    });
+  });
+
+  return sections;
+};
+
+/**
+ * Cut the part of a section's text around the first match
+ */
+const createSnippet = (text: string, terms: string[], prefix: string | null): SearchSnippet => {
+  const matches: Array<[number, number]> = [];
+  for (const match of text.matchAll(WORD_REGEX)) {
+    const word = match[0].toLowerCase();
+    if (terms.includes(word) || (prefix && word.startsWith(prefix))) {
+      matches.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  let start = Math.max(0, (matches[0]?.[0] ?? 0) - SNIPPET_LEAD);
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  // Don't cut words in half
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length)
+    end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+
+  const lead = start > 0 ? '…' : '';
+  return {
+    text: `${lead}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights: matches
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from - start + lead.length, to - start + lead.length]),
+  };
+};
+
+/**
+ * Create an empty search index
+ */
+export const createSearchIndex = () => {
+  const sections = new Map<string, IndexedSection>();
+  // Sections containing each word
+  const postings = new Map<string, Set<string>>();
+  const keysByPath = new Map<string, string[]>();
+
+  const removeDocument = (path: string): void => {
+    for (const key of keysByPath.get(path) ?? []) {
+      for (const term of sections.get(key)?.terms.keys() ?? []) {
+        const keys = postings.get(term);
+        keys?.delete(key);
+        if (keys?.size === 0) postings.delete(term);
+      }
+      sections.delete(key);
+    }
+    keysByPath.delete(path);
+  };
+
+  /**
+   * Index a document, replacing any earlier version of it
+   */
+  const addDocument = (path: string, content: string): void => {
+    removeDocument(path);
+    const keys = parseSections(path, content).map((section, index) => {
+      const key = `${path}#${index}`;
+      sections.set(key, section);
+      for (const term of section.terms.keys()) {
+        let keysForTerm = postings.get(term);
+        if (!keysForTerm) {
+          keysForTerm = new Set();
+          postings.set(term, keysForTerm);
+        }
+        keysForTerm.add(key);
+      }
+      return key;
+    });
+    keysByPath.set(path, keys);
+  };
+
+  /**
+   * Find the sections best matching a query. Every query word adds to a
+   * section's score (rarer words count for more), and the last word also
+   * matches longer words starting with it, so results follow typing.
+   */
+  const search = (query: string, limit = 20): DocsSearchResult[] => {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || sections.size === 0) return [];
+    const last = terms[terms.length - 1];
+    const prefix = last.length >= 2 ? last : null;
+
+    // Index words each query word matches, with how much a match counts
+    const expansions = terms.map((term) => {
+      const matches = new Map<string, number>();
+      if (postings.has(term)) matches.set(term, 1);
+      if (term === prefix) {
+        for (const indexed of postings.keys()) {
+          if (indexed !== term && indexed.startsWith(term)) {
+            matches.set(indexed, PREFIX_MATCH_WEIGHT);
+          }
+        }
+      }
+      return matches;
+    });
+
+    const scores = new Map<string, { score: number; matchedTerms: number }>();
+    expansions.forEach((matches) => {
+      const matchedBy = new Set<string>();
+      for (const [indexed, weight] of matches) {
+        const keys = postings.get(indexed)!;
+        const idf = Math.log(1 + (sections.size - keys.size + 0.5) / (keys.size + 0.5));
+        for (const key of keys) {
+          const frequency = sections.get(key)!.terms.get(indexed)!;
+          const entry = scores.get(key) ?? { score: 0, matchedTerms: 0 };
+          // Repeated words count for less and less
+          entry.score += weight * idf * (frequency / (frequency + 1.2));
+          if (!matchedBy.has(key)) {
+            matchedBy.add(key);
+            entry.matchedTerms++;
+          }
+          scores.set(key, entry);
+        }
+      }
+    });
+
+    // Sections containing more of the query words rank higher
+    return [...scores]
+      .map(([key, { score, matchedTerms }]) => ({
+        key,
+        score: score * (matchedTerms / terms.length) ** 2,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ key, score }) => {
+        const { terms: _terms, text, ...section } = sections.get(key)!;
+        return {
+          ...section,
+          score: Math.round(score * 1000) / 1000,
+          snippet: createSnippet(text, terms, prefix),
+        };
+      });
+  };
+
+  return {
+    addDocument,
+    removeDocument,
+    search,
+    /** Whether a document is in the index */
+    has: (path: string): boolean => keysByPath.has(path),
+    /** Number of documents in the index */
+    get size(): number {
+      return keysByPath.size;
+    },
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,65 @@
+/**
+ * Task list utilities
+ *
+ * Maps checkbox changes reported by DocumentView back to `- [ ]` / `- [x]`
+ * lines in the markdown source and rewrites them.
+ */
+
+const TASK_ITEM_REGEX = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/;
+const MERMAID_BLOCK_REGEX = /^```mermaid\n[\s\S]*?\n^```$/gm;
+
+/**
+ * 0-based source lines where each DocumentView markdown chunk starts.
+ *
+ * DocumentView renders the text between mermaid fences as separate chunks and
+ * reports checkbox line numbers relative to the chunk they belong to.
+ */
+export const getMarkdownChunkStartLines = (markdown: string): number[] => {
+  const starts = [0];
+  for (const match of markdown.matchAll(MERMAID_BLOCK_REGEX)) {
+    const end = (match.index ?? 0) + match[0].length;
+    starts.push(markdown.slice(0, end).split('\n').length - 1);
+  }
+  return starts;
+};
+
+/**
+ * Whether a line is a task list item, and if so whether it is checked
+ */
+export const getTaskState = (line: string): boolean | null => {
+  const match = line.match(TASK_ITEM_REGEX);
+  if (!match) return null;
+  return match[2] !== ' ';
+};
+
+/**
+ * Find the 0-based source line of a checkbox DocumentView reported as toggled.
+ *
+ * @param markdown - The markdown that was rendered
+ * @param chunkLineNumber - 1-based line number relative to the rendered chunk
+ * @param checked - The new checked state
+ * @returns The source line, or null if no matching task item exists
+ */
+export const findTaskLine = (
+  markdown: string,
+  chunkLineNumber: number,
+  checked: boolean
+): number | null => {
+  const lines = markdown.split('\n');
+  const candidates = getMarkdownChunkStartLines(markdown)
+    .map((start) => start + chunkLineNumber - 1)
+    .filter((line) => line < lines.length && getTaskState(lines[line]) !== null);
+
+  // Prefer the item whose current state is the one being toggled away from
+  return candidates.find((line) => getTaskState(lines[line]) === !checked) ?? candidates[0] ?? null;
+};
+
+/**
+ * Set the checked state of the task list item on a 0-based source line
+ */
+export const setTaskChecked = (markdown: string, line: number, checked: boolean): string => {
+  const lines = markdown.split('\n');
+  if (line < 0 || line >= lines.length) return markdown;
+  lines[line] = lines[line].replace(TASK_ITEM_REGEX, `$1${checked ? 'x' : ' '}$3`);
+  return lines.join('\n');
+};
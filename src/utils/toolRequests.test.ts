@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'bun:test';
+import { getRequestId } from './toolRequests';
+
+describe('getRequestId', () => {
+  it('echoes the correlation ID sent with the request', () => {
+    expect(getRequestId('outline-1')).toBe('outline-1');
+  });
+
+  it('generates a different ID for each request sent without one', () => {
+    const first = getRequestId(undefined);
+    const second = getRequestId('');
+    expect(first).toMatch(/^request-/);
+    expect(second).not.toBe(first);
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Tool request utilities
+ *
+ * Tool results echo the correlation ID of the request they answer. Requests
+ * sent without one are given a generated ID, so every result can still be
+ * told apart.
+ */
+
+let generatedRequestCount = 0;
+
+/**
+ * The correlation ID sent with a tool request, or a new one unique to the page
+ */
+export const getRequestId = (requestId: unknown): string => {
+  if (typeof requestId === 'string' && requestId) return requestId;
+  generatedRequestCount++;
+  return `request-${Date.now().toString(36)}-${generatedRequestCount}`;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'bun:test';
+import type { MarkdownViewState } from '../types';
+import { getViewStateStorage, normalizeViewState } from './viewStateStorage';
+
+describe('normalizeViewState', () => {
+  it('keeps valid view state', () => {
+    const state: MarkdownViewState = {
+      scrollTop: 120,
+      sectionId: 'usage',
+      viewMode: 'slides',
+      slideIndex: 2,
+      fontSizeScale: 1.25,
+    };
+    expect(normalizeViewState(state)).toEqual(state);
+  });
+
+  it('replaces missing and invalid fields with defaults', () => {
+    expect(
+      normalizeViewState({ scrollTop: -5, viewMode: 'preview', slideIndex: 1.7, fontSizeScale: 9 })
+    ).toEqual({
+      scrollTop: 0,
+      sectionId: null,
+      viewMode: 'document',
+      slideIndex: 1,
+      fontSizeScale: 3,
+    });
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(normalizeViewState(null)).toBeNull();
+    expect(normalizeViewState('document')).toBeNull();
+  });
+});
+
+describe('getViewStateStorage', () => {
+  it('loads and saves through the host actions when both are given', async () => {
+    const saved: Array<[string, MarkdownViewState]> = [];
+    const storage = getViewStateStorage({
+      loadViewState: async () => ({ scrollTop: 10 }) as MarkdownViewState,
+      saveViewState: async (path, state) => {
+        saved.push([path, state]);
+      },
+    });
+
+    expect(await storage.load('README.md')).toEqual({
+      scrollTop: 10,
+      sectionId: null,
+      viewMode: 'document',
+      slideIndex: 0,
+      fontSizeScale: 1,
+    });
+    const state = (await storage.load('README.md')) as MarkdownViewState;
+    await storage.save('README.md', state);
+    expect(saved).toEqual([['README.md', state]]);
+  });
+});
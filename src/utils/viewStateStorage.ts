@@ -0,0 +1,105 @@
+/**
+ * View state storage
+ *
+ * Remembers how each file was last viewed (scroll offset, section, view mode,
+ * slide and font scale) so it can be restored when the file is shown again.
+ * Hosts can store it themselves through the loadViewState/saveViewState
+ * actions; otherwise it is kept in localStorage.
+ */
+
+import type { MarkdownPanelActions, MarkdownViewMode, MarkdownViewState } from '../types';
+
+/**
+ * Where view state is kept
+ */
+export interface ViewStateStorage {
+  load: (path: string) => Promise<MarkdownViewState | null>;
+  save: (path: string, state: MarkdownViewState) => Promise<void>;
+}
+
+/**
+ * localStorage key prefix (the repository path is appended when known)
+ */
+export const VIEW_STATE_STORAGE_KEY = 'markdown-panel:view-state';
+
+/**
+ * Maximum number of files remembered in localStorage (least recently viewed are dropped)
+ */
+const MAX_STORED_FILES = 200;
+
+const VIEW_MODES: MarkdownViewMode[] = ['document', 'slides', 'changes', 'edit'];
+
+/**
+ * Check stored view state, which may come from an older version or a host
+ *
+ * @returns The state, or null if it isn't valid view state
+ */
+export const normalizeViewState = (value: unknown): MarkdownViewState | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const state = value as Partial<Record<keyof MarkdownViewState, unknown>>;
+  const isNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+  return {
+    scrollTop: isNumber(state.scrollTop) ? Math.max(state.scrollTop, 0) : 0,
+    sectionId: typeof state.sectionId === 'string' ? state.sectionId : null,
+    viewMode: VIEW_MODES.includes(state.viewMode as MarkdownViewMode)
+      ? (state.viewMode as MarkdownViewMode)
+      : 'document',
+    slideIndex: isNumber(state.slideIndex) ? Math.max(Math.floor(state.slideIndex), 0) : 0,
+    fontSizeScale: isNumber(state.fontSizeScale)
+      ? Math.min(Math.max(state.fontSizeScale, 0.5), 3.0)
+      : 1.0,
+  };
+};
+
+/**
+ * Store view state in localStorage, one entry per repository.
+ * Storage errors (private browsing, quota) are logged and otherwise ignored.
+ *
+ * @param repositoryPath - Keeps files with the same path in different repositories apart
+ */
+export const createLocalViewStateStorage = (repositoryPath?: string): ViewStateStorage => {
+  const key = repositoryPath
+    ? `${VIEW_STATE_STORAGE_KEY}:${repositoryPath}`
+    : VIEW_STATE_STORAGE_KEY;
+
+  // Entries ordered from least to most recently saved
+  const read = (): Array<{ path: string; state: unknown }> => {
+    try {
+      const parsed: unknown = JSON.parse(window.localStorage.getItem(key) ?? '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    load: async (path) => normalizeViewState(read().find((entry) => entry.path === path)?.state),
+    save: async (path, state) => {
+      const entries = read().filter((entry) => entry.path !== path);
+      entries.push({ path, state });
+      try {
+        window.localStorage.setItem(key, JSON.stringify(entries.slice(-MAX_STORED_FILES)));
+      } catch (err) {
+        console.warn('[MarkdownPanel] Failed to store view state:', err);
+      }
+    },
+  };
+};
+
+/**
+ * Storage for the panel: the host's view state actions when it provides both,
+ * otherwise localStorage
+ */
+export const getViewStateStorage = (
+  actions: Pick<MarkdownPanelActions, 'loadViewState' | 'saveViewState'>,
+  repositoryPath?: string
+): ViewStateStorage => {
+  if (!actions.loadViewState || !actions.saveViewState) {
+    return createLocalViewStateStorage(repositoryPath);
+  }
+  return {
+    load: async (path) => normalizeViewState(await actions.loadViewState?.(path)),
+    save: async (path, state) => actions.saveViewState?.(path, state),
+  };
+};